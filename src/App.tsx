@@ -5,9 +5,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import BottomNavigation from "@/components/BottomNavigation";
+import SessionWatcher from "@/components/SessionWatcher";
+import AppLockScreen from "@/components/AppLockScreen";
 import { authService } from "@/lib/authService";
 import { notificationService } from "@/lib/notificationService";
 import { themeService } from "@/lib/themeService";
+import { outboxService } from "@/lib/outboxService";
+import { secureStorage } from "@/lib/secureStorage";
+import { workspaceService } from "@/lib/workspaces";
+import { AppLockState, appLockService } from "@/lib/appLock";
+import { setSheetLocale } from "@/lib/dates";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
@@ -19,17 +26,27 @@ const queryClient = new QueryClient();
 
 const App = () => {
   const [isReady, setIsReady] = useState(false);
+  const [lockState, setLockState] = useState<AppLockState>('unlocked');
 
   useEffect(() => {
     (async () => {
+      // Old envelopes are upgraded before any service reads storage
+      await secureStorage.initialize();
       // Initialize all services
       await Promise.all([
         authService.initialize(),
         notificationService.initialize(),
         themeService.initialize(),
+        outboxService.initialize(),
+        workspaceService.initialize(),
+        secureStorage.getCredentials().then((credentials) => setSheetLocale(credentials?.sheetLocale)),
       ]);
+      // Needs the restored session; decides whether the lock screen comes before any dashboard
+      await appLockService.initialize();
+      setLockState(appLockService.getState());
       setIsReady(true);
     })();
+    return appLockService.subscribe(setLockState);
   }, []);
 
   if (!isReady) {
@@ -57,6 +74,8 @@ const App = () => {
         <Toaster />
         <Sonner />
         <BrowserRouter>
+          <SessionWatcher />
+          {/* Routes stay mounted while locked so open dashboards and unsaved edits survive */}
           <div className="pb-24 sm:pb-20">
             <Routes>
               <Route path="/" element={<Index />} />
@@ -68,6 +87,7 @@ const App = () => {
             </Routes>
             <BottomNavigation />
           </div>
+          {lockState !== 'unlocked' && <AppLockScreen state={lockState} />}
         </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Lock } from "lucide-react";
+import { appLockService, isValidPin } from "@/lib/appLock";
+import { errorMessage } from "@/lib/utils";
+
+interface AppLockDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** Set, change or remove the signed-in user's app PIN */
+const AppLockDialog = ({ open, onClose }: AppLockDialogProps) => {
+  const [hasPin, setHasPin] = useState(false);
+  const [pin, setPin] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+  const { mandatory, backgroundMinutes } = appLockService.getSettings();
+
+  useEffect(() => {
+    if (!open) return;
+    setPin("");
+    setConfirm("");
+    appLockService.hasPin().then(setHasPin);
+  }, [open]);
+
+  const handleSave = async () => {
+    if (!isValidPin(pin)) {
+      toast({ variant: "destructive", title: "Invalid PIN", description: "PIN must be 4 to 8 digits" });
+      return;
+    }
+    if (pin !== confirm) {
+      toast({ variant: "destructive", title: "Invalid PIN", description: "PINs do not match" });
+      return;
+    }
+    setWorking(true);
+    try {
+      await appLockService.setPin(pin);
+      toast({ title: hasPin ? "PIN changed" : "App lock enabled" });
+      onClose();
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Could not set PIN", description: errorMessage(error) });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setWorking(true);
+    try {
+      await appLockService.removePin();
+      toast({ title: "App lock disabled" });
+      onClose();
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Could not remove PIN", description: errorMessage(error) });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleLockNow = async () => {
+    onClose();
+    await appLockService.refresh(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>App Lock</DialogTitle>
+          <DialogDescription>
+            {hasPin
+              ? `The app asks for your PIN when it starts and after ${backgroundMinutes > 0 ? `${backgroundMinutes} minute(s)` : 'any time'} in the background.`
+              : 'Set a PIN so nobody else can open the CRM on this device.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="app-lock-pin">{hasPin ? 'New PIN' : 'PIN'} (4-8 digits)</Label>
+            <Input
+              id="app-lock-pin"
+              type="password"
+              inputMode="numeric"
+              maxLength={8}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D+/g, ''))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="app-lock-confirm">Confirm PIN</Label>
+            <Input
+              id="app-lock-confirm"
+              type="password"
+              inputMode="numeric"
+              maxLength={8}
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value.replace(/\D+/g, ''))}
+            />
+          </div>
+          {mandatory && <p className="text-xs text-muted-foreground">Your admin requires an app PIN.</p>}
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-2 pt-2">
+          <div className="flex gap-2">
+            {hasPin && (
+              <Button variant="outline" className="gap-2" onClick={handleLockNow} disabled={working}>
+                <Lock className="h-4 w-4" /> Lock now
+              </Button>
+            )}
+            {hasPin && !mandatory && (
+              <Button variant="ghost" onClick={handleRemove} disabled={working}>
+                Remove PIN
+              </Button>
+            )}
+          </div>
+          <Button onClick={handleSave} disabled={working || !pin}>
+            {hasPin ? 'Change PIN' : 'Set PIN'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AppLockDialog;
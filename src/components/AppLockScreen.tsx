@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Lock } from "lucide-react";
+import { AppLockState, appLockService, isValidPin } from "@/lib/appLock";
+import { authService } from "@/lib/authService";
+import { errorMessage } from "@/lib/utils";
+
+interface AppLockScreenProps {
+  state: Exclude<AppLockState, 'unlocked'>;
+}
+
+/**
+ * Full-screen overlay while the app is locked, or while a mandatory PIN still
+ * has to be set. The app underneath stays mounted but is made inert.
+ */
+const AppLockScreen = ({ state }: AppLockScreenProps) => {
+  const overlay = useRef<HTMLDivElement>(null);
+  const [pin, setPin] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const user = authService.getSession()?.user;
+
+  // The routes and any open dialog portals are siblings of the overlay in <body>
+  useEffect(() => {
+    const hidden = Array.from(document.body.children)
+      .filter((element) => element !== overlay.current && !element.hasAttribute('inert'))
+      .map((element) => ({ element, ariaHidden: element.getAttribute('aria-hidden') }));
+    hidden.forEach(({ element }) => {
+      element.setAttribute('inert', '');
+      element.setAttribute('aria-hidden', 'true');
+    });
+    // An open dialog's focus trap may have pulled focus back before it went inert
+    overlay.current?.querySelector('input')?.focus();
+    return () => hidden.forEach(({ element, ariaHidden }) => {
+      element.removeAttribute('inert');
+      if (ariaHidden === null) element.removeAttribute('aria-hidden');
+      else element.setAttribute('aria-hidden', ariaHidden);
+    });
+  }, []);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setWorking(true);
+    try {
+      const result = await appLockService.unlock(pin);
+      setPin("");
+      if (result.loggedOut) {
+        toast({ variant: "destructive", title: "Signed out", description: "Too many wrong PINs. Cached leads were cleared." });
+        navigate("/auth", { replace: true });
+      } else if (!result.ok) {
+        setError(`Wrong PIN. ${result.attemptsLeft} attempt(s) left before you are signed out.`);
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSetPin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) {
+      setError("PIN must be 4 to 8 digits");
+      return;
+    }
+    if (pin !== confirm) {
+      setError("PINs do not match");
+      return;
+    }
+    setWorking(true);
+    try {
+      await appLockService.setPin(pin);
+      toast({ title: "PIN set", description: "You'll need it to open the app" });
+    } catch (err: unknown) {
+      setError(errorMessage(err));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await appLockService.forceLogout();
+    navigate("/auth", { replace: true });
+  };
+
+  const pinInput = (id: string, value: string, onChange: (value: string) => void) => (
+    <Input
+      id={id}
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      maxLength={8}
+      placeholder="••••"
+      value={value}
+      onChange={(e) => {
+        onChange(e.target.value.replace(/\D+/g, ''));
+        setError(null);
+      }}
+      className="text-center text-lg tracking-widest"
+      autoFocus={id === "lock-pin"}
+    />
+  );
+
+  // Stopped here so an open dialog underneath doesn't treat clicks and Escape on the overlay as dismissals
+  const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+  return createPortal(
+    <div
+      ref={overlay}
+      role="dialog"
+      aria-modal="true"
+      className="fixed inset-0 z-[100] overflow-y-auto pointer-events-auto flex items-center justify-center bg-gradient-subtle p-4"
+      onPointerDown={stop}
+      onKeyDown={stop}
+    >
+      <Card className="w-full max-w-sm shadow-soft">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+            <Lock className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle>{state === 'locked' ? 'App locked' : 'Set an app PIN'}</CardTitle>
+          <CardDescription>
+            {state === 'locked'
+              ? `Enter your PIN to continue${user ? ` as ${user.name}` : ''}`
+              : 'Your admin requires a PIN to open the app on this device'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={state === 'locked' ? handleUnlock : handleSetPin} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="lock-pin">{state === 'locked' ? 'PIN' : 'New PIN (4-8 digits)'}</Label>
+              {pinInput("lock-pin", pin, setPin)}
+            </div>
+            {state === 'setup' && (
+              <div className="space-y-2">
+                <Label htmlFor="lock-pin-confirm">Confirm PIN</Label>
+                {pinInput("lock-pin-confirm", confirm, setConfirm)}
+              </div>
+            )}
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={working || !pin}>
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {state === 'locked' ? 'Unlock' : 'Set PIN'}
+            </Button>
+          </form>
+          <Button variant="link" className="w-full mt-2 text-xs text-muted-foreground" onClick={handleSignOut} disabled={working}>
+            {state === 'locked' ? 'Forgot your PIN? Sign out' : 'Sign out'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>,
+    document.body
+  );
+};
+
+export default AppLockScreen;
@@ -0,0 +1,183 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Wand2 } from "lucide-react";
+import { SecureCredentials } from "@/lib/secureStorage";
+import { GoogleSheetsService, SheetRow } from "@/lib/googleSheets";
+import { createSheetsService } from "@/lib/sheetsLeadRepository";
+import { formatDisplayDate } from "@/lib/dates";
+import { LEAD_FIELDS, columnToIndex, detectColumnMappings, isCellNoteField, validateColumnMappings } from "@/lib/columnMapping";
+import { errorMessage } from "@/lib/utils";
+
+interface ColumnMappingEditorProps {
+  /** Current (unsaved) Settings form values, used to reach the sheet */
+  credentials: SecureCredentials;
+  mappings: Record<string, string>;
+  onChange: (mappings: Record<string, string>) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+/** MASTER DATA column mapping editor with header detection and a live parse preview */
+const ColumnMappingEditor = ({ credentials, mappings, onChange }: ColumnMappingEditorProps) => {
+  const [sample, setSample] = useState<{ service: GoogleSheetsService; headers: string[]; rows: SheetRow[] } | null>(null);
+  const [unmatched, setUnmatched] = useState<string[]>([]);
+  const [detecting, setDetecting] = useState(false);
+  const { toast } = useToast();
+
+  const validation = useMemo(
+    () => validateColumnMappings(mappings, sample?.headers),
+    [mappings, sample]
+  );
+
+  const previewLeads = useMemo(() => {
+    if (!sample) return [];
+    return sample.service.previewLeads(sample.rows, validation.mappings);
+  }, [sample, validation]);
+
+  const unknownKeys = Object.keys(validation.mappings).filter((key) => !LEAD_FIELDS.some((f) => f.key === key));
+
+  const handleRemoveUnknown = () => {
+    onChange(Object.fromEntries(Object.entries(validation.mappings).filter(([key]) => !unknownKeys.includes(key))));
+  };
+
+  const handleDetect = async () => {
+    if (!credentials.googleSheetUrl) {
+      toast({ variant: "destructive", title: "Missing configuration", description: "Please provide Google Sheet URL" });
+      return;
+    }
+    setDetecting(true);
+    try {
+      const service = createSheetsService(credentials);
+      const { headers, rows } = await service.fetchSampleRows(PREVIEW_ROWS);
+      if (headers.length === 0) throw new Error('The MASTER DATA header row is empty');
+
+      const detected = detectColumnMappings(headers);
+      // Keep hand-made entries for fields the headers didn't name, unless their column is now taken
+      const taken = new Set(Object.values(detected.mappings));
+      const kept = Object.fromEntries(
+        Object.entries(validation.mappings).filter(
+          ([key, col]) => !detected.mappings[key] && (!taken.has(col) || isCellNoteField(key))
+        )
+      );
+      onChange({ ...kept, ...detected.mappings });
+      setSample({ service, headers, rows });
+      setUnmatched(detected.unmatched);
+
+      toast({
+        title: "Columns detected",
+        description: `Matched ${Object.keys(detected.mappings).length} of ${headers.filter(Boolean).length} headers`,
+      });
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Failed to read headers", description: errorMessage(error) });
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  const headerFor = (col?: string) =>
+    sample && col && /^[A-Z]{1,2}$/.test(col) ? sample.headers[columnToIndex(col)] || '' : '';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-semibold">Column Mappings (MASTER DATA sheet)</h3>
+        <Button size="sm" variant="outline" onClick={handleDetect} disabled={detecting}>
+          <Wand2 className="h-4 w-4 mr-2" />
+          {detecting ? 'Reading...' : 'Detect from headers'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {LEAD_FIELDS.map((field) => {
+          const col = validation.mappings[field.key] || '';
+          return (
+            <div key={field.key} className="space-y-1">
+              <Label htmlFor={`col-${field.key}`} className="text-xs">
+                {field.label.toUpperCase()}{field.required ? ' *' : ''}
+              </Label>
+              <Input
+                id={`col-${field.key}`}
+                value={col}
+                onChange={(e) => onChange({ ...validation.mappings, [field.key]: e.target.value.toUpperCase() })}
+                placeholder="-"
+                className="text-center"
+                maxLength={2}
+              />
+              {headerFor(col) && (
+                <p className="text-[10px] text-muted-foreground truncate">{headerFor(col)}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {validation.errors.length > 0 && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 space-y-1">
+          {validation.errors.map((error) => (
+            <p key={error} className="text-xs text-destructive flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3 shrink-0" />
+              {error}
+            </p>
+          ))}
+          {unknownKeys.length > 0 && (
+            <Button size="sm" variant="outline" className="mt-2" onClick={handleRemoveUnknown}>
+              Remove unknown fields
+            </Button>
+          )}
+        </div>
+      )}
+      {validation.warnings.length > 0 && (
+        <div className="rounded-md border border-orange-200 bg-orange-50 dark:bg-orange-950/30 dark:border-orange-800 p-3 space-y-1">
+          {validation.warnings.map((warning) => (
+            <p key={warning} className="text-xs text-orange-700 dark:text-orange-400">{warning}</p>
+          ))}
+        </div>
+      )}
+      {unmatched.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Headers not matched to a field: {unmatched.join(', ')}
+        </p>
+      )}
+
+      {sample && previewLeads.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold">Preview (first {previewLeads.length} rows)</h4>
+          <div className="border rounded-md overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs">Row</TableHead>
+                  <TableHead className="text-xs">Traveller</TableHead>
+                  <TableHead className="text-xs">Date</TableHead>
+                  <TableHead className="text-xs">Consultant</TableHead>
+                  <TableHead className="text-xs">Status</TableHead>
+                  <TableHead className="text-xs">Travel Date</TableHead>
+                  <TableHead className="text-xs">Phone</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {previewLeads.map((lead) => (
+                  <TableRow key={lead._rowNumber}>
+                    <TableCell className="text-xs">{lead._rowNumber}</TableCell>
+                    <TableCell className="text-xs">{lead.travellerName}</TableCell>
+                    <TableCell className="text-xs">{lead.dateAndTime}</TableCell>
+                    <TableCell className="text-xs">{lead.consultant}</TableCell>
+                    <TableCell className="text-xs">{lead.status}</TableCell>
+                    <TableCell className="text-xs">{formatDisplayDate(lead.travelDate)}</TableCell>
+                    <TableCell className="text-xs">{lead.phone}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnMappingEditor;
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CloudOff, RefreshCw, Trash2, AlertTriangle } from "lucide-react";
+import { outboxService, OutboxItem } from "@/lib/outboxService";
+
+/**
+ * Header badge showing lead writes waiting in the offline outbox.
+ * Hidden when nothing is queued; failed items can be retried or discarded.
+ */
+const PendingChangesBadge = () => {
+  const [items, setItems] = useState<OutboxItem[]>(() => outboxService.getItems());
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => outboxService.subscribe(setItems), []);
+
+  if (items.length === 0) return null;
+
+  const failedCount = items.filter((i) => i.status === 'failed').length;
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      await outboxService.flush();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className="gap-1 h-8 sm:h-10 text-xs sm:text-sm px-2 sm:px-3 relative"
+        >
+          <CloudOff className="h-3 w-3 sm:h-4 sm:w-4" />
+          <Badge className={`${failedCount > 0 ? 'bg-red-500' : 'bg-orange-500'} text-white text-xs px-1.5`}>
+            {items.length}
+          </Badge>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="font-semibold text-sm">Pending changes</p>
+            <p className="text-xs text-muted-foreground">
+              Saved on this device, will sync when online
+            </p>
+          </div>
+          <Button size="sm" variant="outline" className="gap-1 h-7 text-xs" onClick={handleSyncNow} disabled={syncing}>
+            <RefreshCw className={`h-3 w-3 ${syncing ? 'animate-spin' : ''}`} />
+            Sync
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {items.map((item) => (
+            <div key={item.id} className="border rounded-md p-2 text-xs space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <span className="font-medium">{item.description}</span>
+                <span className="text-muted-foreground shrink-0">
+                  {new Date(item.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+              {item.status === 'failed' ? (
+                <>
+                  <p className="text-red-600 dark:text-red-400 flex items-start gap-1">
+                    <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                    <span className="break-words">{item.lastError}</span>
+                  </p>
+                  <div className="flex gap-1 pt-1">
+                    <Button size="sm" variant="secondary" className="h-6 text-xs" onClick={() => outboxService.retry(item.id)}>
+                      Retry
+                    </Button>
+                    {item.isConflict && (
+                      <Button size="sm" variant="secondary" className="h-6 text-xs" onClick={() => outboxService.retry(item.id, { overwrite: true })}>
+                        Overwrite
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" className="h-6 text-xs gap-1 text-red-600" onClick={() => outboxService.discard(item.id)}>
+                      <Trash2 className="h-3 w-3" /> Discard
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-muted-foreground">Waiting to sync</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PendingChangesBadge;
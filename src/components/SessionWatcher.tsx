@@ -0,0 +1,54 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { authService, SessionEndReason } from "@/lib/authService";
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+const END_MESSAGES: Record<SessionEndReason, string> = {
+  expired: "Your session expired. Please sign in again.",
+  idle: "You were signed out after a period of inactivity.",
+  invalid: "Your session is no longer valid. Please sign in again.",
+  'user-removed': "Your account was removed.",
+  'role-changed': "Your role changed. Please sign in again.",
+};
+
+/**
+ * Keeps the session honest: records activity for the idle timeout, checks
+ * expiry every minute, re-checks the user when the app comes back to the
+ * foreground, and sends the user to /auth when the session ends.
+ */
+const SessionWatcher = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const unsubscribe = authService.onSessionEnded((reason) => {
+      toast({ variant: "destructive", title: "Signed out", description: END_MESSAGES[reason] });
+      navigate("/auth", { replace: true });
+    });
+
+    const handleActivity = () => authService.touch();
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") authService.checkSession(true);
+    };
+    const interval = window.setInterval(() => authService.checkSession(), CHECK_INTERVAL_MS);
+
+    window.addEventListener("pointerdown", handleActivity);
+    window.addEventListener("keydown", handleActivity);
+    document.addEventListener("visibilitychange", handleVisibility);
+    authService.checkSession(true);
+
+    return () => {
+      unsubscribe();
+      window.clearInterval(interval);
+      window.removeEventListener("pointerdown", handleActivity);
+      window.removeEventListener("keydown", handleActivity);
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [navigate, toast]);
+
+  return null;
+};
+
+export default SessionWatcher;
@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, Loader2, PlugZap } from "lucide-react";
+import ColumnMappingEditor from "@/components/ColumnMappingEditor";
+import { authService, InitialAdmin } from "@/lib/authService";
+import { SecureCredentials, secureStorage } from "@/lib/secureStorage";
+import { createSheetsService } from "@/lib/sheetsLeadRepository";
+import { validateColumnMappings } from "@/lib/columnMapping";
+import { setSheetLocale } from "@/lib/dates";
+import { errorMessage } from "@/lib/utils";
+
+interface SetupWizardProps {
+  /** `first-run` also creates the initial admin; `existing` only (re)connects the sheet */
+  mode: 'first-run' | 'existing';
+  /** Called once setup is saved, with the new admin on first run so they can be signed in */
+  onComplete: (admin?: InitialAdmin) => void;
+  /** Existing installs may postpone the wizard; it is shown again on the next admin login */
+  onSkip?: () => void;
+}
+
+type Step = 'admin' | 'sheet' | 'mappings';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const DEFAULT_COLUMN_MAPPINGS: Record<string, string> = {
+  tripId: "A",
+  dateAndTime: "B",
+  consultant: "C",
+  status: "D",
+  travellerName: "E",
+  travelDate: "G",
+  travelState: "H",
+  remarks: "K",
+  nights: "L",
+  pax: "M",
+  hotelCategory: "N",
+  mealPlan: "O",
+  phone: "P",
+  email: "Q",
+  uniqueKey: "Z",
+  timeStamp: "AA",
+  priority: "AL"
+};
+
+/** Onboarding: initial admin account, Google Sheet connection, column mappings and a connection test */
+const SetupWizard = ({ mode, onComplete, onSkip }: SetupWizardProps) => {
+  const steps: Step[] = mode === 'first-run' ? ['admin', 'sheet', 'mappings'] : ['sheet', 'mappings'];
+  const [step, setStep] = useState<Step>(steps[0]);
+  const [admin, setAdmin] = useState<InitialAdmin & { confirm: string }>({ name: '', email: '', phone: '', password: '', confirm: '' });
+  const [credentials, setCredentials] = useState<SecureCredentials>({
+    googleSheetUrl: '',
+    worksheetNames: ["MASTER DATA", "BACKEND SHEET"],
+    columnMappings: DEFAULT_COLUMN_MAPPINGS,
+  });
+  const [testResult, setTestResult] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // Existing installs start from what is configured already
+    secureStorage.getCredentials().then((stored) => stored && setCredentials(stored));
+  }, []);
+
+  const update = (changes: Partial<SecureCredentials>) => {
+    setCredentials((prev) => ({ ...prev, ...changes }));
+    setTestResult(null);
+  };
+
+  const adminError = (): string | null => {
+    if (!admin.name.trim() || !admin.email.trim()) return 'Name and email are required';
+    if (admin.password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    if (admin.password !== admin.confirm) return 'Passwords do not match';
+    return null;
+  };
+
+  const sheetError = (): string | null => {
+    if (!/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/.test(credentials.googleSheetUrl)) return 'Please provide a valid Google Sheets URL';
+    if (!credentials.googleServiceAccountJson) return 'Service Account JSON is required to add and update leads';
+    try {
+      JSON.parse(credentials.googleServiceAccountJson);
+    } catch {
+      return 'Service Account JSON is not valid JSON';
+    }
+    return null;
+  };
+
+  const handleNext = () => {
+    const error = step === 'admin' ? adminError() : sheetError();
+    if (error) {
+      toast({ variant: "destructive", title: "Check the details", description: error });
+      return;
+    }
+    setStep(steps[steps.indexOf(step) + 1]);
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setTestResult(null);
+    try {
+      const service = createSheetsService(credentials);
+      const { headers } = await service.fetchSampleRows(1);
+      if (headers.length === 0) throw new Error('The MASTER DATA header row is empty');
+      const users = await service.fetchUsers();
+      setTestResult(`Read ${headers.filter(Boolean).length} MASTER DATA columns and ${users.length} BACKEND SHEET user(s).`);
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Connection failed", description: errorMessage(error) });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    const { mappings, errors } = validateColumnMappings(credentials.columnMappings);
+    if (errors.length > 0) {
+      toast({ variant: "destructive", title: "Invalid column mappings", description: errors[0] });
+      return;
+    }
+    setSaving(true);
+    try {
+      await secureStorage.saveCredentials({ ...credentials, columnMappings: mappings });
+      setSheetLocale(credentials.sheetLocale);
+      const initialAdmin = mode === 'first-run'
+        ? { name: admin.name.trim(), email: admin.email.trim(), phone: admin.phone.trim(), password: admin.password }
+        : undefined;
+      await authService.completeSetup(initialAdmin);
+      toast({ title: "Setup complete", description: "Google Sheet connected" });
+      onComplete(initialAdmin);
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Setup failed", description: errorMessage(error) });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const stepNumber = steps.indexOf(step) + 1;
+
+  return (
+    <Card className="w-full max-w-2xl shadow-soft">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold">
+          {mode === 'first-run' ? 'Welcome! Let\'s set things up' : 'Complete setup'}
+        </CardTitle>
+        <CardDescription>
+          Step {stepNumber} of {steps.length}
+          {step === 'admin' && ' · Create the admin account'}
+          {step === 'sheet' && ' · Connect your Google Sheet'}
+          {step === 'mappings' && ' · Map columns and test the connection'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step === 'admin' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="setup-name">Name</Label>
+              <Input id="setup-name" value={admin.name} onChange={(e) => setAdmin({ ...admin, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setup-email">Email</Label>
+              <Input id="setup-email" type="email" value={admin.email} onChange={(e) => setAdmin({ ...admin, email: e.target.value })} />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="setup-phone">Phone</Label>
+              <Input id="setup-phone" value={admin.phone} onChange={(e) => setAdmin({ ...admin, phone: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setup-password">Password</Label>
+              <Input id="setup-password" type="password" value={admin.password} onChange={(e) => setAdmin({ ...admin, password: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setup-confirm">Confirm password</Label>
+              <Input id="setup-confirm" type="password" value={admin.confirm} onChange={(e) => setAdmin({ ...admin, confirm: e.target.value })} />
+            </div>
+            <p className="text-xs text-muted-foreground sm:col-span-2">
+              This account is stored on this device. Team members sign in with the users in your BACKEND SHEET.
+            </p>
+          </div>
+        )}
+
+        {step === 'sheet' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="setup-sheet-url">Google Sheet URL</Label>
+              <Input
+                id="setup-sheet-url"
+                placeholder="https://docs.google.com/spreadsheets/d/..."
+                value={credentials.googleSheetUrl}
+                onChange={(e) => update({ googleSheetUrl: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="setup-service-account">Google Service Account JSON</Label>
+              <Textarea
+                id="setup-service-account"
+                placeholder='{"type": "service_account", "project_id": "...", ...}'
+                value={credentials.googleServiceAccountJson || ''}
+                onChange={(e) => update({ googleServiceAccountJson: e.target.value || undefined })}
+                rows={6}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                Share the sheet with the service account's client_email as an Editor.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {credentials.worksheetNames.slice(0, 2).map((name, index) => (
+                <div key={index} className="space-y-2">
+                  <Label htmlFor={`setup-worksheet-${index}`}>{index === 0 ? 'Leads worksheet' : 'Users worksheet'}</Label>
+                  <Input
+                    id={`setup-worksheet-${index}`}
+                    value={name}
+                    onChange={(e) => update({
+                      worksheetNames: credentials.worksheetNames.map((n, i) => (i === index ? e.target.value : n)),
+                    })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'mappings' && (
+          <div className="space-y-4">
+            <ColumnMappingEditor
+              credentials={credentials}
+              mappings={credentials.columnMappings}
+              onChange={(columnMappings) => update({ columnMappings })}
+            />
+            <div className="flex flex-wrap items-center gap-3 border-t pt-4">
+              <Button variant="outline" className="gap-2" onClick={handleTest} disabled={testing}>
+                {testing ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlugZap className="h-4 w-4" />}
+                Test connection
+              </Button>
+              {testResult && (
+                <p className="text-xs text-green-700 dark:text-green-400 flex items-center gap-1">
+                  <CheckCircle2 className="h-4 w-4 shrink-0" />
+                  {testResult}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-between gap-2 pt-2">
+          <div className="flex gap-2">
+            {stepNumber > 1 && (
+              <Button variant="outline" onClick={() => setStep(steps[stepNumber - 2])} disabled={saving}>
+                Back
+              </Button>
+            )}
+            {onSkip && (
+              <Button variant="ghost" onClick={onSkip} disabled={saving}>
+                Later
+              </Button>
+            )}
+          </div>
+          {step === 'mappings' ? (
+            <Button onClick={handleFinish} disabled={saving || !testResult}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Finish setup
+            </Button>
+          ) : (
+            <Button onClick={handleNext}>Next</Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SetupWizard;
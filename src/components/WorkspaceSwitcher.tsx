@@ -0,0 +1,35 @@
+import { useEffect, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers } from "lucide-react";
+import { workspaceService } from "@/lib/workspaces";
+
+/**
+ * Header select for switching between workspaces (one Google Sheet each).
+ * Hidden while there is only one workspace.
+ */
+const WorkspaceSwitcher = () => {
+  const [activeId, setActiveId] = useState(() => workspaceService.getActive().id);
+
+  useEffect(() => workspaceService.subscribe((active) => setActiveId(active.id)), []);
+
+  const workspaces = workspaceService.list();
+  if (workspaces.length < 2) return null;
+
+  return (
+    <Select value={activeId} onValueChange={(id) => workspaceService.switchTo(id)}>
+      <SelectTrigger className="h-8 sm:h-10 w-auto max-w-[10rem] sm:max-w-[14rem] gap-1 text-xs sm:text-sm">
+        <Layers className="h-3 w-3 sm:h-4 sm:w-4 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default WorkspaceSwitcher;
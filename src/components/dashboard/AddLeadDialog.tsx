@@ -6,16 +6,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { GoogleSheetsService, SheetLead } from "@/lib/googleSheets";
+import { SheetLead, generateLeadId } from "@/lib/googleSheets";
 import { authService } from "@/lib/authService";
-import { secureStorage } from "@/lib/secureStorage";
+import { outboxService } from "@/lib/outboxService";
+import { toSheetTimestamp } from "@/lib/dates";
+import { stateManager } from "@/lib/stateManager";
+import { DuplicateMatch, findDuplicates } from "@/lib/duplicates";
+import { AlertTriangle } from "lucide-react";
 import AddLeadErrorDialog from "./AddLeadErrorDialog";
+import LeadFieldSections from "./LeadFieldSections";
+import MergeLeadsDialog from "./MergeLeadsDialog";
 
 interface AddLeadDialogProps {
   open: boolean;
   onClose: () => void;
   onSuccess: () => void;
   onImmediateAdd?: (lead: Partial<SheetLead>) => void;
+  /** Open an existing lead from the duplicates panel */
+  onOpenLead?: (lead: SheetLead) => void;
 }
 
 const LEAD_STATUSES = [
@@ -41,7 +49,9 @@ const MEAL_PLANS = [
   { value: "All Meal with High Tea", label: "All Meal with High Tea" },
 ];
 
-const AddLeadDialog = ({ open, onClose, onSuccess, onImmediateAdd }: AddLeadDialogProps) => {
+const REASON_LABELS: Record<string, string> = { phone: "same phone", email: "same email", name: "similar name" };
+
+const AddLeadDialog = ({ open, onClose, onSuccess, onImmediateAdd, onOpenLead }: AddLeadDialogProps) => {
   const [formData, setFormData] = useState({
     tripId: "",
     travellerName: "",
@@ -56,33 +66,20 @@ const AddLeadDialog = ({ open, onClose, onSuccess, onImmediateAdd }: AddLeadDial
     status: "Unfollowed",
     remarks: "",
   });
+  const [extraFields, setExtraFields] = useState<Partial<SheetLead>>({});
   const [saving, setSaving] = useState(false);
   const [showProtectionError, setShowProtectionError] = useState(false);
+  const [duplicates, setDuplicates] = useState<{ lead: Partial<SheetLead>; matches: DuplicateMatch[] } | null>(null);
+  const [mergeTarget, setMergeTarget] = useState<SheetLead | null>(null);
   const { toast } = useToast();
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setSaving(true);
-
-    try {
-      const session = authService.getSession();
-      
-      const credentials = await secureStorage.getCredentials();
-      if (!credentials) {
-        throw new Error('Google Sheets not configured. Please setup in Settings.');
-      }
-
-      const sheetsService = new GoogleSheetsService({
-        apiKey: credentials.googleApiKey,
-        serviceAccountJson: credentials.googleServiceAccountJson,
-        sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
-        worksheetNames: credentials.worksheetNames,
-        columnMappings: credentials.columnMappings
-      });
-      
-      const newLead: Partial<SheetLead> = {
-        // No tripId - column A stays empty for new leads
-        date: new Date().toISOString().split('T')[0],
+  const buildLead = (): Partial<SheetLead> => {
+    const session = authService.getSession();
+    return {
+        ...extraFields,
+        // No tripId - the backend assigns the next free Trip ID on save
+        uniqueKey: generateLeadId(),
+        dateAndTime: toSheetTimestamp(new Date()),
         consultant: session?.user.name || '',
         status: formData.status,
         travellerName: formData.travellerName,
@@ -95,16 +92,39 @@ const AddLeadDialog = ({ open, onClose, onSuccess, onImmediateAdd }: AddLeadDial
         mealPlan: formData.mealPlan,
         phone: formData.phone,
         email: formData.email,
-      } as any;
+      };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const newLead = buildLead();
+    // Checked against the leads already loaded on this device, so it also works offline
+    const matches = findDuplicates(newLead, stateManager.getCachedLeads().leads);
+    if (matches.length > 0) {
+      setDuplicates({ lead: newLead, matches: matches.slice(0, 5) });
+      return;
+    }
+    await save(newLead);
+  };
+
+  const save = async (newLead: Partial<SheetLead>) => {
+    setSaving(true);
+    setDuplicates(null);
 
+    try {
       // Optimistically show new lead in UI immediately
       onImmediateAdd?.(newLead);
 
-      await sheetsService.appendLead(newLead as any);
+      const result = await outboxService.execute(
+        { kind: 'append', lead: newLead },
+        `Add ${formData.travellerName || 'lead'}`
+      );
 
       toast({
-        title: "Lead added successfully",
-        description: "The lead has been added to Google Sheets",
+        title: result === 'queued' ? "Lead saved offline" : "Lead added successfully",
+        description: result === 'queued'
+          ? "It will be added to Google Sheets when you're back online"
+          : "The lead has been added to Google Sheets",
       });
 
       onSuccess();
@@ -263,16 +283,77 @@ const AddLeadDialog = ({ open, onClose, onSuccess, onImmediateAdd }: AddLeadDial
             />
           </div>
 
+          <LeadFieldSections
+            values={extraFields}
+            onChange={(key, value) => setExtraFields({ ...extraFields, [key]: value })}
+            mode="create"
+          />
+
+          {duplicates && (
+            <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 space-y-2">
+              <p className="text-sm font-medium flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-amber-600" />
+                Possible duplicates
+              </p>
+              <ul className="space-y-2">
+                {duplicates.matches.map(({ lead, reasons }) => (
+                  <li key={lead.uniqueKey || lead._rowNumber} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">
+                        {lead.travellerName}
+                        {lead.tripId ? <span className="text-muted-foreground font-normal"> ({lead.tripId})</span> : null}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {reasons.map((reason) => REASON_LABELS[reason]).join(', ')} · {lead.status} · {lead.consultant || 'Unassigned'}
+                      </div>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      {onOpenLead && (
+                        <Button type="button" size="sm" variant="outline" className="h-7 text-xs" onClick={() => { onOpenLead(lead); onClose(); }}>
+                          Open
+                        </Button>
+                      )}
+                      <Button type="button" size="sm" variant="outline" className="h-7 text-xs" onClick={() => setMergeTarget(lead)}>
+                        Merge
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end gap-2">
+                <Button type="button" size="sm" variant="ghost" onClick={() => setDuplicates(null)}>
+                  Back to form
+                </Button>
+                <Button type="button" size="sm" onClick={() => save(duplicates.lead)} disabled={saving}>
+                  Add anyway
+                </Button>
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button type="submit" disabled={saving || !formData.travellerName || !formData.phone}>
+            <Button type="submit" disabled={saving || !!duplicates || !formData.travellerName || !formData.phone}>
               {saving ? "Adding..." : "Add Lead"}
             </Button>
           </div>
         </form>
       </DialogContent>
+      {mergeTarget && duplicates && (
+        <MergeLeadsDialog
+          open={!!mergeTarget}
+          onClose={() => setMergeTarget(null)}
+          first={mergeTarget}
+          second={duplicates.lead}
+          secondIsDraft
+          onMerged={() => {
+            onSuccess();
+            onClose();
+          }}
+        />
+      )}
       <AddLeadErrorDialog 
         open={showProtectionError} 
         onClose={() => {
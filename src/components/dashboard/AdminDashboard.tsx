@@ -1,11 +1,13 @@
-import { useState, useEffect, useMemo, useRef } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { GoogleSheetsService, SheetLead } from "@/lib/googleSheets";
-import { secureStorage } from "@/lib/secureStorage";
+import { FetchProgress, LeadConflictError, SheetLead, isSameLead } from "@/lib/googleSheets";
+import { getLeadBackend, getLeadRepository } from "@/lib/leadRepository";
 import { LeadCard } from "./LeadCard";
 import ProgressiveList from "@/components/ProgressiveList";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Plus, FileText } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw, Plus, FileText, History, CheckSquare, Upload, Download, Archive } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import LeadDetailsDialog from "./LeadDetailsDialog";
 import ReminderDialog from "./ReminderDialog";
@@ -15,9 +17,22 @@ import LeadFilters from "./LeadFilters";
 import SearchBar from "./SearchBar";
 import DashboardStats from "./DashboardStats";
 import DailyReportDialog from "./DailyReportDialog";
+import AuditLogDialog from "./AuditLogDialog";
+import BulkActionBar from "./BulkActionBar";
+import ImportLeadsDialog from "./ImportLeadsDialog";
+import ArchiveDialog from "./ArchiveDialog";
+import ExportLeadsDialog from "./ExportLeadsDialog";
+import WorkspaceBreakdown, { WorkspaceLeads } from "./WorkspaceBreakdown";
 import { useLocation } from "react-router-dom";
 import { stateManager } from "@/lib/stateManager";
+import { workspaceService } from "@/lib/workspaces";
+import { exportTitle } from "@/lib/leadExport";
+import { outboxService } from "@/lib/outboxService";
+import { toIsoDate } from "@/lib/dates";
 import { normalizeStatus, isWorkingCategoryStatus, isBookedStatus, isCancelCategoryStatus } from "@/lib/leadStatus";
+import { errorMessage } from "@/lib/utils";
+
+const selectionKey = (lead: SheetLead) => lead.uniqueKey || `row-${lead._rowNumber}`;
 
 const AdminDashboard = () => {
   const location = useLocation();
@@ -25,12 +40,22 @@ const AdminDashboard = () => {
   const isAnalyticsOnly = viewParam === 'analytics';
   const [leads, setLeads] = useState<SheetLead[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadProgress, setLoadProgress] = useState<FetchProgress | null>(null);
   const [selectedLead, setSelectedLead] = useState<SheetLead | null>(null);
   const [showReminderDialog, setShowReminderDialog] = useState(false);
   const [reminderLead, setReminderLead] = useState<{ id: string; name: string } | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [leadToAssign, setLeadToAssign] = useState<SheetLead | null>(null);
   const [showDailyReport, setShowDailyReport] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showArchive, setShowArchive] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [analyticsScope, setAnalyticsScope] = useState<'workspace' | 'all'>('workspace');
+  const [workspaceLeads, setWorkspaceLeads] = useState<WorkspaceLeads[] | null>(null);
+  const [canAggregate, setCanAggregate] = useState(false);
   const [searchQuery, setSearchQuery] = useState(() => stateManager.getSearchQuery());
   const savedFilters = stateManager.getFilters();
   const [statusFilter, setStatusFilter] = useState(savedFilters.statusFilter);
@@ -43,7 +68,6 @@ const AdminDashboard = () => {
     return saved || "new";
   });
   const { toast } = useToast();
-  const sheetsServiceRef = useRef<GoogleSheetsService | null>(null);
 
   const fetchLeads = async (silent = false, forceRefresh = false) => {
     try {
@@ -51,7 +75,7 @@ const AdminDashboard = () => {
       if (!forceRefresh) {
         const cached = stateManager.getCachedLeads();
         if (cached.isValid) {
-          setLeads(cached.leads);
+          setLeads(outboxService.applyPending(cached.leads));
           if (!silent) setLoading(false);
           console.log('Using cached leads');
           return;
@@ -60,21 +84,9 @@ const AdminDashboard = () => {
 
       if (!silent) setLoading(true);
       
-      const credentials = await secureStorage.getCredentials();
-      if (!credentials) {
-        throw new Error('Google Sheets not configured');
-      }
-
-      const sheetsService = new GoogleSheetsService({
-        apiKey: credentials.googleApiKey,
-        serviceAccountJson: credentials.googleServiceAccountJson,
-        sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
-        worksheetNames: credentials.worksheetNames,
-        columnMappings: credentials.columnMappings
-      });
-
-      const data = await sheetsService.fetchLeads();
-      setLeads(data);
+      const repository = await getLeadRepository();
+      const data = await repository.list(forceRefresh, silent ? undefined : setLoadProgress);
+      setLeads(outboxService.applyPending(data));
       stateManager.setCachedLeads(data);
       
       if (silent) {
@@ -91,7 +103,10 @@ const AdminDashboard = () => {
         console.error('Background sync error:', error);
       }
     } finally {
-      if (!silent) setLoading(false);
+      if (!silent) {
+        setLoading(false);
+        setLoadProgress(null);
+      }
     }
   };
 
@@ -99,6 +114,11 @@ const AdminDashboard = () => {
     fetchLeads();
   }, []);
 
+  // Pull fresh data once queued offline writes have reached the sheet
+  const fetchLeadsRef = useRef(fetchLeads);
+  fetchLeadsRef.current = fetchLeads;
+  useEffect(() => outboxService.onFlushed(() => fetchLeadsRef.current(true, true)), []);
+
   // Silent background sync honoring cache TTL to avoid extra fetches
   useEffect(() => {
     const interval = setInterval(() => {
@@ -110,11 +130,48 @@ const AdminDashboard = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Workspaces share one table on Supabase, so aggregating only makes sense for Sheets
+  useEffect(() => {
+    if (!isAnalyticsOnly || workspaceService.list().length < 2) return;
+    getLeadBackend().then((backend) => setCanAggregate(backend === 'sheets'));
+  }, [isAnalyticsOnly]);
+
+  /** Leads of every workspace; the active one comes from what is already loaded */
+  const loadAllWorkspaces = useCallback(async () => {
+    setWorkspaceLeads(null);
+    const activeId = workspaceService.getActive().id;
+    const results: WorkspaceLeads[] = [];
+    for (const workspace of workspaceService.list()) {
+      if (workspace.id === activeId) {
+        results.push({ workspace, leads });
+        continue;
+      }
+      try {
+        const repository = await getLeadRepository(workspace.id);
+        results.push({ workspace, leads: await repository.list() });
+      } catch (error: unknown) {
+        console.error(`Failed to load workspace "${workspace.name}":`, error);
+        results.push({ workspace, leads: [], error: errorMessage(error) });
+      }
+    }
+    setWorkspaceLeads(results);
+  }, [leads]);
+
+  useEffect(() => {
+    if (analyticsScope === 'all' && !loading) loadAllWorkspaces();
+  }, [analyticsScope, loading, loadAllWorkspaces]);
+
+  // Analytics across all workspaces, otherwise the active workspace
+  const scopedLeads = useMemo(
+    () => (analyticsScope === 'all' && workspaceLeads ? workspaceLeads.flatMap((w) => w.leads) : leads),
+    [analyticsScope, workspaceLeads, leads]
+  );
+
   // Get unique consultants
   const consultants = useMemo(() => {
-    const uniqueConsultants = [...new Set(leads.map(lead => lead.consultant).filter(Boolean))];
+    const uniqueConsultants = [...new Set(scopedLeads.map(lead => lead.consultant).filter(Boolean))];
     return uniqueConsultants;
-  }, [leads]);
+  }, [scopedLeads]);
 
   // Filter and search logic
   const filteredLeads = useMemo(() => {
@@ -162,7 +219,7 @@ const AdminDashboard = () => {
       return false;
     };
 
-    return leads.filter(lead => {
+    return scopedLeads.filter(lead => {
       const matchesSearch = matchesQuery(lead);
 
       const matchesStatus =
@@ -171,7 +228,7 @@ const AdminDashboard = () => {
       const matchesPriority =
         priorityFilter === "All Priorities" ||
         (lead.priority || '').toLowerCase() === priorityFilter.toLowerCase();
-      const matchesDate = !dateFilter || lead.dateAndTime === dateFilter;
+      const matchesDate = !dateFilter || toIsoDate(lead.dateAndTime) === dateFilter;
       const matchesConsultant =
         consultantFilter === "All Consultants" || lead.consultant === consultantFilter;
 
@@ -183,7 +240,7 @@ const AdminDashboard = () => {
         matchesConsultant
       );
     });
-  }, [leads, searchQuery, statusFilter, priorityFilter, dateFilter, consultantFilter]);
+  }, [scopedLeads, searchQuery, statusFilter, priorityFilter, dateFilter, consultantFilter]);
 
   // 🆕 NEW LEADS: blank or "unfollowed"
   const newLeads = useMemo(() =>
@@ -223,40 +280,59 @@ const AdminDashboard = () => {
   // Left swipe = mark cancellation
   const handleSwipeLeft = async (lead: SheetLead) => {
     try {
-      const credentials = await secureStorage.getCredentials();
-      if (!credentials) throw new Error('Credentials not found');
-
-      const sheetsService = new GoogleSheetsService({
-        apiKey: credentials.googleApiKey,
-        serviceAccountJson: credentials.googleServiceAccountJson,
-        sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
-        worksheetNames: credentials.worksheetNames,
-        columnMappings: credentials.columnMappings
-      });
-
       // Optimistic UI update
       setLeads((prev) => prev.map((l) =>
-        l.tripId === lead.tripId && l.travellerName === lead.travellerName && l.dateAndTime === lead.dateAndTime
+        isSameLead(l, lead)
           ? { ...l, status: 'Cancellations' }
           : l
       ));
 
-      await sheetsService.updateLead(lead, { status: 'Cancellations' });
+      const result = await outboxService.execute(
+        { kind: 'update', lead, updates: { status: 'Cancellations' }, baseline: lead },
+        `Cancel ${lead.travellerName || 'lead'}`
+      );
       toast({
         title: "Lead moved to Cancellations",
-        description: `${lead.travellerName} moved to cancellations.`,
+        description: result === 'queued'
+          ? `${lead.travellerName} will be moved to cancellations when you're back online.`
+          : `${lead.travellerName} moved to cancellations.`,
       });
       // Force refresh to bypass cached leads so UI stays consistent
-      fetchLeads(false, true);
+      if (result === 'sent') fetchLeads(false, true);
     } catch (error: any) {
-      toast({
-        variant: "destructive",
+      toast({
+        variant: "destructive",
         title: "Failed to cancel lead",
-        description: error.message,
-      });
+        description: error instanceof LeadConflictError
+          ? `Status was changed to "${error.remote.status}" by someone else.`
+          : error.message,
+      });
+      // Roll back the optimistic change
+      fetchLeads(false, true);
     }
   };
 
+  const tabLeads = ({ new: newLeads, working: workingLeads, booked: bookedLeads, cancel: cancelLeads } as Record<string, SheetLead[]>)[activeTab] || [];
+
+  const selectedLeads = useMemo(
+    () => leads.filter((lead) => selectedKeys.has(selectionKey(lead))),
+    [leads, selectedKeys]
+  );
+
+  const toggleSelected = (lead: SheetLead) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev);
+      const key = selectionKey(lead);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const toggleSelectionMode = () => {
+    setSelectionMode((on) => !on);
+    setSelectedKeys(new Set());
+  };
+
   // Right swipe = open reminder dialog directly
   const handleSwipeRight = (lead: SheetLead) => {
     setReminderLead({ id: lead.tripId, name: lead.travellerName });
@@ -270,6 +346,14 @@ const AdminDashboard = () => {
         <div className="text-center py-12">
           <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
           <p className="text-muted-foreground">Loading leads...</p>
+          {loadProgress && loadProgress.total > 0 && (
+            <div className="max-w-xs mx-auto mt-3 space-y-1">
+              <Progress value={Math.min(100, (loadProgress.loaded / loadProgress.total) * 100)} />
+              <p className="text-xs text-muted-foreground">
+                {loadProgress.loaded.toLocaleString()} of {loadProgress.total.toLocaleString()} rows
+              </p>
+            </div>
+          )}
         </div>
       );
     }
@@ -290,13 +374,16 @@ const AdminDashboard = () => {
           initialBatches={2}
           renderItem={(lead, index) => (
             <LeadCard
-              key={`${lead.tripId}-${index}`}
+              key={lead.uniqueKey || `${lead.tripId}-${index}`}
               lead={lead}
               onClick={() => setSelectedLead(lead)}
               onAssign={() => setLeadToAssign(lead as any)}
               showAssignButton={true}
               onSwipeLeft={handleSwipeLeft}
               onSwipeRight={handleSwipeRight}
+              selectable={selectionMode}
+              selected={selectedKeys.has(selectionKey(lead))}
+              onToggleSelect={toggleSelected}
             />
           )}
         />
@@ -316,10 +403,36 @@ const AdminDashboard = () => {
             <Plus className="h-3 w-3 sm:h-4 sm:w-4" />
             <span>Add Lead</span>
           </Button>
+          {!isAnalyticsOnly && (
+            <Button onClick={() => setShowImport(true)} variant="outline" className="gap-1 flex-1 sm:flex-initial text-xs sm:text-sm h-8 sm:h-10 px-3 sm:px-4">
+              <Upload className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span>Import</span>
+            </Button>
+          )}
           <Button onClick={() => setShowDailyReport(true)} variant="secondary" className="gap-1 flex-1 sm:flex-initial text-xs sm:text-sm h-8 sm:h-10 px-3 sm:px-4">
             <FileText className="h-3 w-3 sm:h-4 sm:w-4" />
             <span>Daily Report</span>
           </Button>
+          <Button onClick={() => setShowExport(true)} variant="outline" className="gap-1 flex-1 sm:flex-initial text-xs sm:text-sm h-8 sm:h-10 px-3 sm:px-4">
+            <Download className="h-3 w-3 sm:h-4 sm:w-4" />
+            <span>Export</span>
+          </Button>
+          <Button onClick={() => setShowAuditLog(true)} variant="outline" className="gap-1 flex-1 sm:flex-initial text-xs sm:text-sm h-8 sm:h-10 px-3 sm:px-4">
+            <History className="h-3 w-3 sm:h-4 sm:w-4" />
+            <span>Audit</span>
+          </Button>
+          {!isAnalyticsOnly && (
+            <Button onClick={() => setShowArchive(true)} variant="outline" className="gap-1 flex-1 sm:flex-initial text-xs sm:text-sm h-8 sm:h-10 px-3 sm:px-4">
+              <Archive className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span>Archive</span>
+            </Button>
+          )}
+          {!isAnalyticsOnly && (
+            <Button onClick={toggleSelectionMode} variant={selectionMode ? "default" : "outline"} className="gap-1 flex-1 sm:flex-initial text-xs sm:text-sm h-8 sm:h-10 px-3 sm:px-4">
+              <CheckSquare className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span>{selectionMode ? 'Done' : 'Select'}</span>
+            </Button>
+          )}
           <Button onClick={() => fetchLeads(false, true)} variant="outline" className="gap-1 flex-1 sm:flex-initial text-xs sm:text-sm h-8 sm:h-10 px-3 sm:px-4" disabled={loading}>
             <RefreshCw className={`h-3 w-3 sm:h-4 sm:w-4 ${loading ? 'animate-spin' : ''}`} />
             <span>Refresh</span>
@@ -357,10 +470,47 @@ const AdminDashboard = () => {
         showConsultantFilter={true}
       />
 
+      {selectionMode && !isAnalyticsOnly && (
+        <BulkActionBar
+          selected={selectedLeads}
+          visibleCount={tabLeads.length}
+          consultants={consultants}
+          onSelectAll={() => setSelectedKeys(new Set(tabLeads.map(selectionKey)))}
+          onClear={() => setSelectedKeys(new Set())}
+          onApplied={(failed) => {
+            // Keep only the failures selected so they can be retried or handled one by one
+            setSelectedKeys(new Set(failed.map(selectionKey)));
+            fetchLeads(false, true);
+          }}
+          resolveLead={(lead) => leads.find((l) => isSameLead(l, lead)) || lead}
+        />
+      )}
+
       {isAnalyticsOnly ? (
         <div className="space-y-6">
-          {/* ✅ DashboardStats should respect current filters/search */}
-          <DashboardStats leads={filteredLeads} />
+          {canAggregate && (
+            <Select value={analyticsScope} onValueChange={(val) => setAnalyticsScope(val as 'workspace' | 'all')}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="workspace">{workspaceService.getActive().name} only</SelectItem>
+                <SelectItem value="all">All workspaces</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {analyticsScope === 'all' && !workspaceLeads ? (
+            <div className="text-center py-12">
+              <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+              <p className="text-muted-foreground">Loading all workspaces...</p>
+            </div>
+          ) : (
+            <>
+              {/* ✅ DashboardStats should respect current filters/search */}
+              <DashboardStats leads={filteredLeads} />
+              {analyticsScope === 'all' && workspaceLeads && <WorkspaceBreakdown workspaces={workspaceLeads} />}
+            </>
+          )}
         </div>
       ) : (
         <Tabs value={activeTab} onValueChange={(tab) => {
@@ -410,7 +560,7 @@ const AdminDashboard = () => {
           onImmediateUpdate={(updated) => {
             // Optimistically update list so user sees instant change
             setLeads((prev) => prev.map((l) =>
-              l.tripId === updated.tripId && l.travellerName === updated.travellerName && l.dateAndTime === updated.dateAndTime
+              isSameLead(l, updated)
                 ? { ...l, ...updated }
                 : l
             ));
@@ -437,6 +587,7 @@ const AdminDashboard = () => {
           onClose={() => setShowAddDialog(false)}
           // Force refresh after adding to include the new lead immediately
           onSuccess={() => fetchLeads(false, true)}
+          onOpenLead={setSelectedLead}
           onImmediateAdd={(newLead) => {
             setLeads((prev) => [
               {
@@ -457,6 +608,7 @@ const AdminDashboard = () => {
                 priority: newLead.priority as any,
                 remarkHistory: [],
                 notes: '',
+                uniqueKey: newLead.uniqueKey,
                 _rowNumber: undefined,
               },
               ...prev,
@@ -476,6 +628,34 @@ const AdminDashboard = () => {
         />
       )}
 
+      {showAuditLog && (
+        <AuditLogDialog open={showAuditLog} onClose={() => setShowAuditLog(false)} />
+      )}
+      {showExport && (
+        <ExportLeadsDialog
+          open={showExport}
+          onClose={() => setShowExport(false)}
+          leads={filteredLeads}
+          title={exportTitle([statusFilter, priorityFilter, consultantFilter, dateFilter, searchQuery])}
+        />
+      )}
+      {showImport && (
+        <ImportLeadsDialog
+          open={showImport}
+          onClose={() => setShowImport(false)}
+          existingLeads={leads}
+          consultants={consultants}
+          onImported={() => fetchLeads(false, true)}
+        />
+      )}
+      {showArchive && (
+        <ArchiveDialog
+          open={showArchive}
+          onClose={() => setShowArchive(false)}
+          leads={leads}
+          onChanged={() => fetchLeads(false, true)}
+        />
+      )}
       {showDailyReport && (
         <DailyReportDialog
           open={showDailyReport}
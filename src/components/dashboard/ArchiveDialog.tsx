@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, RefreshCw, RotateCcw } from "lucide-react";
+import { SheetLead } from "@/lib/googleSheets";
+import { getLeadRepository } from "@/lib/leadRepository";
+import { ARCHIVE_RULES, ArchiveRuleKind, leadsMatchingRule } from "@/lib/leadArchive";
+import { formatDisplayDate } from "@/lib/dates";
+import { errorMessage } from "@/lib/utils";
+
+interface ArchiveDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Active leads the archive rules are checked against */
+  leads: SheetLead[];
+  /** Called after leads were archived or restored, so the lead list can refetch */
+  onChanged: () => void;
+}
+
+const PREVIEW_LIMIT = 100;
+
+const archiveKey = (lead: SheetLead) => lead.uniqueKey || `row-${lead._rowNumber}`;
+
+/** Archive closed leads by rule, and browse, search and restore archived leads */
+const ArchiveDialog = ({ open, onClose, leads, onChanged }: ArchiveDialogProps) => {
+  const [tab, setTab] = useState("rule");
+  const [rule, setRule] = useState<ArchiveRuleKind>(ARCHIVE_RULES[0].value);
+  const [days, setDays] = useState(ARCHIVE_RULES[0].defaultDays);
+  const [archived, setArchived] = useState<SheetLead[] | null>(null);
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [working, setWorking] = useState(false);
+  const { toast } = useToast();
+
+  const matches = useMemo(() => leadsMatchingRule(leads, { kind: rule, days }), [leads, rule, days]);
+
+  const loadArchived = useCallback(async () => {
+    setSelected(new Set());
+    try {
+      const repository = await getLeadRepository();
+      setArchived(await repository.listArchived());
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Could not load archive", description: errorMessage(error) });
+      setArchived([]);
+    }
+  }, [toast]);
+
+  // Clearing the list makes the effect below fetch it again
+  const reloadArchived = () => setArchived(null);
+
+  useEffect(() => {
+    if (open && tab === "browse" && !archived) loadArchived();
+  }, [open, tab, archived, loadArchived]);
+
+  useEffect(() => {
+    if (!open) setArchived(null);
+  }, [open]);
+
+  const visibleArchived = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const digits = query.replace(/\D+/g, '');
+    return (archived || []).filter((lead) => {
+      if (!query) return true;
+      const fields = [lead.tripId, lead.travellerName, lead.phone, lead.email, lead.consultant, lead.status, lead.travelState];
+      return fields.some((v) => String(v || '').toLowerCase().includes(query)) ||
+        (!!digits && String(lead.phone || '').replace(/\D+/g, '').includes(digits));
+    });
+  }, [archived, search]);
+
+  const handleRuleChange = (value: ArchiveRuleKind) => {
+    setRule(value);
+    setDays(ARCHIVE_RULES.find((r) => r.value === value)?.defaultDays || 90);
+  };
+
+  const handleArchive = async () => {
+    setWorking(true);
+    try {
+      const repository = await getLeadRepository();
+      const results = await repository.archiveMany(matches);
+      const failures = results.filter((r) => !r.ok);
+      toast({
+        variant: failures.length > 0 ? "destructive" : "default",
+        title: failures.length > 0 ? `⚠️ ${failures.length} lead(s) not archived` : "✅ Leads archived",
+        description: failures[0]?.error || `${results.length - failures.length} lead(s) moved to the archive.`,
+      });
+      setArchived(null);
+      onChanged();
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Archiving failed", description: errorMessage(error) });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    const leadsToRestore = (archived || []).filter((lead) => selected.has(archiveKey(lead)));
+    setWorking(true);
+    try {
+      const repository = await getLeadRepository();
+      const results = await repository.restore(leadsToRestore);
+      const failures = results.filter((r) => !r.ok);
+      toast({
+        variant: failures.length > 0 ? "destructive" : "default",
+        title: failures.length > 0 ? `⚠️ ${failures.length} lead(s) not restored` : "✅ Leads restored",
+        description: failures[0]?.error || `${results.length - failures.length} lead(s) are back in the lead list.`,
+      });
+      onChanged();
+      reloadArchived();
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Restore failed", description: errorMessage(error) });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggle = (lead: SheetLead, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(archiveKey(lead));
+      else next.delete(archiveKey(lead));
+      return next;
+    });
+  };
+
+  const leadLine = (lead: SheetLead) => (
+    <>
+      <span className="font-medium">{lead.travellerName}</span>
+      <span className="text-muted-foreground">
+        {' '}· {lead.tripId || 'No Trip ID'} · {lead.status || 'No status'}
+        {lead.travelDate && ` · travels ${formatDisplayDate(lead.travelDate)}`}
+      </span>
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lead Archive</DialogTitle>
+          <DialogDescription>Archived leads leave the lead list but are kept and can be restored.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab} className="space-y-4">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="rule">Archive by rule</TabsTrigger>
+            <TabsTrigger value="browse">Archived leads</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rule" className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-2 sm:col-span-2">
+                <Label>Rule</Label>
+                <Select value={rule} onValueChange={(value) => handleRuleChange(value as ArchiveRuleKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ARCHIVE_RULES.map((r) => (
+                      <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="archive-days">N (days)</Label>
+                <Input
+                  id="archive-days"
+                  type="number"
+                  min={1}
+                  value={days}
+                  onChange={(e) => setDays(Math.max(1, Number(e.target.value) || 1))}
+                />
+              </div>
+            </div>
+
+            <div className="border rounded-md max-h-64 overflow-y-auto divide-y text-xs">
+              {matches.length === 0 && <p className="p-3 text-muted-foreground">No leads match this rule.</p>}
+              {matches.slice(0, PREVIEW_LIMIT).map((lead) => (
+                <div key={archiveKey(lead)} className="p-2">{leadLine(lead)}</div>
+              ))}
+              {matches.length > PREVIEW_LIMIT && (
+                <p className="p-2 text-muted-foreground">...and {matches.length - PREVIEW_LIMIT} more</p>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleArchive} disabled={working || matches.length === 0} className="gap-2">
+                <Archive className="h-4 w-4" />
+                {working ? "Archiving..." : `Archive ${matches.length} lead(s)`}
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="browse" className="space-y-4">
+            <div className="flex gap-2">
+              <Input placeholder="Search name, phone, email, Trip ID..." value={search} onChange={(e) => setSearch(e.target.value)} />
+              <Button variant="outline" size="icon" className="shrink-0" onClick={reloadArchived} disabled={working || !archived}>
+                <RefreshCw className={`h-4 w-4 ${!archived ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+
+            <div className="border rounded-md max-h-72 overflow-y-auto divide-y text-xs">
+              {!archived && <p className="p-3 text-muted-foreground">Loading archive...</p>}
+              {archived && visibleArchived.length === 0 && <p className="p-3 text-muted-foreground">No archived leads found.</p>}
+              {visibleArchived.slice(0, PREVIEW_LIMIT).map((lead) => (
+                <label key={archiveKey(lead)} className="flex items-center gap-2 p-2 cursor-pointer">
+                  <Checkbox checked={selected.has(archiveKey(lead))} onCheckedChange={(checked) => toggle(lead, !!checked)} />
+                  <span>{leadLine(lead)}</span>
+                </label>
+              ))}
+              {visibleArchived.length > PREVIEW_LIMIT && (
+                <p className="p-2 text-muted-foreground">
+                  {visibleArchived.length - PREVIEW_LIMIT} more; search to narrow the list
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleRestore} disabled={working || selected.size === 0} className="gap-2">
+                <RotateCcw className="h-4 w-4" />
+                {working ? "Restoring..." : `Restore ${selected.size} lead(s)`}
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ArchiveDialog;
@@ -15,8 +15,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { GoogleSheetsService, SheetLead } from "@/lib/googleSheets";
-import { secureStorage } from "@/lib/secureStorage";
+import { LeadConflictError, SheetLead } from "@/lib/googleSheets";
+import { outboxService } from "@/lib/outboxService";
 import { UserCheck } from "lucide-react";
 
 interface AssignLeadDialogProps {
@@ -57,28 +57,18 @@ const AssignLeadDialog = ({ open, onClose, lead, consultants, onSuccess }: Assig
 
     setAssigning(true);
     try {
-      const credentials = await secureStorage.getCredentials();
-      if (!credentials) {
-        throw new Error('Google Sheets not configured');
-      }
-
-      const sheetsService = new GoogleSheetsService({
-        apiKey: credentials.googleApiKey,
-        serviceAccountJson: credentials.googleServiceAccountJson,
-        sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
-        worksheetNames: credentials.worksheetNames,
-        columnMappings: credentials.columnMappings
-      });
-
-      await sheetsService.updateLead(lead, {
-        consultant: selectedConsultant,
-      });
+      const result = await outboxService.execute(
+        { kind: 'assign', lead, consultant: selectedConsultant, baseline: lead },
+        `Assign ${lead.travellerName || 'lead'} to ${selectedConsultant}`
+      );
 
       toast({
-        title: "Success",
-        description: lead.consultant 
-          ? `Lead reassigned from ${lead.consultant} to ${selectedConsultant}`
-          : `Lead assigned to ${selectedConsultant}`,
+        title: result === 'queued' ? "Saved offline" : "Success",
+        description: result === 'queued'
+          ? `Assignment to ${selectedConsultant} will sync when you're back online`
+          : lead.consultant
+            ? `Lead reassigned from ${lead.consultant} to ${selectedConsultant}`
+            : `Lead assigned to ${selectedConsultant}`,
       });
 
       // Ensure dashboard reloads from source rather than cache
@@ -89,8 +79,11 @@ const AssignLeadDialog = ({ open, onClose, lead, consultants, onSuccess }: Assig
       toast({
         variant: "destructive",
         title: "Error assigning lead",
-        description: error.message,
+        description: error instanceof LeadConflictError
+          ? `Someone else already assigned this lead to ${error.remote.consultant || 'nobody'}. Refresh and try again.`
+          : error.message,
       });
+      if (error instanceof LeadConflictError) onSuccess();
     } finally {
       setAssigning(false);
     }
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { RefreshCw } from "lucide-react";
+import { AuditEntry } from "@/lib/auditLog";
+import { getLeadRepository } from "@/lib/leadRepository";
+import { LEAD_FIELDS } from "@/lib/columnMapping";
+import { dateToIso } from "@/lib/dates";
+import { errorMessage } from "@/lib/utils";
+
+interface AuditLogDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const MAX_ROWS = 300;
+const ALL_USERS = "__all__";
+
+const EVENT_LABELS: Record<string, string> = {
+  created: "Lead created",
+  archived: "Archived",
+  remarkLog: "Remark added",
+};
+
+const fieldLabel = (field: string) =>
+  EVENT_LABELS[field] || LEAD_FIELDS.find((f) => f.key === field)?.label || field;
+
+const formatTimestamp = (iso: string) => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  return date.toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+/** Admin view of the field-level audit trail, filterable by user, lead and date range */
+const AuditLogDialog = ({ open, onClose }: AuditLogDialogProps) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [userFilter, setUserFilter] = useState(ALL_USERS);
+  const [leadFilter, setLeadFilter] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const { toast } = useToast();
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const repository = await getLeadRepository();
+      setEntries(await repository.listAuditEntries());
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Failed to load audit trail", description: errorMessage(error) });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) loadEntries();
+  }, [open, loadEntries]);
+
+  const users = useMemo(
+    () => [...new Set(entries.map((e) => e.userEmail || e.user).filter(Boolean))].sort(),
+    [entries]
+  );
+
+  const filtered = useMemo(() => {
+    const lead = leadFilter.trim().toLowerCase();
+    return entries
+      .filter((entry) => {
+        if (userFilter !== ALL_USERS && (entry.userEmail || entry.user) !== userFilter) return false;
+        if (lead && !entry.leadId.toLowerCase().includes(lead) && !entry.leadName.toLowerCase().includes(lead)) return false;
+        if (fromDate || toDate) {
+          const date = new Date(entry.timestamp);
+          if (isNaN(date.getTime())) return false;
+          const day = dateToIso(date);
+          if (fromDate && day < fromDate) return false;
+          if (toDate && day > toDate) return false;
+        }
+        return true;
+      })
+      .reverse();
+  }, [entries, userFilter, leadFilter, fromDate, toDate]);
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Audit Trail</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">User</Label>
+            <Select value={userFilter} onValueChange={setUserFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_USERS}>All users</SelectItem>
+                {users.map((user) => (
+                  <SelectItem key={user} value={user}>{user}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Lead (ID or traveller)</Label>
+            <Input value={leadFilter} onChange={(e) => setLeadFilter(e.target.value)} placeholder="Search..." />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">From</Label>
+            <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">To</Label>
+            <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {filtered.length} change{filtered.length === 1 ? '' : 's'}
+            {filtered.length > MAX_ROWS ? ` (showing the latest ${MAX_ROWS})` : ''}
+          </span>
+          <Button size="sm" variant="outline" onClick={loadEntries} disabled={loading} className="gap-1">
+            <RefreshCw className={`h-3 w-3 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="border rounded-md overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">When</TableHead>
+                <TableHead className="text-xs">Lead</TableHead>
+                <TableHead className="text-xs">Field</TableHead>
+                <TableHead className="text-xs">Old</TableHead>
+                <TableHead className="text-xs">New</TableHead>
+                <TableHead className="text-xs">User</TableHead>
+                <TableHead className="text-xs">Device</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.slice(0, MAX_ROWS).map((entry, index) => (
+                <TableRow key={`${entry.timestamp}-${entry.leadId}-${entry.field}-${index}`}>
+                  <TableCell className="text-xs whitespace-nowrap">{formatTimestamp(entry.timestamp)}</TableCell>
+                  <TableCell className="text-xs">
+                    <div className="font-medium">{entry.leadName || '-'}</div>
+                    <div className="text-muted-foreground">{entry.leadId}</div>
+                  </TableCell>
+                  <TableCell className="text-xs">{fieldLabel(entry.field)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[200px] break-words">{entry.oldValue}</TableCell>
+                  <TableCell className="text-xs max-w-[200px] break-words">{entry.newValue}</TableCell>
+                  <TableCell className="text-xs">
+                    <div>{entry.user}</div>
+                    <div className="text-muted-foreground">{entry.userEmail}</div>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{entry.device}</TableCell>
+                </TableRow>
+              ))}
+              {!loading && filtered.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-sm text-muted-foreground py-6">
+                    No changes recorded
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AuditLogDialog;
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Archive, Bell, Download, GitMerge, RotateCcw, X } from "lucide-react";
+import { BulkUpdateResult, SheetLead } from "@/lib/googleSheets";
+import { LeadRepository, getLeadRepository } from "@/lib/leadRepository";
+import { notificationService } from "@/lib/notificationService";
+import ReminderDialog from "./ReminderDialog";
+import MergeLeadsDialog from "./MergeLeadsDialog";
+import ExportLeadsDialog from "./ExportLeadsDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { errorMessage } from "@/lib/utils";
+
+interface BulkActionBarProps {
+  selected: SheetLead[];
+  visibleCount: number;
+  consultants: string[];
+  onSelectAll: () => void;
+  onClear: () => void;
+  /** Called after a bulk write with the leads that failed, so they can stay selected */
+  onApplied: (failed: SheetLead[]) => void;
+  /** Latest loaded version of a lead, so retries are checked against fresh data */
+  resolveLead: (lead: SheetLead) => SheetLead;
+}
+
+const LEAD_STATUSES = [
+  "Unfollowed",
+  "Follow-up Calls",
+  "Follow-up Calls - 1",
+  "Follow-up Calls - 2",
+  "Follow-up Calls - 3",
+  "Follow-up Calls - 4",
+  "Follow-up Calls - 5",
+  "Working on it",
+  "Whatsapp Sent",
+  "Proposal 1 Shared",
+  "Proposal 2 Shared",
+  "Proposal 3 Shared",
+  "Negotiations",
+  "Hot Leads",
+  "Booked With Us",
+  "Cancellations",
+  "Postponed",
+  "Booked Outside",
+  "Pamplets Shared",
+];
+
+const PRIORITIES = ["high", "medium", "low"];
+
+type BulkRun = (repository: LeadRepository, leads: SheetLead[]) => Promise<BulkUpdateResult[]>;
+
+/** Selection toolbar for the lead grid: bulk status, priority, reassign, reminder, export, merge and archive */
+const BulkActionBar = ({ selected, visibleCount, consultants, onSelectAll, onClear, onApplied, resolveLead }: BulkActionBarProps) => {
+  const [running, setRunning] = useState(false);
+  const [failed, setFailed] = useState<{ run: BulkRun; label: string; verb: string; results: BulkUpdateResult[] } | null>(null);
+  const [showReminder, setShowReminder] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [confirmArchive, setConfirmArchive] = useState(false);
+  // Snapshot of the two leads, so a background refresh doesn't reset the merge choices
+  const [mergePair, setMergePair] = useState<[SheetLead, SheetLead] | null>(null);
+  const { toast } = useToast();
+
+  const runBulk = async (leads: SheetLead[], run: BulkRun, label: string, verb = "updated") => {
+    if (leads.length === 0) return;
+    setRunning(true);
+    try {
+      const repository = await getLeadRepository();
+      const results = await run(repository, leads);
+      const failures = results.filter((r) => !r.ok);
+      setFailed(failures.length > 0 ? { run, label, verb, results: failures } : null);
+
+      toast({
+        variant: failures.length > 0 ? "destructive" : "default",
+        title: failures.length > 0 ? `⚠️ ${label}: ${failures.length} failed` : `✅ ${label}`,
+        description: `${results.length - failures.length} of ${results.length} lead(s) ${verb}.`,
+        duration: 5000,
+      });
+      onApplied(failures.map((r) => r.lead));
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: `❌ ${label} failed`, description: errorMessage(error), duration: 5000 });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const apply = (leads: SheetLead[], updates: Partial<SheetLead>, label: string) =>
+    runBulk(leads, (repository, targets) => repository.bulkUpdate(targets, updates), label);
+
+  const archive = (leads: SheetLead[]) =>
+    runBulk(leads, (repository, targets) => repository.archiveMany(targets), "Archived", "archived");
+
+  const handleRetry = () => {
+    if (!failed) return;
+    runBulk(failed.results.map((r) => resolveLead(r.lead)), failed.run, failed.label, failed.verb);
+  };
+
+  const handleReminderSet = ({ date, time, message }: { date: string; time: string; message: string }) => {
+    const dateTime = new Date(`${date}T${time}`);
+    selected.forEach((lead) => {
+      notificationService.scheduleReminder({
+        id: notificationService.nextReminderId(),
+        leadId: lead.uniqueKey || lead.tripId,
+        title: 'Lead Reminder',
+        message: `${lead.travellerName} - ${message || 'Follow up required'}`,
+        dateTime,
+      });
+    });
+  };
+
+  const disabled = running || selected.length === 0;
+
+  return (
+    <div className="sticky top-[72px] z-20 rounded-lg border bg-card shadow-soft p-2 sm:p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">{selected.length} selected</span>
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onSelectAll} disabled={running}>
+          Select all ({visibleCount})
+        </Button>
+        <Button size="sm" variant="ghost" className="h-7 text-xs gap-1" onClick={onClear} disabled={running}>
+          <X className="h-3 w-3" /> Clear
+        </Button>
+        {running && <span className="text-xs text-muted-foreground">Updating...</span>}
+      </div>
+
+      <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
+        <Select value="" onValueChange={(status) => apply(selected, { status }, `Status set to ${status}`)} disabled={disabled}>
+          <SelectTrigger className="h-8 text-xs sm:w-40">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            {LEAD_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={(priority) => apply(selected, { priority }, `Priority set to ${priority}`)} disabled={disabled}>
+          <SelectTrigger className="h-8 text-xs sm:w-36">
+            <SelectValue placeholder="Set priority" />
+          </SelectTrigger>
+          <SelectContent>
+            {PRIORITIES.map((priority) => (
+              <SelectItem key={priority} value={priority} className="capitalize">{priority}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={(consultant) => apply(selected, { consultant }, `Reassigned to ${consultant}`)} disabled={disabled}>
+          <SelectTrigger className="h-8 text-xs sm:w-44">
+            <SelectValue placeholder="Reassign to" />
+          </SelectTrigger>
+          <SelectContent>
+            {consultants.map((consultant) => (
+              <SelectItem key={consultant} value={consultant}>{consultant}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button size="sm" variant="outline" className="h-8 text-xs gap-1" onClick={() => setShowReminder(true)} disabled={disabled}>
+          <Bell className="h-3 w-3" /> Reminder
+        </Button>
+        <Button size="sm" variant="outline" className="h-8 text-xs gap-1" onClick={() => setShowExport(true)} disabled={disabled}>
+          <Download className="h-3 w-3" /> Export
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 text-xs gap-1"
+          onClick={() => setMergePair([selected[0], selected[1]])}
+          disabled={running || selected.length !== 2}
+          title="Select exactly two leads to merge"
+        >
+          <GitMerge className="h-3 w-3" /> Merge
+        </Button>
+        <Button size="sm" variant="outline" className="h-8 text-xs gap-1" onClick={() => setConfirmArchive(true)} disabled={disabled}>
+          <Archive className="h-3 w-3" /> Archive
+        </Button>
+      </div>
+
+      {failed && (
+        <div className="rounded-md border border-destructive/50 bg-destructive/10 p-2 space-y-1">
+          <p className="text-xs font-medium text-destructive flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            {failed.label}: {failed.results.length} lead(s) not {failed.verb}. Other leads were left unchanged by these failures.
+          </p>
+          <ul className="max-h-28 overflow-y-auto text-xs text-muted-foreground space-y-0.5">
+            {failed.results.map((r, index) => (
+              <li key={r.lead.uniqueKey || index}>
+                <span className="font-medium text-foreground">{r.lead.travellerName || r.lead.tripId}</span>: {r.error}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2 pt-1">
+            <Button size="sm" variant="outline" className="h-7 text-xs gap-1" onClick={handleRetry} disabled={running}>
+              <RotateCcw className="h-3 w-3" /> Retry failed
+            </Button>
+            <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setFailed(null)}>
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {showReminder && (
+        <ReminderDialog
+          open={showReminder}
+          onClose={() => setShowReminder(false)}
+          leadTripId=""
+          leadName={`${selected.length} leads`}
+          onReminderSet={handleReminderSet}
+        />
+      )}
+
+      {showExport && (
+        <ExportLeadsDialog
+          open={showExport}
+          onClose={() => setShowExport(false)}
+          leads={selected}
+          title="Selected leads"
+        />
+      )}
+
+      <AlertDialog open={confirmArchive} onOpenChange={setConfirmArchive}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Archive {selected.length} lead(s)?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They are moved out of the lead list into the archive, where they can be found and restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => archive(selected)}>Archive</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {mergePair && (
+        <MergeLeadsDialog
+          open={!!mergePair}
+          onClose={() => setMergePair(null)}
+          first={mergePair[0]}
+          second={mergePair[1]}
+          onMerged={() => onApplied([])}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -1,12 +1,13 @@
 import { useState, useEffect, useMemo, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { GoogleSheetsService, SheetLead } from "@/lib/googleSheets";
+import { FetchProgress, LeadConflictError, SheetLead, isSameLead } from "@/lib/googleSheets";
+import { getLeadRepository } from "@/lib/leadRepository";
 import { authService } from "@/lib/authService";
-import { secureStorage } from "@/lib/secureStorage";
 import { LeadCard } from "./LeadCard";
 import ProgressiveList from "@/components/ProgressiveList";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Plus, FileText } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { RefreshCw, Plus, FileText, Download } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import LeadDetailsDialog from "./LeadDetailsDialog";
 import ReminderDialog from "./ReminderDialog";
@@ -15,8 +16,12 @@ import LeadFilters from "./LeadFilters";
 import SearchBar from "./SearchBar";
 import DashboardStats from "./DashboardStats";
 import DailyReportDialog from "./DailyReportDialog";
+import ExportLeadsDialog from "./ExportLeadsDialog";
 import { useLocation } from "react-router-dom";
 import { stateManager } from "@/lib/stateManager";
+import { exportTitle } from "@/lib/leadExport";
+import { outboxService } from "@/lib/outboxService";
+import { toIsoDate } from "@/lib/dates";
 import { normalizeStatus, isWorkingCategoryStatus, isBookedStatus, isNewCategoryStatus, isCancelCategoryStatus } from "@/lib/leadStatus";
 
 const ConsultantDashboard = () => {
@@ -25,11 +30,13 @@ const ConsultantDashboard = () => {
   const isAnalyticsOnly = viewParam === 'analytics';
   const [leads, setLeads] = useState<SheetLead[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadProgress, setLoadProgress] = useState<FetchProgress | null>(null);
   const [selectedLead, setSelectedLead] = useState<SheetLead | null>(null);
   const [showReminderDialog, setShowReminderDialog] = useState(false);
   const [reminderLead, setReminderLead] = useState<{ id: string; name: string } | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showDailyReport, setShowDailyReport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [searchQuery, setSearchQuery] = useState(() => stateManager.getSearchQuery());
   const savedFilters = stateManager.getFilters();
   const [statusFilter, setStatusFilter] = useState(savedFilters.statusFilter);
@@ -42,7 +49,6 @@ const ConsultantDashboard = () => {
   });
   const { toast } = useToast();
   const session = authService.getSession();
-  const sheetsServiceRef = useRef<GoogleSheetsService | null>(null);
 
   const fetchLeads = async (silent = false, forceRefresh = false) => {
     try {
@@ -54,7 +60,7 @@ const ConsultantDashboard = () => {
             lead.consultant && 
             lead.consultant.toLowerCase().includes(session?.user.name.toLowerCase() || '')
           );
-          setLeads(myLeads);
+          setLeads(outboxService.applyPending(myLeads));
           if (!silent) setLoading(false);
           console.log('Using cached leads');
           return;
@@ -63,18 +69,8 @@ const ConsultantDashboard = () => {
 
       if (!silent) setLoading(true);
       
-      const credentials = await secureStorage.getCredentials();
-      if (!credentials) throw new Error('Google Sheets not configured');
-
-      const sheetsService = new GoogleSheetsService({
-        apiKey: credentials.googleApiKey,
-        serviceAccountJson: credentials.googleServiceAccountJson,
-        sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
-        worksheetNames: credentials.worksheetNames,
-        columnMappings: credentials.columnMappings
-      });
-
-      const data = await sheetsService.fetchLeads();
+      const repository = await getLeadRepository();
+      const data = await repository.list(forceRefresh, silent ? undefined : setLoadProgress);
       stateManager.setCachedLeads(data);
       
       // Filter leads assigned to this consultant
@@ -83,7 +79,7 @@ const ConsultantDashboard = () => {
         lead.consultant.toLowerCase().includes(session?.user.name.toLowerCase() || '')
       );
       
-      setLeads(myLeads);
+      setLeads(outboxService.applyPending(myLeads));
       
       if (silent) {
         console.log('Background sync completed');
@@ -99,7 +95,10 @@ const ConsultantDashboard = () => {
         console.error('Background sync error:', error);
       }
     } finally {
-      if (!silent) setLoading(false);
+      if (!silent) {
+        setLoading(false);
+        setLoadProgress(null);
+      }
     }
   };
 
@@ -107,6 +106,11 @@ const ConsultantDashboard = () => {
     fetchLeads();
   }, []);
 
+  // Pull fresh data once queued offline writes have reached the sheet
+  const fetchLeadsRef = useRef(fetchLeads);
+  fetchLeadsRef.current = fetchLeads;
+  useEffect(() => outboxService.onFlushed(() => fetchLeadsRef.current(true, true)), []);
+
   // Silent background sync honoring cache TTL to avoid extra fetches
   useEffect(() => {
     const interval = setInterval(() => {
@@ -170,7 +174,7 @@ const ConsultantDashboard = () => {
       const matchesPriority =
         priorityFilter === "All Priorities" ||
         (lead.priority || '').toLowerCase() === priorityFilter.toLowerCase();
-      const matchesDate = !dateFilter || lead.dateAndTime === dateFilter;
+      const matchesDate = !dateFilter || toIsoDate(lead.dateAndTime) === dateFilter;
 
       // EXTRA SCOPE ENFORCEMENT: If consultant tries to search another
       // consultant's trip id or phone, do not reveal that record.
@@ -183,7 +187,6 @@ const ConsultantDashboard = () => {
         matchesSearch &&
         matchesStatus &&
         matchesPriority &&
-        matchesDate
         matchesDate &&
         assignedToSelf
       );
@@ -210,37 +213,35 @@ const ConsultantDashboard = () => {
   // Left swipe = mark cancellation
   const handleSwipeLeft = async (lead: SheetLead) => {
     try {
-      const credentials = await secureStorage.getCredentials();
-      if (!credentials) throw new Error('Credentials not found');
-
-      const sheetsService = new GoogleSheetsService({
-        apiKey: credentials.googleApiKey,
-        serviceAccountJson: credentials.googleServiceAccountJson,
-        sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
-        worksheetNames: credentials.worksheetNames,
-        columnMappings: credentials.columnMappings
-      });
-
       // Optimistic UI update
       setLeads((prev) => prev.map((l) =>
-        l.tripId === lead.tripId && l.travellerName === lead.travellerName && l.dateAndTime === lead.dateAndTime
+        isSameLead(l, lead)
           ? { ...l, status: 'Cancelled' }
           : l
       ));
 
-      await sheetsService.updateLead(lead, { status: 'Cancelled' });
+      const result = await outboxService.execute(
+        { kind: 'update', lead, updates: { status: 'Cancelled' }, baseline: lead },
+        `Cancel ${lead.travellerName || 'lead'}`
+      );
       toast({
         title: "Lead Cancelled",
-        description: `${lead.travellerName} moved to cancellations.`,
+        description: result === 'queued'
+          ? `${lead.travellerName} will be moved to cancellations when you're back online.`
+          : `${lead.travellerName} moved to cancellations.`,
       });
       // Force refresh to bypass cached leads so UI stays consistent
-      fetchLeads(false, true);
+      if (result === 'sent') fetchLeads(false, true);
     } catch (error: any) {
-      toast({
-        variant: "destructive",
+      toast({
+        variant: "destructive",
         title: "Failed to cancel lead",
-        description: error.message,
-      });
+        description: error instanceof LeadConflictError
+          ? `Status was changed to "${error.remote.status}" by someone else.`
+          : error.message,
+      });
+      // Roll back the optimistic change
+      fetchLeads(false, true);
     }
   };
 
@@ -257,6 +258,14 @@ const ConsultantDashboard = () => {
         <div className="text-center py-12">
           <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
           <p className="text-muted-foreground">Loading your leads...</p>
+          {loadProgress && loadProgress.total > 0 && (
+            <div className="max-w-xs mx-auto mt-3 space-y-1">
+              <Progress value={Math.min(100, (loadProgress.loaded / loadProgress.total) * 100)} />
+              <p className="text-xs text-muted-foreground">
+                {loadProgress.loaded.toLocaleString()} of {loadProgress.total.toLocaleString()} rows
+              </p>
+            </div>
+          )}
         </div>
       );
     }
@@ -277,7 +286,7 @@ const ConsultantDashboard = () => {
           initialBatches={2}
           renderItem={(lead, index) => (
             <LeadCard
-              key={`${lead.tripId}-${index}`}
+              key={lead.uniqueKey || `${lead.tripId}-${index}`}
               lead={lead}
               onClick={() => setSelectedLead(lead)}
               onSwipeLeft={handleSwipeLeft}
@@ -305,6 +314,10 @@ const ConsultantDashboard = () => {
             <FileText className="h-3 w-3 sm:h-4 sm:w-4" />
             <span>Daily Report</span>
           </Button>
+          <Button onClick={() => setShowExport(true)} variant="outline" className="gap-1 flex-1 sm:flex-initial text-xs sm:text-sm h-8 sm:h-10 px-3 sm:px-4">
+            <Download className="h-3 w-3 sm:h-4 sm:w-4" />
+            <span>Export</span>
+          </Button>
           <Button onClick={() => fetchLeads(false, true)} variant="outline" className="gap-1 flex-1 sm:flex-initial text-xs sm:text-sm h-8 sm:h-10 px-3 sm:px-4" disabled={loading}>
             <RefreshCw className={`h-3 w-3 sm:h-4 sm:w-4 ${loading ? 'animate-spin' : ''}`} />
             <span>Refresh</span>
@@ -386,7 +399,7 @@ const ConsultantDashboard = () => {
           onUpdate={() => fetchLeads(false, true)}
           onImmediateUpdate={(updated) => {
             setLeads((prev) => prev.map((l) =>
-              l.tripId === updated.tripId && l.travellerName === updated.travellerName && l.dateAndTime === updated.dateAndTime
+              isSameLead(l, updated)
                 ? { ...l, ...updated }
                 : l
             ));
@@ -413,6 +426,7 @@ const ConsultantDashboard = () => {
           onClose={() => setShowAddDialog(false)}
           // Force refresh after adding to include the new lead immediately
           onSuccess={() => fetchLeads(false, true)}
+          onOpenLead={setSelectedLead}
           onImmediateAdd={(newLead) => {
             setLeads((prev) => [
               {
@@ -433,6 +447,7 @@ const ConsultantDashboard = () => {
                 priority: newLead.priority as any,
                 remarkHistory: [],
                 notes: '',
+                uniqueKey: newLead.uniqueKey,
                 _rowNumber: undefined,
               } as any,
               ...prev,
@@ -449,6 +464,14 @@ const ConsultantDashboard = () => {
           leads={leads}
         />
       )}
+      {showExport && (
+        <ExportLeadsDialog
+          open={showExport}
+          onClose={() => setShowExport(false)}
+          leads={filteredLeads}
+          title={exportTitle([statusFilter, priorityFilter, dateFilter, searchQuery])}
+        />
+      )}
     </div>
   );
 };
@@ -12,6 +12,7 @@ import { TooltipProvider, Tooltip, TooltipTrigger, TooltipContent } from "@/comp
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { SheetLead } from "@/lib/googleSheets";
+import { dateToIso, parseSheetTimestamp } from "@/lib/dates";
 import { authService } from "@/lib/authService";
 import { isBookedStatus, isCancelCategoryStatus, isNewCategoryStatus, normalizeStatus } from "@/lib/leadStatus";
 import { Calendar, Clipboard, MessageCircle, Users, Award, RefreshCw } from "lucide-react";
@@ -42,44 +43,6 @@ interface Metrics {
   };
 }
 
-function toISODate(date: Date): string {
-  const yyyy = date.getFullYear();
-  const mm = String(date.getMonth() + 1).padStart(2, "0");
-  const dd = String(date.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
-}
-
-function parseFlexibleDate(input: string): Date | null {
-  if (!input) return null;
-  const s = String(input).trim();
-  // mm/dd/yyyy or mm/dd/yy
-  const m1 = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
-  if (m1) {
-    const mm = Number(m1[1]);
-    const dd = Number(m1[2]);
-    let yy = Number(m1[3]);
-    if (yy < 100) yy = 2000 + yy;
-    const d = new Date(yy, mm - 1, dd);
-    return isNaN(d.getTime()) ? null : d;
-  }
-  // dd-Month-yy or dd-Month-yyyy (e.g., 03-April-25)
-  const m2 = s.match(/^(\d{1,2})-([A-Za-z]+)-(\d{2,4})$/);
-  if (m2) {
-    const dd = Number(m2[1]);
-    const monthName = m2[2];
-    let yy = Number(m2[3]);
-    if (yy < 100) yy = 2000 + yy;
-    const monthIndex = new Date(`${monthName} 1, 2000`).getMonth();
-    if (isNaN(monthIndex)) return null;
-    const d = new Date(yy, monthIndex, dd);
-    return isNaN(d.getTime()) ? null : d;
-  }
-  // ISO yyyy-mm-dd
-  const iso = new Date(s);
-  if (!isNaN(iso.getTime())) return iso;
-  return null;
-}
-
 function sameDay(a: Date | null, b: Date | null): boolean {
   if (!a || !b) return false;
   return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
@@ -216,7 +179,7 @@ const DailyReportDialog = ({ open, onClose, mode, leads, consultants = [] }: Dai
   const session = authService.getSession();
   const { toast } = useToast();
 
-  const [selectedDate, setSelectedDate] = useState<string>(() => toISODate(new Date()));
+  const [selectedDate, setSelectedDate] = useState<string>(() => dateToIso(new Date()));
   const [notes, setNotes] = useState<string>("");
   const [selectionMode, setSelectionMode] = useState<"me" | "full" | "custom">("me");
   const [selectedConsultants, setSelectedConsultants] = useState<Record<string, boolean>>({});
@@ -234,7 +197,7 @@ const DailyReportDialog = ({ open, onClose, mode, leads, consultants = [] }: Dai
   const selectedDay = useMemo(() => new Date(`${selectedDate}T00:00:00`), [selectedDate]);
 
   const leadsForDay = useMemo(() => {
-    return leads.filter((l) => sameDay(parseFlexibleDate(l.dateAndTime), selectedDay));
+    return leads.filter((l) => sameDay(parseSheetTimestamp(l.dateAndTime), selectedDay));
   }, [leads, selectedDay]);
 
   const myName = session?.user?.name || "";
@@ -322,7 +285,7 @@ const DailyReportDialog = ({ open, onClose, mode, leads, consultants = [] }: Dai
                     onChange={(e) => setSelectedDate(e.target.value)}
                     className="h-9"
                   />
-                  <Button variant="outline" size="icon" onClick={() => setSelectedDate(toISODate(new Date()))}>
+                  <Button variant="outline" size="icon" onClick={() => setSelectedDate(dateToIso(new Date()))}>
                     <Calendar className="h-4 w-4" />
                   </Button>
                 </div>
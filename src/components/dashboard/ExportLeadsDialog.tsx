@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+import { SheetLead } from "@/lib/googleSheets";
+import { LEAD_FIELDS } from "@/lib/columnMapping";
+import { EXPORT_FORMATS, ExportFormat, buildLeadExport, exportFields, exportFileName, saveExportFile } from "@/lib/leadExport";
+import { dateToIso } from "@/lib/dates";
+import { errorMessage } from "@/lib/utils";
+
+interface ExportLeadsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  leads: SheetLead[];
+  /** Describes the set being exported, e.g. "Filtered leads"; used as PDF title and file name */
+  title: string;
+}
+
+/** Export a set of leads to CSV, XLSX or a PDF table with the chosen columns */
+const ExportLeadsDialog = ({ open, onClose, leads, title }: ExportLeadsDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [columns, setColumns] = useState<string[]>([]);
+  const [name, setName] = useState(title);
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  // Columns with data are ticked by default each time the dialog opens
+  const wasOpen = useRef(false);
+  useEffect(() => {
+    if (open && !wasOpen.current) {
+      setColumns(exportFields(leads).map((f) => f.key));
+      setName(title);
+    }
+    wasOpen.current = open;
+  }, [open, leads, title]);
+
+  const toggleColumn = (key: string, checked: boolean) =>
+    setColumns(checked ? [...columns, key] : columns.filter((c) => c !== key));
+
+  const handleExport = async () => {
+    const fields = LEAD_FIELDS.filter((f) => columns.includes(f.key));
+    setExporting(true);
+    try {
+      const blob = await buildLeadExport(leads, fields, format, name || title);
+      const filename = exportFileName(name || title, format, dateToIso(new Date()));
+      await saveExportFile(filename, blob);
+      toast({ title: "Exported", description: `${leads.length} lead(s) saved as ${filename}` });
+      onClose();
+    } catch (error: unknown) {
+      console.error('❌ Export failed:', error);
+      toast({ variant: "destructive", title: "Export failed", description: errorMessage(error) });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Leads</DialogTitle>
+          <DialogDescription>{leads.length} lead(s) from the current view</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-name">Title</Label>
+            <Input id="export-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="flex gap-4">
+              {EXPORT_FORMATS.map((f) => (
+                <label key={f.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value={f.value} />
+                  {f.label}
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <div className="flex gap-1">
+                <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => setColumns(LEAD_FIELDS.map((f) => f.key))}>
+                  All
+                </Button>
+                <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => setColumns([])}>
+                  None
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 max-h-56 overflow-y-auto border rounded-md p-2">
+              {LEAD_FIELDS.map((field) => (
+                <label key={field.key} className="flex items-center gap-2 text-xs cursor-pointer">
+                  <Checkbox
+                    checked={columns.includes(field.key)}
+                    onCheckedChange={(checked) => toggleColumn(field.key, !!checked)}
+                  />
+                  {field.label}
+                </label>
+              ))}
+            </div>
+            {format === 'pdf' && columns.length > 10 && (
+              <p className="text-xs text-muted-foreground">Tip: PDF tables stay readable with about 10 columns or fewer.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || columns.length === 0 || leads.length === 0} className="gap-2">
+            <Download className="h-4 w-4" />
+            {exporting ? "Exporting..." : "Export"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportLeadsDialog;
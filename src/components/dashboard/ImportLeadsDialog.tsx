@@ -0,0 +1,357 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, CheckCircle2, FileUp, XCircle } from "lucide-react";
+import { SheetLead } from "@/lib/googleSheets";
+import { getLeadRepository } from "@/lib/leadRepository";
+import { SpreadsheetData, readSpreadsheetFile } from "@/lib/spreadsheetFile";
+import { IMPORT_FIELDS, ImportRow, buildImportPreview, distributeToConsultants, guessImportFields } from "@/lib/leadImport";
+import { SHEET_LOCALES, SheetLocale, getSheetLocale } from "@/lib/dates";
+import { errorMessage } from "@/lib/utils";
+
+interface ImportLeadsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Leads already loaded, for duplicate checks and balancing consultants */
+  existingLeads: SheetLead[];
+  consultants: string[];
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+const SKIP = "__skip__";
+const BATCH_SIZE = 100; // rows per append request
+const PREVIEW_ROWS = 200;
+
+const LEAD_STATUSES = [
+  "Unfollowed",
+  "Follow-up Calls",
+  "Follow-up Calls - 1",
+  "Follow-up Calls - 2",
+  "Follow-up Calls - 3",
+  "Follow-up Calls - 4",
+  "Follow-up Calls - 5",
+  "Working on it",
+  "Whatsapp Sent",
+  "Proposal 1 Shared",
+  "Proposal 2 Shared",
+  "Proposal 3 Shared",
+  "Negotiations",
+  "Hot Leads",
+  "Booked With Us",
+  "Cancellations",
+  "Postponed",
+  "Booked Outside",
+  "Pamplets Shared",
+];
+
+/** Import wizard: upload a CSV/XLSX file, map its columns, dry run, then append in batches */
+const ImportLeadsDialog = ({ open, onClose, existingLeads, consultants, onImported }: ImportLeadsDialogProps) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState("");
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [fields, setFields] = useState<string[]>([]);
+  const [locale, setLocale] = useState<SheetLocale>(getSheetLocale());
+  const [defaultStatus, setDefaultStatus] = useState("Unfollowed");
+  const [assignTo, setAssignTo] = useState<string[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [preview, setPreview] = useState<ImportRow[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState(0);
+  const [importError, setImportError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = await readSpreadsheetFile(file);
+      if (parsed.rows.length === 0) throw new Error('The file has a header row but no leads');
+      setFileName(file.name);
+      setData(parsed);
+      setFields(guessImportFields(parsed.headers));
+      setStep('map');
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Couldn't read file", description: errorMessage(error) });
+    }
+  };
+
+  const runDryRun = () => {
+    if (!data) return;
+    if (!fields.includes('travellerName') || !fields.includes('phone')) {
+      toast({ variant: "destructive", title: "Map the required columns", description: "Traveller Name and Phone must be mapped" });
+      return;
+    }
+    setPreview(buildImportPreview(data, fields, existingLeads, { locale, defaultStatus }));
+    setStep('preview');
+  };
+
+  const isDuplicate = (row: ImportRow) => row.duplicates.length > 0 || row.duplicateOfLine !== undefined;
+
+  // Rows that will be written, with consultants handed out when any were picked
+  const toImport = useMemo(() => {
+    const rows = preview.filter((row) => row.errors.length === 0 && !(skipDuplicates && isDuplicate(row)));
+    return distributeToConsultants(rows.map((row) => row.lead), assignTo, existingLeads);
+  }, [preview, skipDuplicates, assignTo, existingLeads]);
+
+  const consultantByKey = useMemo(
+    () => new Map(toImport.map((lead) => [lead.uniqueKey, lead.consultant])),
+    [toImport]
+  );
+
+  const counts = useMemo(() => ({
+    errors: preview.filter((row) => row.errors.length > 0).length,
+    duplicates: preview.filter((row) => row.errors.length === 0 && isDuplicate(row)).length,
+  }), [preview]);
+
+  const handleImport = async () => {
+    setImporting(true);
+    setImported(0);
+    setImportError(null);
+    let done = 0;
+    try {
+      const repository = await getLeadRepository();
+      for (let i = 0; i < toImport.length; i += BATCH_SIZE) {
+        const batch = toImport.slice(i, i + BATCH_SIZE);
+        await repository.createMany(batch);
+        done += batch.length;
+        setImported(done);
+      }
+      toast({ title: "✅ Import complete", description: `${done} lead(s) added from ${fileName}` });
+    } catch (error: unknown) {
+      console.error('❌ Import failed:', error);
+      setImportError(errorMessage(error));
+      toast({ variant: "destructive", title: "❌ Import stopped", description: `${done} of ${toImport.length} lead(s) were added` });
+    } finally {
+      setImporting(false);
+      setStep('done');
+      if (done > 0) onImported();
+    }
+  };
+
+  const rowStatus = (row: ImportRow) => {
+    if (row.errors.length > 0) {
+      return <span className="text-destructive flex items-start gap-1"><XCircle className="h-3 w-3 mt-0.5 shrink-0" />{row.errors.join('; ')}</span>;
+    }
+    const notes = [
+      ...row.warnings,
+      ...(row.duplicateOfLine !== undefined ? [`Same as line ${row.duplicateOfLine}`] : []),
+      ...row.duplicates.map((d) => `Possible duplicate of ${d.lead.travellerName}${d.lead.tripId ? ` (${d.lead.tripId})` : ''}`),
+    ];
+    if (notes.length > 0) {
+      return <span className="text-amber-600 flex items-start gap-1"><AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />{notes.join('; ')}</span>;
+    }
+    return <span className="text-green-600 flex items-center gap-1"><CheckCircle2 className="h-3 w-3" />Ready</span>;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => !importing && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Leads</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel (.xlsx) file. The first row must hold the column headers.'}
+            {step === 'map' && `${fileName}: ${data?.rows.length} row(s). Choose which lead field each column fills.`}
+            {step === 'preview' && 'Dry run: nothing has been written yet.'}
+            {step === 'done' && fileName}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input id="import-file" type="file" accept=".csv,.xlsx,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && data && (
+          <div className="space-y-4">
+            <div className="border rounded-md overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Column</TableHead>
+                    <TableHead className="text-xs">Example</TableHead>
+                    <TableHead className="text-xs">Lead field</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.headers.map((header, col) => (
+                    <TableRow key={col}>
+                      <TableCell className="text-xs font-medium">{header}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate">
+                        {data.rows.find((row) => row[col])?.[col] || ''}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={fields[col] || SKIP}
+                          onValueChange={(value) => {
+                            const next = [...fields];
+                            next[col] = value === SKIP ? '' : value;
+                            setFields(next);
+                          }}
+                        >
+                          <SelectTrigger className="h-8 text-xs w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP}>Don't import</SelectItem>
+                            {IMPORT_FIELDS.map((field) => (
+                              <SelectItem key={field.key} value={field.key}>{field.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Dates in the file</Label>
+                <Select value={locale} onValueChange={(value) => setLocale(value as SheetLocale)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHEET_LOCALES.map((l) => (
+                      <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Status for rows without one</Label>
+                <Select value={defaultStatus} onValueChange={setDefaultStatus}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEAD_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label>Distribute to consultants</Label>
+                <div className="flex flex-wrap gap-3 max-h-28 overflow-y-auto">
+                  {consultants.map((consultant) => (
+                    <label key={consultant} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={assignTo.includes(consultant)}
+                        onCheckedChange={(checked) =>
+                          setAssignTo(checked ? [...assignTo, consultant] : assignTo.filter((c) => c !== consultant))
+                        }
+                      />
+                      {consultant}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Leads are shared in turn, starting with whoever has the fewest. With none ticked, the file's Consultant column is used.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              <Button onClick={runDryRun}>Preview Import</Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+              <span className="text-green-600 font-medium">{toImport.length} to import</span>
+              <span className="text-destructive">{counts.errors} with errors (skipped)</span>
+              <span className="text-amber-600">{counts.duplicates} possible duplicate(s)</span>
+              <label className="flex items-center gap-2 ml-auto cursor-pointer">
+                <Switch checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+                Skip possible duplicates
+              </label>
+            </div>
+
+            <div className="border rounded-md overflow-x-auto max-h-[45vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Line</TableHead>
+                    <TableHead className="text-xs">Traveller</TableHead>
+                    <TableHead className="text-xs">Phone</TableHead>
+                    <TableHead className="text-xs">Consultant</TableHead>
+                    <TableHead className="text-xs">Check</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.slice(0, PREVIEW_ROWS).map((row) => {
+                    const included = consultantByKey.has(row.lead.uniqueKey);
+                    return (
+                      <TableRow key={row.line} className={included ? '' : 'opacity-60'}>
+                        <TableCell className="text-xs">{row.line}</TableCell>
+                        <TableCell className="text-xs font-medium">{row.lead.travellerName}</TableCell>
+                        <TableCell className="text-xs">{row.lead.phone}</TableCell>
+                        <TableCell className="text-xs">{included ? consultantByKey.get(row.lead.uniqueKey) || '-' : '-'}</TableCell>
+                        <TableCell className="text-xs max-w-[320px]">{rowStatus(row)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {preview.length > PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_ROWS} of {preview.length} rows</p>
+            )}
+
+            {importing && (
+              <div className="space-y-1">
+                <Progress value={(imported / Math.max(1, toImport.length)) * 100} />
+                <p className="text-xs text-muted-foreground">Imported {imported} of {toImport.length}...</p>
+              </div>
+            )}
+
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setStep('map')} disabled={importing}>Back</Button>
+              <Button onClick={handleImport} disabled={importing || toImport.length === 0} className="gap-2">
+                <FileUp className="h-4 w-4" />
+                {importing ? 'Importing...' : `Import ${toImport.length} Lead(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              {imported} of {toImport.length} lead(s) added.
+            </p>
+            {importError && (
+              <p className="text-sm text-destructive">
+                Stopped after {imported} lead(s): {importError}. The remaining rows were not written; import them again
+                from a file without the rows already added.
+              </p>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={onClose}>Close</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportLeadsDialog;
@@ -1,8 +1,10 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Phone, Mail, MessageCircle, Calendar, MapPin, Users, Moon, CheckCircle, Bell, XCircle } from "lucide-react";
 import { SheetLead } from "@/lib/googleSheets";
+import { formatDisplayDate } from "@/lib/dates";
 import { useState } from "react";
 import { useSwipeable } from "react-swipeable";
 import WhatsAppTemplateDialog from "./WhatsAppTemplateDialog";
@@ -14,54 +16,12 @@ interface LeadCardProps {
   showAssignButton?: boolean;
   onSwipeLeft?: (lead: SheetLead) => void;
   onSwipeRight?: (lead: SheetLead) => void;
+  /** Selection mode: clicking toggles selection instead of opening the lead, swipes are off */
+  selectable?: boolean;
+  selected?: boolean;
+  onToggleSelect?: (lead: SheetLead) => void;
 }
 
-/** UNIVERSAL robust date formatter for all plausible formats */
-const formatTravelDate = (dateStr: string): string => {
-  if (!dateStr) return '';
-  try {
-    const s = String(dateStr).trim();
-    // dd-Month-yy (or yyyy) and d-Month-yy, etc.
-    const m1 = s.match(/^(\d{1,2})[\/\-\s]([A-Za-z]+)[\/\-\s](\d{2,4})$/);
-    if (m1) {
-      const months = ["january","february","march","april","may","june","july","august",
-        "september","october","november","december"];
-      let monthIndex = months.indexOf(m1[2].toLowerCase());
-      let yyyy = m1[3].length === 2 ? (Number(m1[3]) < 50 ? 2000 + Number(m1[3]) : 1900 + Number(m1[3])) : Number(m1[3]);
-      if (monthIndex !== -1) {
-        let dateObj = new Date(yyyy, monthIndex, Number(m1[1]));
-        if (!isNaN(dateObj.getTime())) {
-          return dateObj.toLocaleDateString('en-GB', { day: "numeric", month: "long", year: "numeric" });
-        }
-      }
-    }
-    // yyyy-mm-dd (ISO)
-    if (/^\d{4}-\d{2}-\d{2}$/.test(s)) {
-      const date = new Date(s);
-      if (!isNaN(date.getTime())) return date.toLocaleDateString('en-GB', {day:'numeric',month:'long',year:'numeric'});
-    }
-    // dd/mm/yyyy or mm/dd/yyyy or their hyphen versions
-    const m2 = s.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/);
-    if (m2) {
-      let a = Number(m2[1]), b = Number(m2[2]), y = Number(m2[3]);
-      let yyyy = y < 100 ? (y < 50 ? 2000 + y : 1900 + y) : y;
-      let date: Date;
-      if (a > 12) date = new Date(yyyy, b - 1, a);
-      else date = new Date(yyyy, a - 1, b);
-      if (!isNaN(date.getTime())) 
-        return date.toLocaleDateString('en-GB', {day:'numeric',month:'long',year:'numeric'});
-    }
-    // generic fallback
-    const date = new Date(s);
-    if (!isNaN(date.getTime())) {
-      return date.toLocaleDateString('en-GB', {day:'numeric',month:'long',year:'numeric'});
-    }
-    return s;
-  } catch {
-    return dateStr;
-  }
-};
-
 const getCardBackgroundByStatus = (status: string, priority: string) => {
   const lowerStatus = status.toLowerCase();
   const lowerPriority = priority?.toLowerCase() || 'medium';
@@ -113,7 +73,7 @@ const getStatusColor = (status: string): string => {
   return 'bg-gray-500';
 };
 
-export const LeadCard = ({ lead, onClick, onAssign, showAssignButton = false, onSwipeLeft, onSwipeRight }: LeadCardProps) => {
+export const LeadCard = ({ lead, onClick, onAssign, showAssignButton = false, onSwipeLeft, onSwipeRight, selectable = false, selected = false, onToggleSelect }: LeadCardProps) => {
   const [showWhatsAppDialog, setShowWhatsAppDialog] = useState(false);
   const [swipeOffset, setSwipeOffset] = useState(0);
   const [isCancelled, setIsCancelled] = useState(false);
@@ -124,10 +84,10 @@ export const LeadCard = ({ lead, onClick, onAssign, showAssignButton = false, on
 
   const handlers = useSwipeable({
     onSwiping: (eventData) => {
-      setSwipeOffset(eventData.deltaX);
+      if (!selectable) setSwipeOffset(eventData.deltaX);
     },
     onSwipedLeft: () => {
-      if (onSwipeLeft) {
+      if (onSwipeLeft && !selectable) {
         setIsCancelled(true);
         onSwipeLeft(lead);
         setTimeout(() => setIsCancelled(false), 2000);
@@ -135,7 +95,7 @@ export const LeadCard = ({ lead, onClick, onAssign, showAssignButton = false, on
       setSwipeOffset(0);
     },
     onSwipedRight: () => {
-      if (onSwipeRight) {
+      if (onSwipeRight && !selectable) {
         setReminderSet(true);
         onSwipeRight(lead);
         setTimeout(() => setReminderSet(false), 2000);
@@ -202,11 +162,20 @@ export const LeadCard = ({ lead, onClick, onAssign, showAssignButton = false, on
         )}
 
       <Card 
-        className={`p-3 sm:p-4 cursor-pointer hover:shadow-glow hover:scale-[1.02] transition-all duration-300 ${cardBg} animate-fade-in border-2 relative z-10`}
-        onClick={onClick}
+        className={`p-3 sm:p-4 cursor-pointer hover:shadow-glow hover:scale-[1.02] transition-all duration-300 ${cardBg} animate-fade-in border-2 relative z-10 ${selected ? 'ring-2 ring-primary ring-offset-2' : ''}`}
+        onClick={selectable ? () => onToggleSelect?.(lead) : onClick}
       >
       <div className="space-y-2 sm:space-y-3">
         <div className="flex items-start justify-between gap-2">
+          {selectable && (
+            <Checkbox
+              checked={selected}
+              onClick={(e) => e.stopPropagation()}
+              onCheckedChange={() => onToggleSelect?.(lead)}
+              className="mt-1 shrink-0"
+              aria-label={`Select ${lead.travellerName}`}
+            />
+          )}
           <div className="flex-1 min-w-0">
             <h3 className="font-bold text-base sm:text-lg truncate">{lead.travellerName}</h3>
             <p className="text-xs sm:text-sm text-muted-foreground truncate">{lead.tripId}</p>
@@ -225,7 +194,7 @@ export const LeadCard = ({ lead, onClick, onAssign, showAssignButton = false, on
           {lead.travelDate && (
             <div className="flex items-center gap-2 text-muted-foreground">
               <Calendar className="h-3 w-3 sm:h-4 sm:w-4 shrink-0" />
-              <span className="font-medium truncate text-xs sm:text-sm">{formatTravelDate(lead.travelDate)}</span>
+              <span className="font-medium truncate text-xs sm:text-sm">{formatDisplayDate(lead.travelDate)}</span>
             </div>
           )}
           
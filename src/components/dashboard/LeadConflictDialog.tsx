@@ -0,0 +1,131 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { LeadFieldConflict, SheetLead, setLeadField } from "@/lib/googleSheets";
+
+type Choice = 'mine' | 'theirs' | 'merge';
+
+interface LeadConflictDialogProps {
+  open: boolean;
+  conflicts: LeadFieldConflict[];
+  onResolve: (resolved: Partial<SheetLead>) => void;
+  onCancel: () => void;
+}
+
+const fieldLabel = (field: string) =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
+
+const defaultMerge = (c: LeadFieldConflict) =>
+  c.theirs && c.mine ? `${c.theirs}\n${c.mine}` : c.theirs || c.mine;
+
+/**
+ * Field-by-field resolution for a lead that someone else edited while this
+ * user had it open. Resolves to the full set of values to write; fields where
+ * "theirs" is chosen come back with the sheet's current value.
+ */
+const LeadConflictDialog = ({ open, conflicts, onResolve, onCancel }: LeadConflictDialogProps) => {
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [merged, setMerged] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.field, 'mine' as Choice])));
+    setMerged(Object.fromEntries(conflicts.map((c) => [c.field, defaultMerge(c)])));
+  }, [conflicts]);
+
+  const setAll = (choice: Choice) => {
+    setChoices(Object.fromEntries(conflicts.map((c) => [c.field, choice])));
+  };
+
+  const handleApply = () => {
+    const resolved: Partial<SheetLead> = {};
+    for (const c of conflicts) {
+      const choice = choices[c.field] || 'mine';
+      const value = choice === 'mine' ? c.mine : choice === 'theirs' ? c.theirs : merged[c.field] ?? '';
+      setLeadField(resolved, c.field, value);
+    }
+    onResolve(resolved);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Someone else changed this lead
+          </DialogTitle>
+          <DialogDescription>
+            These fields were updated in the sheet after you opened the lead. Choose which value to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setAll('mine')}>Keep all mine</Button>
+          <Button size="sm" variant="outline" onClick={() => setAll('theirs')}>Take all theirs</Button>
+        </div>
+
+        <div className="space-y-4">
+          {conflicts.map((c) => (
+            <div key={c.field} className="border rounded-lg p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="font-semibold">{fieldLabel(c.field)}</Label>
+                {c.base && (
+                  <span className="text-xs text-muted-foreground truncate">Was: {c.base}</span>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                <div className="rounded-md p-2 bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800">
+                  <p className="text-xs text-muted-foreground mb-1">Yours</p>
+                  <p className="whitespace-pre-wrap break-words">{c.mine || <em className="text-muted-foreground">empty</em>}</p>
+                </div>
+                <div className="rounded-md p-2 bg-orange-50 dark:bg-orange-950/30 border border-orange-200 dark:border-orange-800">
+                  <p className="text-xs text-muted-foreground mb-1">Theirs (in sheet now)</p>
+                  <p className="whitespace-pre-wrap break-words">{c.theirs || <em className="text-muted-foreground">empty</em>}</p>
+                </div>
+              </div>
+
+              <RadioGroup
+                value={choices[c.field] || 'mine'}
+                onValueChange={(v) => setChoices({ ...choices, [c.field]: v as Choice })}
+                className="flex gap-4"
+              >
+                {(['mine', 'theirs', 'merge'] as Choice[]).map((choice) => (
+                  <div key={choice} className="flex items-center gap-2">
+                    <RadioGroupItem value={choice} id={`${c.field}-${choice}`} />
+                    <Label htmlFor={`${c.field}-${choice}`} className="text-sm font-normal">
+                      {choice === 'mine' ? 'Keep mine' : choice === 'theirs' ? 'Take theirs' : 'Merge'}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+
+              {choices[c.field] === 'merge' && (
+                <Textarea
+                  value={merged[c.field] ?? ''}
+                  onChange={(e) => setMerged({ ...merged, [c.field]: e.target.value })}
+                  rows={3}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onCancel}>
+            Discard my changes
+          </Button>
+          <Button onClick={handleApply}>
+            Save resolved values
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeadConflictDialog;
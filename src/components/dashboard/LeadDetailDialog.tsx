@@ -1,5 +1,6 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { SheetLead } from "@/lib/googleSheets";
+import { isoToDate, parseSheetTimestamp } from "@/lib/dates";
 import { useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { MapPin, TrendingUp, Users as UsersIcon, Calendar } from "lucide-react";
@@ -47,14 +48,10 @@ const LeadDetailDialog = ({ open, onClose, title, leads, color }: LeadDetailDial
     const months: { [key: string]: number } = {};
     
     leads.forEach(lead => {
-      if (lead.dateAndTime) {
-        try {
-          const date = new Date(lead.dateAndTime);
-          const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-          months[monthKey] = (months[monthKey] || 0) + 1;
-        } catch (e) {
-          // Skip invalid dates
-        }
+      const date = parseSheetTimestamp(lead.dateAndTime);
+      if (date) {
+        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+        months[monthKey] = (months[monthKey] || 0) + 1;
       }
     });
 
@@ -62,7 +59,7 @@ const LeadDetailDialog = ({ open, onClose, title, leads, color }: LeadDetailDial
       .sort((a, b) => a[0].localeCompare(b[0]))
       .slice(-6)
       .map(([month, count]) => ({
-        month: new Date(month + '-01').toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+        month: isoToDate(month + '-01')!.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
         count
       }));
   }, [leads]);
@@ -5,12 +5,30 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { GoogleSheetsService, SheetLead } from "@/lib/googleSheets";
-import { secureStorage } from "@/lib/secureStorage";
-import { Bell } from "lucide-react";
+import { LeadConflictError, SheetLead, setLeadField } from "@/lib/googleSheets";
+import { outboxService } from "@/lib/outboxService";
+import { errorMessage } from "@/lib/utils";
+import { getLeadRepository } from "@/lib/leadRepository";
+import { authService } from "@/lib/authService";
+import { RemarkEntry, createRemarkEntry } from "@/lib/remarkLog";
+import { dateToIso, formatDisplayDate, getSheetLocale, isoToDate, isoToSheetDate, parseSheetDate } from "@/lib/dates";
+import { Archive, Bell } from "lucide-react";
 import ReminderDialog from "./ReminderDialog";
+import LeadConflictDialog from "./LeadConflictDialog";
+import LeadFieldSections from "./LeadFieldSections";
+import RemarkTimeline from "./RemarkTimeline";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 interface LeadDetailsDialogProps {
   lead: SheetLead;
@@ -51,118 +69,160 @@ const MEAL_PLANS = [
   "All Meal with High Tea"
 ];
 
-// Date utils
-function prettyDateDisplay(dateStr: string) {
-  const m = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (!m) return dateStr;
-  const day = m[1].padStart(2, "0");
-  const month = Number(m[2]);
-  const year = m[3];
-  const months = ["January","February","March","April","May","June","July","August","September","October","November","December"];
-  if (month<1||month>12) return dateStr;
-  return `${day} ${months[month-1]} ${year}`;
-}
-function parseAnyDate(str: string): Date | undefined {
-  if (!str) return undefined;
-  let d: Date | undefined = undefined;
-  if (/^\d{1,2}\/\d{1,2}\/\d{2,4}$/.test(str)) { // dd/mm/yyyy or mm/dd/yyyy
-    const [a, b, c] = str.split("/");
-    if (Number(a) > 12) d = new Date(Number(c), Number(b)-1, Number(a));
-    else d = new Date(Number(c), Number(a)-1, Number(b));
-  } else if (/^\d{4}-\d{2}-\d{2}$/.test(str)) { // yyyy-mm-dd
-    d = new Date(str);
-  } else if (/^[0-9]{1,2}-[A-Za-z]+-\d{2,4}$/.test(str)) { // 25-December-2025
-    const [dd, Month, yyyy] = str.split("-");
-    d = new Date(`${Month} ${dd}, ${yyyy}`);
-  } else {
-    const jsDate = new Date(str);
-    if (!isNaN(jsDate.getTime())) d = jsDate;
-  }
-  if (d && !isNaN(d.getTime())) return d;
-  return undefined;
-}
-function dateToDDMMYYYY(date: Date | string | undefined): string {
-  if (!date) return "";
-  let d: Date = date instanceof Date ? date : parseAnyDate(date) || new Date();
-  if (isNaN(d.getTime())) return "";
-  const dd = String(d.getDate()).padStart(2,'0');
-  const mm = String(d.getMonth()+1).padStart(2,'0');
-  const yyyy = d.getFullYear();
-  return `${dd}/${mm}/${yyyy}`;
-}
+// Strips control characters but keeps line breaks and tabs
 function sanitizeText(str: string = "") {
-  return str.replace(/[\u0000-\u001F\u007F-\u009F]/g,"");
+  return str.replace(/[\u0000-\u0008\u000B-\u001F\u007F-\u009F]/g,"");
 }
 
 const LeadDetailsDialog = ({ lead, open, onClose, onUpdate, onImmediateUpdate }: LeadDetailsDialogProps) => {
-  const [formData, setFormData] = useState<SheetLead>({
-    ...lead,
-    travelDate: dateToDDMMYYYY(lead.travelDate),
-  });
+  const [formData, setFormData] = useState<SheetLead>({ ...lead });
+  // What the user typed; formData.travelDate only ever holds a valid ISO date (or the untouched sheet value)
+  const [travelDateText, setTravelDateText] = useState(() => isoToSheetDate(lead.travelDate) || lead.travelDate || "");
   const [calendarOpen, setCalendarOpen] = useState(false);
   const [saving, setSaving] = useState(false);
   const [showReminderDialog, setShowReminderDialog] = useState(false);
-  const [dateError, setDateError] = useState<string>("");
-  const { toast } = useToast();
+  const [dateError, setDateError] = useState<string>("");
+  const [dateWarning, setDateWarning] = useState<string>("");
+  const [conflict, setConflict] = useState<{ error: LeadConflictError; pending: Partial<SheetLead>; remark?: RemarkEntry } | null>(null);
+  const [remarkLog, setRemarkLog] = useState<RemarkEntry[]>([]);
+  const [loadingRemarks, setLoadingRemarks] = useState(false);
+  const [confirmArchive, setConfirmArchive] = useState(false);
+  const { toast } = useToast();
+  const isAdmin = authService.getSession()?.user.role === 'admin';
+  const dateFormat = getSheetLocale() === 'mdy' ? 'mm/dd/yyyy' : 'dd/mm/yyyy';
+
+  useEffect(() => {
+    if (!open || !lead.uniqueKey) return;
+    let cancelled = false;
+    setLoadingRemarks(true);
+    getLeadRepository()
+      .then((repository) => repository.listRemarks(lead.uniqueKey!))
+      .then((entries) => { if (!cancelled) setRemarkLog(entries); })
+      .catch((error) => console.error('Failed to load remark log:', error))
+      .finally(() => { if (!cancelled) setLoadingRemarks(false); });
+    return () => { cancelled = true; };
+  }, [open, lead.uniqueKey]);
 
   const handleDateChange = (rawVal: string) => {
-    const normalized = dateToDDMMYYYY(parseAnyDate(rawVal) || rawVal);
-    setFormData({ ...formData, travelDate: normalized });
-    if (normalized && !/^\d{2}\/\d{2}\/\d{4}$/.test(normalized)) {
-      setDateError("Please select or enter a valid date.");
-    } else {
-      setDateError("");
+    setTravelDateText(rawVal);
+    const parsed = parseSheetDate(rawVal);
+    if (!parsed.iso) {
+      setDateError(rawVal.trim() ? `Please enter a valid date (${dateFormat}).` : "");
+      setDateWarning("");
+      return;
     }
+    setFormData({ ...formData, travelDate: parsed.iso });
+    setDateError("");
+    setDateWarning(parsed.ambiguous ? `Read as ${formatDisplayDate(parsed.iso)} (${dateFormat}). Pick from the calendar if you meant otherwise.` : "");
   };
   const handleCalendarChange = (date: Date | undefined) => {
     if (!date) return;
-    const normalized = dateToDDMMYYYY(date);
-    setFormData({ ...formData, travelDate: normalized });
+    const iso = dateToIso(date);
+    setFormData({ ...formData, travelDate: iso });
+    setTravelDateText(isoToSheetDate(iso));
     setDateError("");
+    setDateWarning("");
     setCalendarOpen(false);
   };
 
   const handleSave = async () => {
-    if (!formData.travelDate || !/^\d{2}\/\d{2}\/\d{4}$/.test(formData.travelDate)) {
-      setDateError("Please select or enter a valid date (dd/mm/yyyy).");
-      toast({ variant: "destructive", title: "❌ Invalid date format", description: "Use or pick dd/mm/yyyy (e.g., 25/10/2025)", duration: 4000 });
+    if (!formData.travellerName.trim()) {
+      toast({ variant: "destructive", title: "❌ Traveller name required", duration: 4000 });
+      return;
+    }
+    if (!parseSheetDate(formData.travelDate).iso) {
+      setDateError(`Please select or enter a valid date (${dateFormat}).`);
+      toast({ variant: "destructive", title: "❌ Invalid date format", description: `Use or pick ${dateFormat}`, duration: 4000 });
       return;
     }
+    const dataToSave = {
+      ...formData,
+      travellerName: formData.travellerName.trim(),
+      remarks: sanitizeText(formData.remarks),
+      notes: sanitizeText(formData.notes)
+    };
+    // Notes are a separate write, so only send them when they changed
+    if (dataToSave.notes === (lead.notes || "")) delete dataToSave.notes;
+    // The remark log is append-only; never write the legacy history column back
+    delete dataToSave.remarkHistory;
+    // Optimistically update UI immediately
+    const optimisticLead: SheetLead = {
+      ...lead,
+      ...formData,
+    };
+    onImmediateUpdate?.(optimisticLead);
+    // The Remarks cell only holds the latest remark, so every change is also kept in the log
+    const remark = dataToSave.remarks.trim() && dataToSave.remarks !== sanitizeText(lead.remarks)
+      ? createRemarkEntry(lead.uniqueKey || '', dataToSave.remarks, authService.getSession()?.user)
+      : undefined;
+    await persist(dataToSave, lead, remark);
+  };
+
+  // Write against a baseline so edits made by others since `baseline` are not silently overwritten.
+  // The remark goes with the update, so it is only logged once the update is written (or replayed).
+  const persist = async (dataToSave: Partial<SheetLead>, baseline: SheetLead, remark?: RemarkEntry) => {
     try {
-      setSaving(true);
-      const credentials = await secureStorage.getCredentials();
-      if (!credentials) throw new Error('Google Sheets credentials not configured.');
-      if (!credentials.googleServiceAccountJson) throw new Error('Service Account JSON is required.');
-      const sheetsService = new GoogleSheetsService({
-        apiKey: credentials.googleApiKey,
-        serviceAccountJson: credentials.googleServiceAccountJson,
-        sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
-        worksheetNames: credentials.worksheetNames,
-        columnMappings: credentials.columnMappings
-      });
-      const dataToSave = {
-        ...formData,
-        travelDate: `${formData.travelDate.split("/")[1]}/${formData.travelDate.split("/")[0]}/${formData.travelDate.split("/")[2]}`, // mm/dd/yyyy for Sheets
-        remarks: sanitizeText(formData.remarks),
-        notes: sanitizeText(formData.notes)
-      };
-      // Optimistically update UI immediately
-      const optimisticLead: SheetLead = {
-        ...lead,
-        ...formData,
-      };
-      onImmediateUpdate?.(optimisticLead);
-      await sheetsService.updateLead(lead, dataToSave);
-      toast({ title: "✅ Lead updated successfully!", description: "Changes have been saved.", duration: 3000 });
+      setSaving(true);
+      const result = await outboxService.execute(
+        { kind: 'update', lead, updates: dataToSave, baseline, remark },
+        `Update ${lead.travellerName || 'lead'}`
+      );
+      if (result === 'queued') {
+        toast({ title: "📴 Saved offline", description: "Changes will sync when you're back online.", duration: 3000 });
+      } else {
+        if (remark) setRemarkLog((entries) => [...entries, remark]);
+        toast({ title: "✅ Lead updated successfully!", description: "Changes have been saved.", duration: 3000 });
+      }
       // Ask parent to force refresh so the updated lead reflects immediately
       onUpdate();
-      onClose();
-    } catch (error: any) {
-      toast({ variant: "destructive", title: "❌ Failed to update lead", description: error.message || "Unknown error occurred.", duration: 5000 });
-    } finally {
-      setSaving(false);
-    }
-  };
+      onClose();
+    } catch (error: unknown) {
+      if (error instanceof LeadConflictError) {
+        setConflict({ error, pending: dataToSave, remark });
+        toast({ variant: "destructive", title: "⚠️ Edit conflict", description: "Another user changed this lead. Review the differences.", duration: 5000 });
+      } else {
+        toast({ variant: "destructive", title: "❌ Failed to update lead", description: errorMessage(error) || "Unknown error occurred.", duration: 5000 });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResolveConflict = async (resolved: Partial<SheetLead>) => {
+    if (!conflict) return;
+    const { error, pending, remark } = conflict;
+    setConflict(null);
+    // Rebase only the resolved fields onto the sheet's current values; everything
+    // else keeps the original baseline so their untouched changes still win
+    const rebased: SheetLead = { ...lead };
+    for (const c of error.conflicts) {
+      setLeadField(rebased, c.field, error.remote[c.field]);
+    }
+    const updates = { ...pending, ...resolved };
+    // Keeping their Remarks means this user's remark was never saved
+    await persist(updates, rebased, remark && updates.remarks === remark.text ? remark : undefined);
+  };
+
+  const handleArchive = async () => {
+    try {
+      setSaving(true);
+      const repository = await getLeadRepository();
+      await repository.archive(lead);
+      toast({ title: "📦 Lead archived", description: `${lead.travellerName} can be restored from the archive.`, duration: 3000 });
+      onUpdate();
+      onClose();
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "❌ Failed to archive lead", description: errorMessage(error) || "Unknown error occurred.", duration: 5000 });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDiscardConflict = () => {
+    setConflict(null);
+    onUpdate();
+    onClose();
+  };
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
@@ -185,7 +245,10 @@ const LeadDetailsDialog = ({ lead, open, onClose, onUpdate, onImmediateUpdate }:
 
           <div className="space-y-2">
             <Label>Traveller Name</Label>
-            <Input value={formData.travellerName} readOnly className="bg-muted" />
+            <Input
+              value={formData.travellerName}
+              onChange={(e) => setFormData({ ...formData, travellerName: e.target.value })}
+            />
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -228,13 +291,13 @@ const LeadDetailsDialog = ({ lead, open, onClose, onUpdate, onImmediateUpdate }:
             <div className="space-y-2">
               <Label>
                 Travel Date
-                <span className="text-xs text-muted-foreground ml-2">(dd/mm/yyyy)</span>
+                <span className="text-xs text-muted-foreground ml-2">({dateFormat})</span>
               </Label>
               <div className="flex gap-2">
                 <Input
                   type="text"
-                  placeholder="DD/MM/YYYY (e.g., 25/10/2025)"
-                  value={formData.travelDate}
+                  placeholder={dateFormat}
+                  value={travelDateText}
                   onChange={e => handleDateChange(e.target.value)}
                   className={dateError ? 'border-red-500' : ''}
                   autoComplete="off"
@@ -252,15 +315,15 @@ const LeadDetailsDialog = ({ lead, open, onClose, onUpdate, onImmediateUpdate }:
               {calendarOpen && (
                 <Calendar
                   mode="single"
-                  selected={parseAnyDate(formData.travelDate) || undefined}
+                  selected={isoToDate(formData.travelDate) || undefined}
                   onSelect={handleCalendarChange}
                   className="mt-2"
-                  onClickOutside={() => setCalendarOpen(false)}
                 />
               )}
               {dateError && <p className="text-xs text-red-500">{dateError}</p>}
-              {!dateError && formData.travelDate && (
-                <p className="text-xs text-green-600">✓ {prettyDateDisplay(formData.travelDate)}</p>
+              {!dateError && dateWarning && <p className="text-xs text-orange-600">⚠️ {dateWarning}</p>}
+              {!dateError && !dateWarning && formData.travelDate && (
+                <p className="text-xs text-green-600">✓ {formatDisplayDate(formData.travelDate)}</p>
               )}
             </div>
             <div className="space-y-2">
@@ -333,36 +396,28 @@ const LeadDetailsDialog = ({ lead, open, onClose, onUpdate, onImmediateUpdate }:
             />
           </div>
 
-          {formData.notes && (
-            <div className="space-y-2">
-              <Label>Cell Notes (Column K)</Label>
-              <div className="border rounded-lg p-3 bg-blue-50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-800">
-                <p className="text-sm whitespace-pre-wrap">{formData.notes}</p>
-              </div>
-            </div>
-          )}
+          <LeadFieldSections
+            values={formData}
+            onChange={(key, value) => setFormData({ ...formData, [key]: value })}
+            mode="edit"
+          />
 
-          {!formData.notes && (
-            <div className="space-y-2">
-              <Label>Cell Notes (Column K)</Label>
-              <div className="border rounded-lg p-3 bg-muted/50 border-dashed">
-                <p className="text-sm text-muted-foreground">No notes found for this lead</p>
-              </div>
-            </div>
-          )}
+          <div className="space-y-2">
+            <Label>Cell Notes</Label>
+            <Textarea
+              value={formData.notes || ""}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="No notes for this lead"
+              rows={3}
+              className="bg-blue-50 dark:bg-blue-950/30 border-blue-200 dark:border-blue-800"
+            />
+          </div>
 
-          {formData.remarkHistory && formData.remarkHistory.length > 0 && (
-            <div className="space-y-2">
-              <Label>Remark History</Label>
-              <div className="border rounded-lg p-3 bg-muted/50 space-y-2 max-h-40 overflow-y-auto">
-                {formData.remarkHistory.map((remark, index) => (
-                  <div key={index} className="text-sm text-muted-foreground">
-                    • {remark}
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
+          <RemarkTimeline
+            entries={remarkLog}
+            legacy={formData.remarkHistory || []}
+            loading={loadingRemarks}
+          />
 
           <div className="border-t pt-4">
             <Button
@@ -377,6 +432,12 @@ const LeadDetailsDialog = ({ lead, open, onClose, onUpdate, onImmediateUpdate }:
           </div>
 
           <div className="flex justify-end gap-2 pt-2">
+            {isAdmin && (
+              <Button variant="ghost" className="mr-auto gap-2 text-destructive" onClick={() => setConfirmArchive(true)} disabled={saving}>
+                <Archive className="h-4 w-4" />
+                Archive
+              </Button>
+            )}
             <Button variant="outline" onClick={onClose}>
               Cancel
             </Button>
@@ -395,6 +456,28 @@ const LeadDetailsDialog = ({ lead, open, onClose, onUpdate, onImmediateUpdate }:
           onReminderSet={reminder => { console.log('Reminder set:', reminder); }}
         />
       )}
+      <AlertDialog open={confirmArchive} onOpenChange={setConfirmArchive}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Archive {lead.travellerName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The lead is moved out of the lead list into the archive, where it can be found and restored.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleArchive}>Archive</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      {conflict && (
+        <LeadConflictDialog
+          open={!!conflict}
+          conflicts={conflict.error.conflicts}
+          onResolve={handleResolveConflict}
+          onCancel={handleDiscardConflict}
+        />
+      )}
     </Dialog>
   );
 };
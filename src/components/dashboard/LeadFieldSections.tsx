@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { SheetLead } from "@/lib/googleSheets";
+import { secureStorage } from "@/lib/secureStorage";
+import { EXTENDED_LEAD_FIELDS, LEAD_FIELD_GROUPS, normalizeColumnMappings } from "@/lib/columnMapping";
+
+interface LeadFieldSectionsProps {
+  values: Partial<SheetLead>;
+  onChange: (key: keyof SheetLead, value: string) => void;
+  /** Automation columns are filled by other tools, so they are hidden when creating a lead */
+  mode: 'edit' | 'create';
+}
+
+/** Extended MASTER DATA columns, grouped; fields whose column isn't mapped are hidden */
+const LeadFieldSections = ({ values, onChange, mode }: LeadFieldSectionsProps) => {
+  const [mapped, setMapped] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    secureStorage.getCredentials().then((credentials) => {
+      setMapped(new Set(Object.keys(normalizeColumnMappings(credentials?.columnMappings || {}))));
+    });
+  }, []);
+
+  const sections = LEAD_FIELD_GROUPS
+    .filter(({ group }) => mode === 'edit' || group !== 'automation')
+    .map(({ group, title }) => ({
+      group,
+      title,
+      // Read-only automation fields are only worth showing once a tool has filled them
+      fields: EXTENDED_LEAD_FIELDS.filter(
+        (f) => f.group === group && mapped.has(f.key) && (group !== 'automation' || values[f.key as keyof SheetLead])
+      ),
+    }))
+    .filter((section) => section.fields.length > 0);
+
+  if (sections.length === 0) return null;
+
+  return (
+    <>
+      {sections.map(({ group, title, fields }) => {
+        const readOnly = group === 'automation';
+        return (
+          <div key={group} className="border-t pt-4 space-y-3">
+            <h3 className="text-sm font-semibold">{title}</h3>
+            <div className="grid grid-cols-2 gap-4">
+              {fields.map((field) => {
+                const key = field.key as keyof SheetLead;
+                const value = String(values[key] ?? '');
+                return (
+                  <div key={field.key} className={`space-y-2 ${field.multiline ? 'col-span-2' : ''}`}>
+                    <Label>{field.label}</Label>
+                    {field.multiline ? (
+                      <Textarea
+                        value={value}
+                        onChange={(e) => onChange(key, e.target.value)}
+                        readOnly={readOnly}
+                        className={readOnly ? 'bg-muted' : ''}
+                        rows={readOnly ? 4 : 3}
+                      />
+                    ) : (
+                      <Input
+                        value={value}
+                        onChange={(e) => onChange(key, e.target.value)}
+                        readOnly={readOnly}
+                        className={readOnly ? 'bg-muted' : ''}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default LeadFieldSections;
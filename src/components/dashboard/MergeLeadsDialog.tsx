@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeftRight, GitMerge } from "lucide-react";
+import { LeadConflictError, SheetLead, setLeadField } from "@/lib/googleSheets";
+import { getLeadRepository } from "@/lib/leadRepository";
+import { outboxService } from "@/lib/outboxService";
+import { LEAD_FIELDS } from "@/lib/columnMapping";
+import { combineText } from "@/lib/duplicates";
+import { formatDisplayDate } from "@/lib/dates";
+import { errorMessage } from "@/lib/utils";
+
+interface MergeLeadsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Kept by default */
+  first: SheetLead;
+  second: Partial<SheetLead>;
+  /** `second` is an unsaved lead from AddLeadDialog: it can't be kept and there is nothing to archive */
+  secondIsDraft?: boolean;
+  onMerged: () => void;
+}
+
+// Identity and bookkeeping columns are never copied between leads
+const SKIPPED_FIELDS = ['tripId', 'uniqueKey', 'dateAndTime', 'timeStamp', 'remarkHistory', 'remarks', 'notes'];
+const MERGE_FIELDS = LEAD_FIELDS.filter((f) => !SKIPPED_FIELDS.includes(f.key));
+
+const text = (lead: Partial<SheetLead>, key: string) => String(lead[key as keyof SheetLead] ?? '').trim();
+
+/** Combine two leads: pick each differing field, concatenate remarks and notes, archive the other lead */
+const MergeLeadsDialog = ({ open, onClose, first, second, secondIsDraft = false, onMerged }: MergeLeadsDialogProps) => {
+  const [keepFirst, setKeepFirst] = useState(true);
+  const kept = (keepFirst ? first : second) as SheetLead;
+  const other = keepFirst ? second : first;
+
+  const differing = useMemo(
+    () => MERGE_FIELDS.filter((f) => text(other, f.key) && text(kept, f.key) !== text(other, f.key)),
+    [kept, other]
+  );
+
+  // Field key -> 'kept' | 'other'; empty fields on the kept lead default to the other lead's value
+  const [choices, setChoices] = useState<Record<string, 'kept' | 'other'>>({});
+  const [remarks, setRemarks] = useState("");
+  const [notes, setNotes] = useState("");
+  const [merging, setMerging] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setChoices(Object.fromEntries(differing.map((f) => [f.key, text(kept, f.key) ? 'kept' : 'other'])));
+    setRemarks(combineText(kept.remarks, other.remarks));
+    setNotes(combineText(kept.notes, other.notes));
+  }, [differing, kept, other]);
+
+  const display = (key: string, value: string) =>
+    key === 'travelDate' || key === 'eventDate' ? formatDisplayDate(value) : value;
+
+  const handleMerge = async () => {
+    const updates: Partial<SheetLead> = {};
+    for (const field of differing) {
+      const key = field.key as keyof SheetLead;
+      if (choices[field.key] === 'other') setLeadField(updates, key, other[key]);
+    }
+    if (remarks !== (kept.remarks || '')) updates.remarks = remarks;
+    if (notes !== (kept.notes || '')) updates.notes = notes;
+
+    setMerging(true);
+    try {
+      if (Object.keys(updates).length > 0) {
+        const result = await outboxService.execute(
+          { kind: 'update', lead: kept, updates, baseline: kept },
+          `Merge into ${kept.travellerName || 'lead'}`
+        );
+        // Archiving now could lose the duplicate's details if the queued update never lands
+        if (result === 'queued') {
+          toast({
+            title: "📴 Merge saved offline",
+            description: secondIsDraft
+              ? `Details for ${kept.travellerName} will sync when you're back online.`
+              : `${kept.travellerName} will be updated when you're back online. Merge again afterwards to archive ${other.travellerName || 'the duplicate'}.`,
+            duration: 6000,
+          });
+          onMerged();
+          onClose();
+          return;
+        }
+      }
+
+      if (!secondIsDraft) {
+        try {
+          const repository = await getLeadRepository();
+          await repository.archive(other as SheetLead);
+        } catch (error: unknown) {
+          toast({
+            variant: "destructive",
+            title: "⚠️ Merged, but the duplicate was not archived",
+            description: errorMessage(error),
+            duration: 6000,
+          });
+          onMerged();
+          onClose();
+          return;
+        }
+      }
+
+      toast({
+        title: "✅ Leads merged",
+        description: secondIsDraft
+          ? `New details added to ${kept.travellerName}.`
+          : `${other.travellerName || 'Duplicate'} archived, ${kept.travellerName} kept.`,
+      });
+      onMerged();
+      onClose();
+    } catch (error: unknown) {
+      toast({
+        variant: "destructive",
+        title: "❌ Merge failed",
+        description: error instanceof LeadConflictError
+          ? `${kept.travellerName} was changed by someone else. Refresh and try again.`
+          : errorMessage(error),
+        duration: 5000,
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5 text-primary" />
+            Merge Leads
+          </DialogTitle>
+          <DialogDescription>
+            Keeping <span className="font-medium">{kept.travellerName}</span>
+            {kept.tripId ? ` (${kept.tripId})` : ''}.
+            {secondIsDraft ? ' The new lead will not be added.' : ` ${other.travellerName || 'The other lead'} will be archived.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!secondIsDraft && (
+          <Button variant="outline" size="sm" className="gap-2 w-fit" onClick={() => setKeepFirst(!keepFirst)}>
+            <ArrowLeftRight className="h-4 w-4" />
+            Keep {other.travellerName || 'the other lead'} instead
+          </Button>
+        )}
+
+        <div className="space-y-3">
+          {differing.length === 0 && (
+            <p className="text-sm text-muted-foreground">No conflicting fields: only remarks and notes are combined.</p>
+          )}
+          {differing.map((field) => (
+            <div key={field.key} className="space-y-1 border rounded-md p-2">
+              <Label className="text-xs">{field.label}</Label>
+              <RadioGroup
+                value={choices[field.key] || 'kept'}
+                onValueChange={(value) => setChoices({ ...choices, [field.key]: value as 'kept' | 'other' })}
+                className="grid grid-cols-2 gap-2"
+              >
+                {(['kept', 'other'] as const).map((side) => {
+                  const value = text(side === 'kept' ? kept : other, field.key);
+                  return (
+                    <label key={side} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <RadioGroupItem value={side} className="mt-0.5" />
+                      <span className={value ? 'break-words' : 'text-muted-foreground italic'}>
+                        {value ? display(field.key, value) : 'empty'}
+                      </span>
+                    </label>
+                  );
+                })}
+              </RadioGroup>
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <Label className="text-xs">Remarks (combined)</Label>
+            <Textarea value={remarks} onChange={(e) => setRemarks(e.target.value)} rows={4} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Cell Notes (combined)</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose} disabled={merging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={merging} className="gap-2">
+            <GitMerge className="h-4 w-4" />
+            {merging ? "Merging..." : "Merge"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MergeLeadsDialog;
@@ -0,0 +1,57 @@
+import { Label } from "@/components/ui/label";
+import { MessageSquare } from "lucide-react";
+import { RemarkEntry } from "@/lib/remarkLog";
+
+interface RemarkTimelineProps {
+  entries: RemarkEntry[];
+  /** Entries from the old semicolon-separated Remark History column (no author or time) */
+  legacy: string[];
+  loading?: boolean;
+}
+
+const formatTimestamp = (iso: string) => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  return date.toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+/** Newest-first timeline of a lead's remark log */
+const RemarkTimeline = ({ entries, legacy, loading }: RemarkTimelineProps) => {
+  const earlier = legacy.map((r) => r.trim()).filter(Boolean);
+  if (!loading && entries.length === 0 && earlier.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Label>Remark History</Label>
+      <div className="border rounded-lg p-3 bg-muted/50 max-h-60 overflow-y-auto">
+        {loading && entries.length === 0 && (
+          <p className="text-sm text-muted-foreground">Loading remarks...</p>
+        )}
+        <ol className="relative border-l border-border ml-2 space-y-3">
+          {[...entries].reverse().map((entry) => (
+            <li key={entry.id || entry.createdAt} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+              <div className="flex flex-wrap items-baseline gap-x-2 text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{entry.author || 'Unknown'}</span>
+                <span>{formatTimestamp(entry.createdAt)}</span>
+              </div>
+              <p className="text-sm whitespace-pre-wrap break-words">{entry.text}</p>
+            </li>
+          ))}
+          {earlier.map((remark, index) => (
+            <li key={`legacy-${index}`} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-muted-foreground/40" />
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <MessageSquare className="h-3 w-3" />
+                Earlier remark
+              </div>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{remark}</p>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default RemarkTimeline;
@@ -0,0 +1,118 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle } from "lucide-react";
+import { SyncConflict } from "@/lib/syncEngine";
+import { SupabaseSyncStore, createSupabaseSyncEngine } from "@/lib/supabaseSyncStore";
+import { errorMessage } from "@/lib/utils";
+
+interface SyncConflictsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onResolved?: () => void;
+}
+
+const fieldLabel = (field: string) =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
+
+/** Admin review of fields that were edited in both the sheet and the database */
+const SyncConflictsDialog = ({ open, onClose, onResolved }: SyncConflictsDialogProps) => {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadConflicts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setConflicts(await new SupabaseSyncStore().listConflicts());
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Failed to load conflicts", description: errorMessage(error) });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) loadConflicts();
+  }, [open, loadConflicts]);
+
+  const handleResolve = async (conflict: SyncConflict, resolution: 'sheet' | 'database') => {
+    setResolvingId(conflict.id);
+    try {
+      const engine = await createSupabaseSyncEngine();
+      await engine.resolveConflict(conflict, resolution);
+      setConflicts((prev) => prev.filter((c) => c.id !== conflict.id));
+      toast({
+        title: "Conflict resolved",
+        description: `${conflict.travellerName || conflict.leadKey}: kept the ${resolution === 'sheet' ? 'sheet' : 'database'} value`,
+      });
+      onResolved?.();
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Failed to resolve conflict", description: errorMessage(error) });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Sync Conflicts
+          </DialogTitle>
+          <DialogDescription>
+            These fields changed in both Google Sheets and the database since the last sync.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+        ) : conflicts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No open conflicts</p>
+        ) : (
+          <div className="space-y-3">
+            {conflicts.map((c) => (
+              <div key={c.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-semibold text-sm truncate">
+                    {c.travellerName || c.leadKey} · {fieldLabel(c.field)}
+                  </p>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {c.detectedAt ? new Date(c.detectedAt).toLocaleString() : ''}
+                  </span>
+                </div>
+                {c.baseValue && (
+                  <p className="text-xs text-muted-foreground truncate">Last synced: {c.baseValue}</p>
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                  <div className="rounded-md p-2 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-800">
+                    <p className="text-xs text-muted-foreground mb-1">Google Sheets</p>
+                    <p className="whitespace-pre-wrap break-words">{c.sheetValue || <em className="text-muted-foreground">empty</em>}</p>
+                  </div>
+                  <div className="rounded-md p-2 bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800">
+                    <p className="text-xs text-muted-foreground mb-1">Database</p>
+                    <p className="whitespace-pre-wrap break-words">{c.dbValue || <em className="text-muted-foreground">empty</em>}</p>
+                  </div>
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button size="sm" variant="outline" disabled={resolvingId === c.id} onClick={() => handleResolve(c, 'sheet')}>
+                    Keep sheet value
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={resolvingId === c.id} onClick={() => handleResolve(c, 'database')}>
+                    Keep database value
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncConflictsDialog;
@@ -6,6 +6,7 @@ import { useState } from "react";
 import { MessageCircle, Send } from "lucide-react";
 import { whatsappTemplates, formatTemplate, type WhatsAppTemplate } from "@/lib/whatsappTemplates";
 import { SheetLead } from "@/lib/googleSheets";
+import { formatDisplayDate } from "@/lib/dates";
 import { authService } from "@/lib/authService";
 
 interface WhatsAppTemplateDialogProps {
@@ -28,7 +29,7 @@ const WhatsAppTemplateDialog = ({ open, onClose, lead }: WhatsAppTemplateDialogP
     hotelCategory: lead.hotelCategory,
     mealPlan: lead.mealPlan,
     tripId: lead.tripId,
-    travelDate: lead.travelDate ? new Date(lead.travelDate).toLocaleDateString() : '',
+    travelDate: formatDisplayDate(lead.travelDate),
   });
 
   const handleTemplateSelect = (template: WhatsAppTemplate) => {
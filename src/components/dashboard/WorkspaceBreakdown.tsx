@@ -0,0 +1,73 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SheetLead } from "@/lib/googleSheets";
+import { Workspace } from "@/lib/workspaces";
+import { isBookedStatus, isWorkingCategoryStatus } from "@/lib/leadStatus";
+
+export interface WorkspaceLeads {
+  workspace: Workspace;
+  leads: SheetLead[];
+  /** Set when the workspace's sheet couldn't be read */
+  error?: string;
+}
+
+interface WorkspaceBreakdownProps {
+  workspaces: WorkspaceLeads[];
+}
+
+/** Per-workspace lead counts shown under the aggregated admin analytics */
+const WorkspaceBreakdown = ({ workspaces }: WorkspaceBreakdownProps) => {
+  const rows = workspaces.map(({ workspace, leads, error }) => {
+    const booked = leads.filter((lead) => isBookedStatus(lead.status)).length;
+    return {
+      workspace,
+      error,
+      total: leads.length,
+      working: leads.filter((lead) => isWorkingCategoryStatus(lead.status)).length,
+      booked,
+      conversion: leads.length > 0 ? ((booked / leads.length) * 100).toFixed(1) : '0',
+    };
+  });
+
+  return (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <CardTitle className="text-base sm:text-lg">By Workspace</CardTitle>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Workspace</TableHead>
+              <TableHead className="text-right">Leads</TableHead>
+              <TableHead className="text-right">Working</TableHead>
+              <TableHead className="text-right">Booked</TableHead>
+              <TableHead className="text-right">Conversion</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.workspace.id}>
+                <TableCell className="font-medium">{row.workspace.name}</TableCell>
+                {row.error ? (
+                  <TableCell colSpan={4} className="text-right text-xs text-destructive">
+                    {row.error}
+                  </TableCell>
+                ) : (
+                  <>
+                    <TableCell className="text-right">{row.total}</TableCell>
+                    <TableCell className="text-right">{row.working}</TableCell>
+                    <TableCell className="text-right">{row.booked}</TableCell>
+                    <TableCell className="text-right">{row.conversion}%</TableCell>
+                  </>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkspaceBreakdown;
@@ -26,10 +26,13 @@ export const localSecrets = {
   // Worksheet names in your Google Sheet
   worksheetNames: ["MASTER DATA", "BACKEND SHEET"],
   
+  // Day/month order of numeric dates in the sheet: "mdy" (mm/dd/yyyy) or "dmy" (dd/mm/yyyy)
+  sheetLocale: "mdy" as "mdy" | "dmy",
+  
   // Column mappings for MASTER DATA (exactly match SheetLead fields)
   columnMappings: {
     tripId: "A",
-    date: "B",
+    dateAndTime: "B",
     consultant: "C",
     status: "D",
     travellerName: "E",
@@ -1,4 +1,5 @@
 import { secureStorage } from '@/lib/secureStorage';
+import { hashPassword, isPasswordHash, verifyPassword } from '@/lib/passwordHash';
 
 export type LocalRole = 'admin' | 'consultant';
 
@@ -8,104 +9,21 @@ export interface LocalUser {
   email: string;
   phone: string;
   role: LocalRole;
+  /** PBKDF2 hash (see passwordHash.ts); plaintext only until the migration has run */
   password: string;
 }
 
 const STORAGE_KEY = 'LOCAL_USERS_V1';
 
-// Seed users based on provided names, emails, phones, roles, and default password
-const DEFAULT_LOCAL_USERS: LocalUser[] = [
-  {
-    id: btoa('akash@local'),
-    name: 'Akash Nayal',
-    email: 'info@ticketstotrip.com',
-    phone: '8979503010',
-    role: 'admin',
-    password: '123456',
-  },
-  {
-    id: btoa('bimal@local'),
-    name: 'Bimal Bhatt',
-    email: 'bimal@ticketstotrip.com',
-    phone: '7505217017',
-    role: 'admin',
-    password: '123456',
-  },
-  {
-    id: btoa('esha@local'),
-    name: 'Esha Pundir',
-    email: 'outbound@ticketstotrip.com',
-    phone: '8630969347',
-    role: 'consultant',
-    password: '123456',
-  },
-  {
-    id: btoa('kajal@local'),
-    name: 'Kajal Ramola',
-    email: 'hello@ticketstotrip.com',
-    phone: '6397089404',
-    role: 'consultant',
-    password: '123456',
-  },
-  {
-    id: btoa('kushagra@local'),
-    name: 'Kushagra Painuli',
-    email: 'connect@ticketstotrip.com',
-    phone: '8178798726',
-    role: 'consultant',
-    password: '123456',
-  },
-  {
-    id: btoa('nitu@local'),
-    name: 'Nitu Rajpoot',
-    email: 'tripexpert@ticketstotrip.com',
-    phone: '9368852651',
-    role: 'consultant',
-    password: '123456',
-  },
-  {
-    id: btoa('pankaj@local'),
-    name: 'Pankaj Pandey',
-    email: 'ticketstotrip.com@gmail.com',
-    phone: '9999274355',
-    role: 'admin',
-    password: '123456',
-  },
-  {
-    id: btoa('himanshu@local'),
-    name: 'Himanshu Dogra',
-    email: 'bimalticketstotrip.com@gmail.com',
-    phone: '9211318050',
-    role: 'consultant',
-    password: '123456',
-  },
-  {
-    id: btoa('naveen@local'),
-    name: 'Naveen Rawat',
-    email: 'corporate@ticketstotrip.com',
-    phone: '9258311277',
-    role: 'consultant',
-    password: '123456',
-  },
-  {
-    id: btoa('trisha@local'),
-    name: 'Trisha',
-    email: 'trisha@ticketstotrip.com',
-    phone: '9999274355',
-    role: 'consultant',
-    password: '123456',
-  },
-];
-
 export async function getLocalUsers(): Promise<LocalUser[]> {
   try {
     const stored = await secureStorage.get(STORAGE_KEY);
-    if (!stored) return DEFAULT_LOCAL_USERS;
+    if (!stored) return [];
     const parsed = JSON.parse(stored);
-    if (!Array.isArray(parsed)) return DEFAULT_LOCAL_USERS;
+    if (!Array.isArray(parsed)) return [];
     return parsed;
   } catch {
-    return DEFAULT_LOCAL_USERS;
+    return [];
   }
 }
 
@@ -113,10 +31,31 @@ export async function saveLocalUsers(users: LocalUser[]): Promise<void> {
   await secureStorage.set(STORAGE_KEY, JSON.stringify(users));
 }
 
+/** One-time migration: hash any plaintext passwords in LOCAL_USERS_V1. Returns how many were hashed. */
+export async function migrateLocalUserPasswords(): Promise<number> {
+  const plaintext = (await getLocalUsers()).filter(u => u.password && !isPasswordHash(u.password));
+  if (plaintext.length === 0) return 0;
+
+  const hashes = new Map<string, { plain: string; hash: string }>();
+  for (const u of plaintext) {
+    hashes.set(u.id, { plain: u.password, hash: await hashPassword(u.password) });
+  }
+  // Re-read so users added or edited while hashing are kept
+  const users = await getLocalUsers();
+  const next = users.map(u => {
+    const entry = hashes.get(u.id);
+    return entry && u.password === entry.plain ? { ...u, password: entry.hash } : u;
+  });
+  await saveLocalUsers(next);
+  console.log(`🔐 Hashed ${hashes.size} local user password(s)`);
+  return hashes.size;
+}
+
+/** `user.password` is the plaintext password; only its hash is stored */
 export async function addLocalUser(user: Omit<LocalUser, 'id'>): Promise<LocalUser> {
   const users = await getLocalUsers();
   const idBase = user.email || user.phone || `${user.name}-${Date.now()}`;
-  const newUser: LocalUser = { ...user, id: btoa(idBase.toLowerCase()) };
+  const newUser: LocalUser = { ...user, id: btoa(idBase.toLowerCase()), password: await hashPassword(user.password) };
   const next = [...users, newUser];
   await saveLocalUsers(next);
   return newUser;
@@ -134,7 +73,11 @@ export async function updateLocalUserRole(id: string, role: LocalRole): Promise<
   await saveLocalUsers(next);
 }
 
+/** A plaintext `password` in `updated` is hashed before it is stored */
 export async function updateLocalUser(updated: Partial<LocalUser> & { id: string }): Promise<void> {
+  if (updated.password !== undefined && !isPasswordHash(updated.password)) {
+    updated = { ...updated, password: await hashPassword(updated.password) };
+  }
   const users = await getLocalUsers();
   const next = users.map(u => (u.id === updated.id ? { ...u, ...updated } : u));
   await saveLocalUsers(next);
@@ -143,8 +86,9 @@ export async function updateLocalUser(updated: Partial<LocalUser> & { id: string
 export async function findLocalUserByIdentifier(identifier: string, password: string): Promise<LocalUser | null> {
   const users = await getLocalUsers();
   const ident = String(identifier || '').trim().toLowerCase();
-  const user = users.find(u => (
-    u.email?.toLowerCase() === ident || u.phone === ident
-  ) && u.password === password);
-  return user || null;
+  const candidates = users.filter(u => u.email?.toLowerCase() === ident || u.phone === ident);
+  for (const user of candidates) {
+    if (await verifyPassword(password, user.password)) return user;
+  }
+  return null;
 }
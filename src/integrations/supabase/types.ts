@@ -0,0 +1,569 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "13.0.5"
+  }
+  public: {
+    Tables: {
+      activity_logs: {
+        Row: {
+          activity_type: string
+          call_status: string | null
+          consultant_id: string | null
+          created_at: string | null
+          duration_seconds: number | null
+          id: string
+          lead_id: string | null
+          notes: string | null
+        }
+        Insert: {
+          activity_type: string
+          call_status?: string | null
+          consultant_id?: string | null
+          created_at?: string | null
+          duration_seconds?: number | null
+          id?: string
+          lead_id?: string | null
+          notes?: string | null
+        }
+        Update: {
+          activity_type?: string
+          call_status?: string | null
+          consultant_id?: string | null
+          created_at?: string | null
+          duration_seconds?: number | null
+          id?: string
+          lead_id?: string | null
+          notes?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activity_logs_consultant_id_fkey"
+            columns: ["consultant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activity_logs_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["trip_id"]
+          },
+        ]
+      }
+      leads: {
+        Row: {
+          archived_at: string | null
+          consultant_id: string | null
+          consultant_name: string | null
+          created_at: string | null
+          date_time: string
+          details: Json
+          email_id: string | null
+          hotel_category: string | null
+          last_synced_at: string | null
+          lead_key: string
+          lead_status: string | null
+          meal_plan: string | null
+          nights: number | null
+          pax: number | null
+          phone_number: string | null
+          priority: string | null
+          remark_by_consultant: string | null
+          remark_history: Json | null
+          sync_snapshot: Json | null
+          sync_to_sheet: boolean | null
+          travel_date: string | null
+          travel_state: string | null
+          traveller_name: string
+          trip_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          consultant_id?: string | null
+          consultant_name?: string | null
+          created_at?: string | null
+          date_time: string
+          details?: Json
+          email_id?: string | null
+          hotel_category?: string | null
+          last_synced_at?: string | null
+          lead_key: string
+          lead_status?: string | null
+          meal_plan?: string | null
+          nights?: number | null
+          pax?: number | null
+          phone_number?: string | null
+          priority?: string | null
+          remark_by_consultant?: string | null
+          remark_history?: Json | null
+          sync_snapshot?: Json | null
+          sync_to_sheet?: boolean | null
+          travel_date?: string | null
+          travel_state?: string | null
+          traveller_name: string
+          trip_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          consultant_id?: string | null
+          consultant_name?: string | null
+          created_at?: string | null
+          date_time?: string
+          details?: Json
+          email_id?: string | null
+          hotel_category?: string | null
+          last_synced_at?: string | null
+          lead_key?: string
+          lead_status?: string | null
+          meal_plan?: string | null
+          nights?: number | null
+          pax?: number | null
+          phone_number?: string | null
+          priority?: string | null
+          remark_by_consultant?: string | null
+          remark_history?: Json | null
+          sync_snapshot?: Json | null
+          sync_to_sheet?: boolean | null
+          travel_date?: string | null
+          travel_state?: string | null
+          traveller_name?: string
+          trip_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leads_consultant_id_fkey"
+            columns: ["consultant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_read: boolean | null
+          message: string
+          related_lead_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          message: string
+          related_lead_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_read?: boolean | null
+          message?: string
+          related_lead_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          email: string
+          full_name: string | null
+          id: string
+          is_approved: boolean | null
+          password_hash: string | null
+          phone: string | null
+          role: Database["public"]["Enums"]["app_role"] | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          full_name?: string | null
+          id: string
+          is_approved?: boolean | null
+          password_hash?: string | null
+          phone?: string | null
+          role?: Database["public"]["Enums"]["app_role"] | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+          is_approved?: boolean | null
+          password_hash?: string | null
+          phone?: string | null
+          role?: Database["public"]["Enums"]["app_role"] | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      reminders: {
+        Row: {
+          consultant_id: string | null
+          created_at: string | null
+          id: string
+          is_completed: boolean | null
+          lead_id: string | null
+          message: string | null
+          reminder_date: string
+        }
+        Insert: {
+          consultant_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_completed?: boolean | null
+          lead_id?: string | null
+          message?: string | null
+          reminder_date: string
+        }
+        Update: {
+          consultant_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_completed?: boolean | null
+          lead_id?: string | null
+          message?: string | null
+          reminder_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminders_consultant_id_fkey"
+            columns: ["consultant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reminders_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["trip_id"]
+          },
+        ]
+      }
+      settings: {
+        Row: {
+          column_mappings: Json | null
+          google_service_account_json: string | null
+          google_sheet_api_key: string | null
+          google_sheet_url: string | null
+          id: string
+          logo_url: string | null
+          updated_at: string | null
+          worksheet_count: number | null
+          worksheet_names: Json | null
+        }
+        Insert: {
+          column_mappings?: Json | null
+          google_service_account_json?: string | null
+          google_sheet_api_key?: string | null
+          google_sheet_url?: string | null
+          id?: string
+          logo_url?: string | null
+          updated_at?: string | null
+          worksheet_count?: number | null
+          worksheet_names?: Json | null
+        }
+        Update: {
+          column_mappings?: Json | null
+          google_service_account_json?: string | null
+          google_sheet_api_key?: string | null
+          google_sheet_url?: string | null
+          id?: string
+          logo_url?: string | null
+          updated_at?: string | null
+          worksheet_count?: number | null
+          worksheet_names?: Json | null
+        }
+        Relationships: []
+      }
+      sync_conflicts: {
+        Row: {
+          base_value: string | null
+          db_value: string | null
+          detected_at: string | null
+          field: string
+          id: string
+          lead_key: string
+          resolution: string | null
+          resolved_at: string | null
+          sheet_value: string | null
+          traveller_name: string | null
+        }
+        Insert: {
+          base_value?: string | null
+          db_value?: string | null
+          detected_at?: string | null
+          field: string
+          id?: string
+          lead_key: string
+          resolution?: string | null
+          resolved_at?: string | null
+          sheet_value?: string | null
+          traveller_name?: string | null
+        }
+        Update: {
+          base_value?: string | null
+          db_value?: string | null
+          detected_at?: string | null
+          field?: string
+          id?: string
+          lead_key?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          sheet_value?: string | null
+          traveller_name?: string | null
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_sessions: {
+        Row: {
+          created_at: string | null
+          expires_at: string
+          id: string
+          session_token: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at: string
+          id?: string
+          session_token: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          session_token?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_sessions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_user_approved: { Args: { _user_id: string }; Returns: boolean }
+    }
+    Enums: {
+      app_role: "admin" | "consultant"
+      hotel_category: "budget" | "standard" | "premium" | "luxury"
+      lead_priority: "high" | "medium" | "low"
+      lead_status:
+        | "new"
+        | "contacted"
+        | "qualified"
+        | "proposal_sent"
+        | "negotiation"
+        | "won"
+        | "lost"
+        | "unfollowed"
+        | "follow_up_calls"
+        | "working_on_it"
+        | "proposal_1_shared"
+        | "proposal_2_shared"
+        | "proposal_3_shared"
+        | "negotiations"
+        | "hot_leads"
+        | "booked_with_us"
+        | "cancellations"
+        | "postponed"
+        | "booked_outside"
+        | "pamplets_shared"
+        | "follow_up_calls_1"
+        | "follow_up_calls_2"
+        | "follow_up_calls_3"
+        | "follow_up_calls_4"
+        | "follow_up_calls_5"
+        | "whatsapp_sent"
+      meal_plan: "ep" | "cp" | "map" | "ap"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      app_role: ["admin", "consultant"],
+      hotel_category: ["budget", "standard", "premium", "luxury"],
+      lead_priority: ["high", "medium", "low"],
+      lead_status: [
+        "new",
+        "contacted",
+        "qualified",
+        "proposal_sent",
+        "negotiation",
+        "won",
+        "lost",
+        "unfollowed",
+        "follow_up_calls",
+        "working_on_it",
+        "proposal_1_shared",
+        "proposal_2_shared",
+        "proposal_3_shared",
+        "negotiations",
+        "hot_leads",
+        "booked_with_us",
+        "cancellations",
+        "postponed",
+        "booked_outside",
+        "pamplets_shared",
+        "follow_up_calls_1",
+        "follow_up_calls_2",
+        "follow_up_calls_3",
+        "follow_up_calls_4",
+        "follow_up_calls_5",
+        "whatsapp_sent",
+      ],
+      meal_plan: ["ep", "cp", "map", "ap"],
+    },
+  },
+} as const
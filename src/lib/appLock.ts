@@ -0,0 +1,190 @@
+// App lock: a per-user PIN asked for on cold start and after time in the background
+import { secureStorage } from './secureStorage';
+import { authService } from './authService';
+import { stateManager } from './stateManager';
+import { workspaceService } from './workspaces';
+import { hashPassword, verifyPassword } from './passwordHash';
+import { createSheetsService } from './sheetsLeadRepository';
+import { APP_LOCK_SETTING } from './sharedSettings';
+
+export interface AppLockSettings {
+  /** Every signed-in user must set a PIN */
+  mandatory: boolean;
+  /** Lock again after this long in the background */
+  backgroundMinutes: number;
+}
+
+/**
+ * - `unlocked`: nothing to do
+ * - `locked`: the PIN must be entered
+ * - `setup`: the lock is mandatory and the user has no PIN yet
+ */
+export type AppLockState = 'unlocked' | 'locked' | 'setup';
+
+type Listener = (state: AppLockState) => void;
+
+/** Last policy read from the sheet, so it is enforced offline too */
+const SETTINGS_KEY = 'crm_app_lock_settings';
+const PIN_KEY_PREFIX = 'crm_app_lock_pin:';
+const FAILED_ATTEMPTS_KEY = 'crm_app_lock_failures';
+
+export const MAX_PIN_ATTEMPTS = 5;
+export const BACKGROUND_LOCK_OPTIONS = [0, 1, 5, 15, 30];
+const DEFAULT_SETTINGS: AppLockSettings = { mandatory: false, backgroundMinutes: 5 };
+
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+class AppLockService {
+  private settings: AppLockSettings = DEFAULT_SETTINGS;
+  private state: AppLockState = 'unlocked';
+  private failedAttempts = 0;
+  private hiddenAt: number | null = null;
+  private listeners = new Set<Listener>();
+
+  /** Run before anything renders, after authService has restored the session */
+  async initialize(): Promise<void> {
+    try {
+      const stored = await secureStorage.get(SETTINGS_KEY);
+      if (stored) this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    } catch (error) {
+      console.error('Failed to load app lock settings:', error);
+    }
+    this.failedAttempts = Number(await secureStorage.get(FAILED_ATTEMPTS_KEY)) || 0;
+    // Cold start
+    await this.refresh(true);
+    // An admin may have changed the policy on another device
+    this.syncSettings().then(() => this.refresh());
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.hiddenAt = Date.now();
+        return;
+      }
+      const away = this.hiddenAt === null ? 0 : Date.now() - this.hiddenAt;
+      this.hiddenAt = null;
+      if (away >= this.settings.backgroundMinutes * 60 * 1000) this.refresh(true);
+    });
+    // A session that expires while locked takes the lock screen with it
+    authService.onSessionEnded(() => this.refresh());
+  }
+
+  getState(): AppLockState {
+    return this.state;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSettings(): AppLockSettings {
+    return this.settings;
+  }
+
+  /** Save the policy to the sheet's SETTINGS worksheet so every device enforces it */
+  async saveSettings(settings: AppLockSettings): Promise<void> {
+    const credentials = await secureStorage.getCredentials();
+    if (!credentials) throw new Error('Connect the Google Sheet before changing the app lock policy');
+    await createSheetsService(credentials).saveSharedSetting(APP_LOCK_SETTING, JSON.stringify(settings));
+    await this.cacheSettings(settings);
+  }
+
+  /**
+   * Load the policy from the sheet. Run at startup and login; while the sheet
+   * can't be read, or no admin has saved a policy yet, the cached one stays.
+   */
+  async syncSettings(): Promise<void> {
+    try {
+      const credentials = await secureStorage.getCredentials();
+      if (!credentials) return;
+      const stored = (await createSheetsService(credentials).fetchSharedSettings()).get(APP_LOCK_SETTING);
+      if (stored) await this.cacheSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(stored) });
+    } catch (error) {
+      console.warn('⚠️ Could not load the app lock policy:', error);
+    }
+  }
+
+  private async cacheSettings(settings: AppLockSettings): Promise<void> {
+    this.settings = settings;
+    await secureStorage.set(SETTINGS_KEY, JSON.stringify(settings));
+  }
+
+  async hasPin(): Promise<boolean> {
+    const userId = authService.getSession()?.user.id;
+    return !!userId && !!(await secureStorage.get(PIN_KEY_PREFIX + userId));
+  }
+
+  /**
+   * Work out the lock state for the signed-in user. `lock` locks a user who
+   * has a PIN (cold start, back from the background); without it only a
+   * missing mandatory PIN is enforced, e.g. right after login.
+   */
+  async refresh(lock = false): Promise<AppLockState> {
+    let state: AppLockState = 'unlocked';
+    if (authService.getSession()) {
+      const hasPin = await this.hasPin();
+      if (!hasPin && this.settings.mandatory) state = 'setup';
+      else if (hasPin && (lock || this.state === 'locked')) state = 'locked';
+    }
+    this.setState(state);
+    return state;
+  }
+
+  async setPin(pin: string): Promise<void> {
+    const userId = authService.getSession()?.user.id;
+    if (!userId) throw new Error('Sign in to set a PIN');
+    if (!isValidPin(pin)) throw new Error('PIN must be 4 to 8 digits');
+    await secureStorage.set(PIN_KEY_PREFIX + userId, await hashPassword(pin));
+    if (this.state === 'setup') this.setState('unlocked');
+  }
+
+  async removePin(): Promise<void> {
+    if (this.settings.mandatory) throw new Error('An admin has made the app lock mandatory');
+    const userId = authService.getSession()?.user.id;
+    if (userId) await secureStorage.remove(PIN_KEY_PREFIX + userId);
+  }
+
+  /**
+   * Check the PIN. After MAX_PIN_ATTEMPTS wrong PINs in a row the user is
+   * logged out and cached leads are cleared; `loggedOut` is then set.
+   */
+  async unlock(pin: string): Promise<{ ok: boolean; attemptsLeft: number; loggedOut?: boolean }> {
+    const userId = authService.getSession()?.user.id;
+    const stored = userId ? await secureStorage.get(PIN_KEY_PREFIX + userId) : null;
+    if (stored && (await verifyPassword(pin, stored))) {
+      await this.setFailedAttempts(0);
+      this.setState('unlocked');
+      return { ok: true, attemptsLeft: MAX_PIN_ATTEMPTS };
+    }
+
+    await this.setFailedAttempts(this.failedAttempts + 1);
+    if (this.failedAttempts < MAX_PIN_ATTEMPTS) {
+      return { ok: false, attemptsLeft: MAX_PIN_ATTEMPTS - this.failedAttempts };
+    }
+    await this.forceLogout();
+    return { ok: false, attemptsLeft: 0, loggedOut: true };
+  }
+
+  /** Full logout: session and every workspace's cached leads */
+  async forceLogout(): Promise<void> {
+    console.log('🔒 App lock logout, clearing cached leads');
+    workspaceService.list().forEach((workspace) => stateManager.forgetWorkspace(workspace.id));
+    stateManager.clearAll();
+    await authService.logout();
+    await this.setFailedAttempts(0);
+    this.setState('unlocked');
+  }
+
+  private async setFailedAttempts(count: number): Promise<void> {
+    this.failedAttempts = count;
+    await secureStorage.set(FAILED_ATTEMPTS_KEY, String(count));
+  }
+
+  private setState(state: AppLockState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+export const appLockService = new AppLockService();
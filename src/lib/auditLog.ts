@@ -0,0 +1,89 @@
+// Field-level audit trail: one entry per changed lead field, with who, where and when
+import { Capacitor } from '@capacitor/core';
+import type { AuthUser } from './authService';
+
+export interface AuditEntry {
+  /** ISO timestamp */
+  timestamp: string;
+  leadId: string;
+  leadName: string;
+  /** SheetLead key, or a lifecycle marker such as "created" */
+  field: string;
+  oldValue: string;
+  newValue: string;
+  user: string;
+  userEmail: string;
+  device: string;
+}
+
+export interface AuditChange {
+  field: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+/** Header row of the AUDIT worksheet */
+export const AUDIT_HEADERS = ['Timestamp', 'Lead ID', 'Traveller', 'Field', 'Old Value', 'New Value', 'User', 'Email', 'Device'];
+
+export const DEFAULT_AUDIT_WORKSHEET = 'AUDIT';
+
+let actorProvider: () => AuthUser | null = () => null;
+
+/** Registered by authService so lower layers can attribute changes without importing it */
+export function setAuditActorProvider(provider: () => AuthUser | null): void {
+  actorProvider = provider;
+}
+
+/** "android (Pixel 7)", "ios" or "web" */
+export function deviceLabel(): string {
+  const platform = Capacitor.getPlatform();
+  const model = typeof navigator !== 'undefined'
+    ? navigator.userAgent.match(/Android [\d.]+; ([^;)]+?)(?: Build|\))/)?.[1]
+    : undefined;
+  return model ? `${platform} (${model})` : platform;
+}
+
+/** Stamp changes with the signed-in user, this device and the current time */
+export function createAuditEntries(lead: { leadId: string; leadName?: string }, changes: AuditChange[]): AuditEntry[] {
+  const user = actorProvider();
+  const timestamp = new Date().toISOString();
+  const device = deviceLabel();
+  return changes.map((change) => ({
+    timestamp,
+    leadId: lead.leadId,
+    leadName: lead.leadName || '',
+    field: change.field,
+    oldValue: auditValue(change.oldValue),
+    newValue: auditValue(change.newValue),
+    user: user?.name || 'Unknown',
+    userEmail: user?.email || '',
+    device,
+  }));
+}
+
+function auditValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return Array.isArray(value) ? value.join('; ') : String(value);
+}
+
+export function auditToRow(entry: AuditEntry): string[] {
+  return [
+    entry.timestamp, entry.leadId, entry.leadName, entry.field, entry.oldValue,
+    entry.newValue, entry.user, entry.userEmail, entry.device,
+  ];
+}
+
+export function auditFromRow(row: unknown[]): AuditEntry {
+  const cell = (i: number) => String(row[i] ?? '');
+  return {
+    timestamp: cell(0).trim(),
+    leadId: cell(1).trim(),
+    leadName: cell(2),
+    field: cell(3).trim(),
+    oldValue: cell(4),
+    newValue: cell(5),
+    user: cell(6),
+    userEmail: cell(7).trim(),
+    device: cell(8),
+  };
+}
@@ -1,7 +1,10 @@
 // Authentication service using BACKEND SHEET
 import { GoogleSheetsService, SheetUser } from './googleSheets';
-import { secureStorage } from './secureStorage';
-import { findLocalUserByIdentifier } from '@/config/login';
+import { SecureCredentials, secureStorage } from './secureStorage';
+import { setAuditActorProvider } from './auditLog';
+import { hashPassword, isPasswordHash, verifyPassword } from './passwordHash';
+import { signSessionToken, verifySessionToken } from './sessionToken';
+import { addLocalUser, findLocalUserByIdentifier, getLocalUsers, migrateLocalUserPasswords } from '@/config/login';
 
 export interface AuthUser {
   id: string;
@@ -13,25 +16,56 @@ export interface AuthUser {
 
 export interface AuthSession {
   user: AuthUser;
+  /** Signed by this device (see sessionToken.ts); covers the user id, role and expiry */
   token: string;
   timestamp: number;
+  /** Which user store the user came from, for re-checking them on resume */
+  source: 'local' | 'sheet';
+  /** Absolute expiry, epoch ms */
+  expiresAt: number;
+  lastActiveAt: number;
 }
 
-const DEFAULT_ADMIN: AuthUser = {
-  id: 'default-admin',
-  email: 'ticketstotrip.com@gmail.com',
-  name: 'Admin',
-  phone: '',
-  role: 'admin'
-};
+export type SessionEndReason = 'expired' | 'idle' | 'invalid' | 'user-removed' | 'role-changed';
+
+/**
+ * - `first-run`: nobody can sign in as admin yet (a fresh install, or an older one whose
+ *   only admins were the removed built-in accounts); /auth shows the setup wizard instead of the login
+ * - `pending`: an install from before the wizard; admins are asked to complete it after login
+ * - `complete`: the wizard has been completed
+ */
+export type SetupState = 'first-run' | 'pending' | 'complete';
+
+export interface InitialAdmin {
+  name: string;
+  email: string;
+  phone: string;
+  password: string;
+}
 
-const DEFAULT_ADMIN_PASSWORD = '123456';
 const SESSION_KEY = 'auth_session';
+const SETUP_KEY = 'crm_setup_complete';
+const IDLE_TIMEOUT_KEY = 'crm_session_idle_minutes';
+
+/** Sessions end this long after login, however active the user is */
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 240;
+export const IDLE_TIMEOUT_OPTIONS = [15, 30, 60, 240, 480, 1440];
+/** lastActiveAt is kept in memory and written to storage at most this often */
+const ACTIVITY_PERSIST_INTERVAL_MS = 60 * 1000;
+
+type SessionEndListener = (reason: SessionEndReason) => void;
 
 class AuthService {
   private session: AuthSession | null = null;
+  private idleTimeoutMinutes = DEFAULT_IDLE_TIMEOUT_MINUTES;
+  private lastPersistedActivity = 0;
+  private endListeners = new Set<SessionEndListener>();
 
   async initialize(): Promise<void> {
+    const idle = Number(await secureStorage.get(IDLE_TIMEOUT_KEY));
+    if (idle > 0) this.idleTimeoutMinutes = idle;
+
     const stored = await secureStorage.get(SESSION_KEY);
     if (stored) {
       try {
@@ -41,24 +75,95 @@ class AuthService {
         this.session = null;
       }
     }
+    // Sessions from before signed tokens, forged ones and expired ones don't survive a restart
+    const rejected = await this.validate();
+    if (rejected) {
+      console.log(`🔒 Stored session rejected: ${rejected}`);
+      this.session = null;
+      await secureStorage.remove(SESSION_KEY);
+    }
+    // Runs in the background; plaintext passwords keep verifying until it's done
+    migrateLocalUserPasswords().catch((error) => console.error('Failed to hash local user passwords:', error));
   }
 
-  async login(email: string, password: string): Promise<{ session: AuthSession | null; error: Error | null }> {
+  /**
+   * One-time migration for the BACKEND SHEET: replace plaintext password cells
+   * with hashes. Needs a service account. Returns how many were hashed.
+   */
+  async hashSheetPasswords(sheetsService: GoogleSheetsService, users?: SheetUser[]): Promise<number> {
+    const plaintext = (users || await sheetsService.fetchUsers()).filter((u) => u.password && !isPasswordHash(u.password) && u._rowNumber);
+    if (plaintext.length === 0) return 0;
+
+    const entries: { rowNumber: number; password: string }[] = [];
+    for (const user of plaintext) {
+      entries.push({ rowNumber: user._rowNumber!, password: await hashPassword(user.password) });
+    }
+    await sheetsService.writeUserPasswords(entries);
+    console.log(`🔐 Hashed ${entries.length} BACKEND SHEET password(s)`);
+    return entries.length;
+  }
+
+  async getSetupState(): Promise<SetupState> {
+    if (await secureStorage.get(SETUP_KEY)) return 'complete';
+    return (await this.hasUsableAdmin()) ? 'pending' : 'first-run';
+  }
+
+  /** A local admin, or an admin with a password in the BACKEND SHEET */
+  private async hasUsableAdmin(): Promise<boolean> {
+    const [credentials, localUsers] = await Promise.all([secureStorage.getCredentials(), getLocalUsers()]);
+    if (localUsers.some((u) => u.role === 'admin' && u.password)) return true;
+    if (!credentials) return false;
     try {
-      // Check default admin first
-      if (email === DEFAULT_ADMIN.email && password === DEFAULT_ADMIN_PASSWORD) {
-        const session: AuthSession = {
-          user: DEFAULT_ADMIN,
-          token: btoa(`${DEFAULT_ADMIN.email}:${Date.now()}`),
-          timestamp: Date.now()
-        };
-        
-        this.session = session;
-        await secureStorage.set(SESSION_KEY, JSON.stringify(session));
-        return { session, error: null };
-      }
+      const users = await this.sheetsService(credentials).fetchUsers();
+      return users.some((u) => u.role === 'admin' && u.password);
+    } catch (error) {
+      // Offline or a broken sheet: keep the login page rather than letting anyone create an admin
+      console.warn('⚠️ Could not check BACKEND SHEET admins:', error);
+      return true;
+    }
+  }
 
-      // Check local users file next for easy login
+  /**
+   * Finish the setup wizard. On first run `admin` becomes the initial local
+   * admin account; its password is stored hashed like every other one.
+   */
+  async completeSetup(admin?: InitialAdmin): Promise<void> {
+    if (admin) await addLocalUser({ ...admin, role: 'admin' });
+    await secureStorage.set(SETUP_KEY, new Date().toISOString());
+    console.log('✅ Setup wizard completed');
+  }
+
+  private sheetsService(credentials: SecureCredentials): GoogleSheetsService {
+    return new GoogleSheetsService({
+      apiKey: credentials.googleApiKey || '',
+      // Pass service account too so auth works without an API key
+      serviceAccountJson: credentials.googleServiceAccountJson,
+      sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
+      worksheetNames: credentials.worksheetNames,
+      columnMappings: credentials.columnMappings
+    });
+  }
+
+  private async startSession(user: AuthUser, source: AuthSession['source']): Promise<AuthSession> {
+    const now = Date.now();
+    const expiresAt = now + SESSION_MAX_AGE_MS;
+    const session: AuthSession = {
+      user,
+      token: await signSessionToken({ sub: user.id, role: user.role, iat: now, exp: expiresAt }),
+      timestamp: now,
+      source,
+      expiresAt,
+      lastActiveAt: now,
+    };
+    this.session = session;
+    this.lastPersistedActivity = now;
+    await secureStorage.set(SESSION_KEY, JSON.stringify(session));
+    return session;
+  }
+
+  async login(email: string, password: string): Promise<{ session: AuthSession | null; error: Error | null }> {
+    try {
+      // Check local users file first for easy login
       const local = await findLocalUserByIdentifier(email, password);
       if (local) {
         const authUser: AuthUser = {
@@ -68,13 +173,7 @@ class AuthService {
           phone: local.phone,
           role: local.role
         };
-        const session: AuthSession = {
-          user: authUser,
-          token: btoa(`${authUser.email}:${Date.now()}`),
-          timestamp: Date.now()
-        };
-        this.session = session;
-        await secureStorage.set(SESSION_KEY, JSON.stringify(session));
+        const session = await this.startSession(authUser, 'local');
         return { session, error: null };
       }
 
@@ -84,22 +183,27 @@ class AuthService {
         return { session: null, error: new Error('Google Sheets credentials not configured. Please setup in Admin Settings.') };
       }
 
-      const sheetsService = new GoogleSheetsService({
-        apiKey: credentials.googleApiKey || '',
-        // Pass service account too so auth works without an API key
-        serviceAccountJson: credentials.googleServiceAccountJson,
-        sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
-        worksheetNames: credentials.worksheetNames,
-        columnMappings: credentials.columnMappings
-      });
+      const sheetsService = this.sheetsService(credentials);
 
       const users = await sheetsService.fetchUsers();
-      const user = users.find(u => u.email.toLowerCase() === email.toLowerCase() && u.password === password);
+      let user: SheetUser | undefined;
+      for (const candidate of users.filter(u => u.email.toLowerCase() === email.toLowerCase())) {
+        if (await verifyPassword(password, candidate.password)) {
+          user = candidate;
+          break;
+        }
+      }
 
       if (!user) {
         return { session: null, error: new Error('Invalid email or password') };
       }
 
+      // Plaintext cells (from before the migration, or typed into the sheet by hand) get hashed now
+      if (credentials.googleServiceAccountJson && users.some(u => u.password && !isPasswordHash(u.password))) {
+        this.hashSheetPasswords(sheetsService, users)
+          .catch((error) => console.warn('⚠️ Could not hash BACKEND SHEET passwords:', error));
+      }
+
       const authUser: AuthUser = {
         id: btoa(user.email),
         email: user.email,
@@ -108,14 +212,7 @@ class AuthService {
         role: user.role
       };
 
-      const session: AuthSession = {
-        user: authUser,
-        token: btoa(`${authUser.email}:${Date.now()}`),
-        timestamp: Date.now()
-      };
-
-      this.session = session;
-      await secureStorage.set(SESSION_KEY, JSON.stringify(session));
+      const session = await this.startSession(authUser, 'sheet');
       return { session, error: null };
     } catch (error: any) {
       console.error('Login error:', error);
@@ -132,9 +229,98 @@ class AuthService {
     return this.session;
   }
 
+  /** Called with the reason whenever a session is ended automatically */
+  onSessionEnded(listener: SessionEndListener): () => void {
+    this.endListeners.add(listener);
+    return () => this.endListeners.delete(listener);
+  }
+
+  getIdleTimeoutMinutes(): number {
+    return this.idleTimeoutMinutes;
+  }
+
+  async setIdleTimeoutMinutes(minutes: number): Promise<void> {
+    this.idleTimeoutMinutes = minutes;
+    await secureStorage.set(IDLE_TIMEOUT_KEY, String(minutes));
+  }
+
+  /** When the current session ends unless the user stays active: the idle deadline or the absolute expiry */
+  getSessionExpiry(): number | null {
+    if (!this.session) return null;
+    return Math.min(this.session.expiresAt, this.session.lastActiveAt + this.idleTimeoutMinutes * 60 * 1000);
+  }
+
+  /** Record user activity, which pushes the idle deadline back */
+  touch(): void {
+    if (!this.session) return;
+    const now = Date.now();
+    // Activity after the idle deadline must not revive the session
+    if (now - this.session.lastActiveAt > this.idleTimeoutMinutes * 60 * 1000) {
+      this.checkSession();
+      return;
+    }
+    this.session.lastActiveAt = now;
+    if (now - this.lastPersistedActivity >= ACTIVITY_PERSIST_INTERVAL_MS) {
+      this.lastPersistedActivity = now;
+      secureStorage.set(SESSION_KEY, JSON.stringify(this.session))
+        .catch((error) => console.error('Failed to persist session activity:', error));
+    }
+  }
+
+  /** Why the current session is no longer valid (token, expiry or idle time), or null */
+  private async validate(now = Date.now()): Promise<SessionEndReason | null> {
+    const session = this.session;
+    if (!session) return null;
+    const claims = await verifySessionToken(session.token, now);
+    if (!claims) return session.expiresAt && session.expiresAt <= now ? 'expired' : 'invalid';
+    if (claims.sub !== session.user.id || claims.role !== session.user.role || claims.exp !== session.expiresAt) return 'invalid';
+    if (now - session.lastActiveAt > this.idleTimeoutMinutes * 60 * 1000) return 'idle';
+    return null;
+  }
+
+  /** Whether the user still exists in their user store with the same role; unknown (offline) counts as yes */
+  private async recheckUser(session: AuthSession): Promise<SessionEndReason | null> {
+    if (session.source === 'local') {
+      const user = (await getLocalUsers()).find(u => u.id === session.user.id);
+      if (!user) return 'user-removed';
+      return user.role !== session.user.role ? 'role-changed' : null;
+    }
+    try {
+      const credentials = await secureStorage.getCredentials();
+      if (!credentials) return null;
+      const users = await this.sheetsService(credentials).fetchUsers();
+      const user = users.find(u => u.email.toLowerCase() === session.user.email.toLowerCase());
+      if (!user) return 'user-removed';
+      return user.role !== session.user.role ? 'role-changed' : null;
+    } catch (error) {
+      console.warn('⚠️ Could not re-check session user against the BACKEND SHEET:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Re-check the current session and log out if it ended. With `recheckUser`
+   * (on app resume) the user is also looked up in their user store again.
+   * Returns whether the session is still valid.
+   */
+  async checkSession(recheckUser = false): Promise<boolean> {
+    const session = this.session;
+    if (!session) return false;
+    const reason = (await this.validate()) || (recheckUser ? await this.recheckUser(session) : null);
+    // A new login may have happened while the user store was read
+    if (!reason || this.session !== session) return this.session !== null;
+
+    console.log(`🔒 Session ended: ${reason}`);
+    await this.logout();
+    this.endListeners.forEach((listener) => listener(reason));
+    return false;
+  }
+
   isAuthenticated(): boolean {
     return this.session !== null;
   }
 }
 
 export const authService = new AuthService();
+
+setAuditActorProvider(() => authService.getSession()?.user || null);
@@ -0,0 +1,212 @@
+// Column mappings for MASTER DATA: known fields, header detection and validation
+
+/** `core` fields are always parsed (with default letters); the rest only when mapped */
+export type LeadFieldGroup = 'core' | 'trip' | 'contact' | 'mentor' | 'automation';
+
+export interface LeadFieldDefinition {
+  key: string;
+  label: string;
+  group: LeadFieldGroup;
+  required?: boolean;
+  multiline?: boolean;
+  /** Read from the cell notes of its column rather than the values, so it may share a column */
+  cellNote?: boolean;
+  /** Other header spellings seen in the wild */
+  aliases?: string[];
+}
+
+/** Every field a MASTER DATA column can be mapped to, in default sheet order */
+export const LEAD_FIELDS: LeadFieldDefinition[] = [
+  { key: 'tripId', label: 'Trip ID', group: 'core', aliases: ['trip no', 'trip number'] },
+  { key: 'dateAndTime', label: 'Date', group: 'core', required: true, aliases: ['date and time', 'date & time', 'lead date', 'created at'] },
+  { key: 'consultant', label: 'Consultant', group: 'core', required: true, aliases: ['consultant name', 'assigned to', 'agent'] },
+  { key: 'status', label: 'Status', group: 'core', required: true, aliases: ['lead status'] },
+  { key: 'travellerName', label: 'Traveller Name', group: 'core', required: true, aliases: ['traveler name', 'customer name', 'client name', 'guest name', 'name'] },
+  { key: 'leadSource', label: 'Lead Source', group: 'trip', aliases: ['source'] },
+  { key: 'travelDate', label: 'Travel Date', group: 'core', aliases: ['date of travel', 'travelling date', 'traveling date'] },
+  { key: 'travelState', label: 'Travel State', group: 'core', aliases: ['state', 'destination state'] },
+  { key: 'destination', label: 'Destination', group: 'trip' },
+  { key: 'ticketsRequired', label: 'Tickets Required', group: 'trip', aliases: ['tickets'] },
+  { key: 'remarks', label: 'Remarks', group: 'core', aliases: ['remark', 'remark by consultant', 'consultant remarks', 'comments'] },
+  { key: 'nights', label: 'Nights', group: 'core', aliases: ['no of nights', 'number of nights'] },
+  { key: 'pax', label: 'Pax', group: 'core', aliases: ['no of pax', 'passengers'] },
+  { key: 'hotelCategory', label: 'Hotel Category', group: 'core', aliases: ['hotel', 'hotel type'] },
+  { key: 'mealPlan', label: 'Meal Plan', group: 'core', aliases: ['meals'] },
+  { key: 'phone', label: 'Phone', group: 'core', aliases: ['phone number', 'mobile', 'mobile number', 'contact number'] },
+  { key: 'email', label: 'Email', group: 'core', aliases: ['email id', 'email address', 'mail'] },
+  { key: 'whatsappLink', label: 'WhatsApp Link', group: 'contact' },
+  { key: 'departureLocation', label: 'Departure Location', group: 'trip', aliases: ['departure city', 'departure'] },
+  { key: 'mentorName', label: 'Mentor Name', group: 'mentor', aliases: ['mentor'] },
+  { key: 'remarkByMentor', label: 'Remark by Mentor', group: 'mentor', multiline: true, aliases: ['mentor remark', 'mentor remarks'] },
+  { key: 'eventType', label: 'Event Type', group: 'trip' },
+  { key: 'eventDate', label: 'Event Date', group: 'trip' },
+  { key: 'contactStatus', label: 'Contact Status', group: 'contact' },
+  { key: 'followupStatus', label: 'Follow-up Status', group: 'contact', aliases: ['followup status', 'follow up status'] },
+  { key: 'uniqueKey', label: 'Unique Key', group: 'core', aliases: ['unique id', 'lead id'] },
+  { key: 'timeStamp', label: 'Time Stamp', group: 'automation', aliases: ['timestamp', 'last modified', 'updated at', 'modified at'] },
+  { key: 'whatsappNotification', label: 'WhatsApp Notification', group: 'automation' },
+  { key: 'customerReplies', label: 'Customer Replies', group: 'automation', multiline: true, aliases: ['customer reply'] },
+  { key: 'aiResponse', label: 'AI Response', group: 'automation', multiline: true },
+  { key: 'fullConversation', label: 'Full Conversation', group: 'automation', multiline: true, aliases: ['conversation'] },
+  { key: 'bookingStatus', label: 'Booking Status', group: 'automation' },
+  { key: 'firstMessageTime', label: 'First Message Time', group: 'automation' },
+  { key: 'customerLastMessageTime', label: 'Customer Last Message Time', group: 'automation', aliases: ['last message time'] },
+  { key: 'reminderCount', label: 'Reminder Count', group: 'automation' },
+  { key: 'whatsappItinerary', label: 'WhatsApp Itinerary', group: 'automation', multiline: true, aliases: ['itinerary'] },
+  { key: 'whatsappItineraryTiming', label: 'WhatsApp Itinerary Timing', group: 'automation', aliases: ['itinerary timing'] },
+  { key: 'priority', label: 'Priority', group: 'core', aliases: ['lead priority'] },
+  { key: 'remarkHistory', label: 'Remark History', group: 'core' },
+  { key: 'notes', label: 'Cell Notes', group: 'core', cellNote: true },
+];
+
+/** Fields beyond the core set, shown in grouped sections of the lead dialogs */
+export const EXTENDED_LEAD_FIELDS = LEAD_FIELDS.filter((f) => f.group !== 'core');
+
+export const LEAD_FIELD_GROUPS: { group: Exclude<LeadFieldGroup, 'core'>; title: string }[] = [
+  { group: 'trip', title: 'Trip' },
+  { group: 'contact', title: 'Contact' },
+  { group: 'mentor', title: 'Mentor review' },
+  { group: 'automation', title: 'Automation' },
+];
+
+const FIELDS_BY_KEY = new Map(LEAD_FIELDS.map((f) => [f.key, f]));
+
+export const isCellNoteField = (key: string) => !!FIELDS_BY_KEY.get(key)?.cellNote;
+
+/** Keys older configs used for the same field */
+const LEGACY_KEYS: Record<string, string> = {
+  date: 'dateAndTime',
+};
+
+export class ColumnMappingError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid column mappings: ${errors.join('; ')}`);
+    this.name = 'ColumnMappingError';
+    this.errors = errors;
+  }
+}
+
+export interface ColumnMappingValidation {
+  mappings: Record<string, string>;
+  errors: string[];
+  warnings: string[];
+}
+
+const snakeToCamel = (key: string) => key.replace(/_([a-z0-9])/g, (_, c) => c.toUpperCase());
+
+const normalizeHeader = (header: string) => String(header || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function columnToIndex(col: string): number {
+  let index = 0;
+  for (let i = 0; i < col.length; i++) {
+    index = index * 26 + (col.charCodeAt(i) - 'A'.charCodeAt(0) + 1);
+  }
+  return index - 1;
+}
+
+export function indexToColumn(index: number): string {
+  let col = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    col = String.fromCharCode(65 + ((n - 1) % 26)) + col;
+  }
+  return col;
+}
+
+/**
+ * Canonicalize mapping keys (snake_case and legacy names -> SheetLead camelCase),
+ * upper-case the column letters and drop blanks. Unknown keys are kept so
+ * validation can report them.
+ */
+export function normalizeColumnMappings(raw: Record<string, string>): Record<string, string> {
+  const mappings: Record<string, string> = {};
+  for (const [rawKey, rawCol] of Object.entries(raw || {})) {
+    const col = String(rawCol || '').trim().toUpperCase();
+    if (!col) continue;
+    const camel = snakeToCamel(rawKey.trim());
+    mappings[LEGACY_KEYS[camel] || camel] = col;
+  }
+  return mappings;
+}
+
+/**
+ * Check mappings against the known fields and, when available, the sheet's
+ * header row: unknown keys, malformed letters, required fields that don't
+ * resolve to a column, and two fields sharing one column are errors.
+ */
+export function validateColumnMappings(raw: Record<string, string>, headers?: string[]): ColumnMappingValidation {
+  const mappings = normalizeColumnMappings(raw);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const usedBy = new Map<string, string>();
+
+  for (const [key, col] of Object.entries(mappings)) {
+    const field = FIELDS_BY_KEY.get(key);
+    if (!field) {
+      errors.push(`Unknown field "${key}"`);
+      continue;
+    }
+    if (!/^[A-Z]{1,2}$/.test(col)) {
+      errors.push(`${field.label}: "${col}" is not a column letter`);
+      continue;
+    }
+    if (!field.cellNote) {
+      const other = usedBy.get(col);
+      if (other) {
+        errors.push(`${field.label} and ${FIELDS_BY_KEY.get(other)?.label || other} both use column ${col}`);
+      }
+      usedBy.set(col, key);
+    }
+
+    if (headers && !String(headers[columnToIndex(col)] || '').trim()) {
+      const message = `${field.label}: column ${col} has no header in the sheet`;
+      if (field.required) errors.push(message);
+      else warnings.push(message);
+    }
+  }
+
+  for (const field of LEAD_FIELDS) {
+    if (field.required && !mappings[field.key]) {
+      errors.push(`${field.label} must be mapped to a column`);
+    }
+  }
+
+  return { mappings, errors, warnings };
+}
+
+/** Normalize and validate, throwing a ColumnMappingError when anything is wrong */
+export function assertValidColumnMappings(raw: Record<string, string>, headers?: string[]): Record<string, string> {
+  const { mappings, errors } = validateColumnMappings(raw, headers);
+  if (errors.length > 0) throw new ColumnMappingError(errors);
+  return mappings;
+}
+
+/**
+ * Propose a mapping from a header row by matching header text against each
+ * field's label, key and aliases. Headers that match nothing are returned
+ * separately so the admin can map them by hand.
+ */
+export function detectColumnMappings(headers: string[]): { mappings: Record<string, string>; unmatched: string[] } {
+  const lookup = new Map<string, string>();
+  for (const field of LEAD_FIELDS) {
+    if (field.cellNote) continue; // notes have no header of their own
+    for (const name of [field.key, field.label, ...(field.aliases || [])]) {
+      const normalized = normalizeHeader(name);
+      if (!lookup.has(normalized)) lookup.set(normalized, field.key);
+    }
+  }
+
+  const mappings: Record<string, string> = {};
+  const unmatched: string[] = [];
+  headers.forEach((header, index) => {
+    if (!String(header || '').trim()) return;
+    const key = lookup.get(normalizeHeader(header));
+    if (key && !mappings[key]) {
+      mappings[key] = indexToColumn(index);
+    } else {
+      unmatched.push(header);
+    }
+  });
+  return { mappings, unmatched };
+}
@@ -0,0 +1,147 @@
+// Date handling for sheet values: one parser, ISO (yyyy-mm-dd) internally, locale-aware sheet output
+
+/** Order of day and month in the sheet's numeric dates: mm/dd/yyyy or dd/mm/yyyy */
+export type SheetLocale = 'mdy' | 'dmy';
+
+export const DEFAULT_SHEET_LOCALE: SheetLocale = 'mdy';
+
+export const SHEET_LOCALES: { value: SheetLocale; label: string }[] = [
+  { value: 'mdy', label: 'Month first (mm/dd/yyyy)' },
+  { value: 'dmy', label: 'Day first (dd/mm/yyyy)' },
+];
+
+let sheetLocale: SheetLocale = DEFAULT_SHEET_LOCALE;
+
+/** Set from SecureCredentials.sheetLocale when credentials are loaded or saved */
+export function setSheetLocale(locale: SheetLocale | undefined): void {
+  sheetLocale = locale === 'dmy' ? 'dmy' : 'mdy';
+}
+
+export function getSheetLocale(): SheetLocale {
+  return sheetLocale;
+}
+
+export interface DateParseResult {
+  /** yyyy-mm-dd, or null when the input isn't a valid date */
+  iso: string | null;
+  /** Numeric day/month that would also be a valid, different date in the other locale */
+  ambiguous: boolean;
+  /** hh:mm:ss when the input carried a time of day */
+  time?: string;
+  error?: string;
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const fullYear = (y: string) => (y.length <= 2 ? 2000 + Number(y) : Number(y));
+
+const monthIndex = (name: string) => {
+  const lower = name.toLowerCase();
+  return lower.length >= 3 ? MONTHS.findIndex((m) => m.startsWith(lower)) : -1;
+};
+
+function isValidDay(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(year, month, 0).getDate();
+}
+
+function splitTime(input: string): { date: string; time?: string } {
+  const m = input.match(/^(.*?)(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!m || m[2] === undefined) return { date: input };
+  return { date: m[1], time: `${pad(Number(m[2]))}:${m[3]}:${m[4] || '00'}` };
+}
+
+/**
+ * Strictly parse a sheet or user-entered date. Numeric dates are read in the
+ * given locale only (no guessing from values over 12); `ambiguous` flags ones
+ * the other locale would read as a different day.
+ *
+ * Accepts yyyy-mm-dd, a/b/yyyy and a-b-yyyy (2-digit years are 20xx),
+ * "6 November 2025", "6-Nov-25" and "November 6, 2025", each optionally
+ * followed by a time.
+ */
+export function parseSheetDate(input: string | null | undefined, locale: SheetLocale = sheetLocale): DateParseResult {
+  const raw = String(input ?? '').trim();
+  if (!raw) return { iso: null, ambiguous: false, error: 'Empty date' };
+  const { date, time } = splitTime(raw);
+
+  const build = (year: number, month: number, day: number, ambiguous = false): DateParseResult =>
+    isValidDay(year, month, day)
+      ? { iso: `${year}-${pad(month)}-${pad(day)}`, ambiguous, time }
+      : { iso: null, ambiguous: false, error: `"${raw}" is not a valid date` };
+
+  let m = date.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (m) return build(Number(m[1]), Number(m[2]), Number(m[3]));
+
+  m = date.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+  if (m) {
+    const [a, b, year] = [Number(m[1]), Number(m[2]), fullYear(m[3])];
+    const [month, day] = locale === 'mdy' ? [a, b] : [b, a];
+    const result = build(year, month, day);
+    if (!result.iso) {
+      const format = locale === 'mdy' ? 'mm/dd/yyyy' : 'dd/mm/yyyy';
+      return { ...result, error: `"${raw}" is not a valid ${format} date` };
+    }
+    return { ...result, ambiguous: a !== b && a <= 12 && b <= 12 };
+  }
+
+  m = date.match(/^(\d{1,2})[\s/-]+([A-Za-z]+)\.?,?[\s/-]+(\d{2}|\d{4})$/);
+  if (m && monthIndex(m[2]) >= 0) return build(fullYear(m[3]), monthIndex(m[2]) + 1, Number(m[1]));
+
+  m = date.match(/^([A-Za-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})$/);
+  if (m && monthIndex(m[1]) >= 0) return build(Number(m[3]), monthIndex(m[1]) + 1, Number(m[2]));
+
+  return { iso: null, ambiguous: false, error: `Unrecognised date "${raw}"` };
+}
+
+/** yyyy-mm-dd for any accepted input, or null */
+export function toIsoDate(input: string | null | undefined, locale: SheetLocale = sheetLocale): string | null {
+  return parseSheetDate(input, locale).iso;
+}
+
+/** Local-midnight Date for an ISO date (new Date('yyyy-mm-dd') would be UTC) */
+export function isoToDate(iso: string): Date | null {
+  const m = (iso || '').match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : null;
+}
+
+export function dateToIso(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** ISO date -> numeric date in the sheet's locale */
+export function isoToSheetDate(iso: string, locale: SheetLocale = sheetLocale): string {
+  const m = (iso || '').match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!m) return '';
+  return locale === 'mdy' ? `${m[2]}/${m[3]}/${m[1]}` : `${m[3]}/${m[2]}/${m[1]}`;
+}
+
+/** Date -> the sheet's "date hh:mm:ss" timestamp in its locale */
+export function toSheetTimestamp(date: Date, locale: SheetLocale = sheetLocale): string {
+  if (isNaN(date.getTime())) return '';
+  return `${isoToSheetDate(dateToIso(date), locale)} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/** Sheet timestamp (or plain date) -> local Date, or null */
+export function parseSheetTimestamp(input: string | null | undefined, locale: SheetLocale = sheetLocale): Date | null {
+  const { iso, time } = parseSheetDate(input, locale);
+  if (!iso) return null;
+  const date = isoToDate(iso)!;
+  if (time) {
+    const [h, min, s] = time.split(':').map(Number);
+    date.setHours(h, min, s);
+  }
+  return date;
+}
+
+/** "6 November 2025" for display; unparseable input is shown as-is */
+export function formatDisplayDate(input: string | null | undefined, locale: SheetLocale = sheetLocale): string {
+  const { iso } = parseSheetDate(input, locale);
+  if (!iso) return String(input ?? '').trim();
+  return isoToDate(iso)!.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+}
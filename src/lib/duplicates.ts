@@ -0,0 +1,126 @@
+// Duplicate lead detection: normalized phone/email and fuzzy traveller name
+import { SheetLead, isSameLead } from './googleSheets';
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateMatch {
+  lead: SheetLead;
+  reasons: DuplicateReason[];
+  /** 0..1, higher is more likely the same traveller */
+  score: number;
+}
+
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+/** Last 10 digits, so +91 98765 43210 and 098765-43210 compare equal */
+export function normalizePhone(phone: string | undefined): string {
+  const digits = String(phone ?? '').replace(/\D+/g, '');
+  return digits.length > 10 ? digits.slice(-10) : digits;
+}
+
+export function normalizeEmail(email: string | undefined): string {
+  return String(email ?? '').trim().toLowerCase();
+}
+
+export function normalizeName(name: string | undefined): string {
+  return String(name ?? '')
+    .toLowerCase()
+    .replace(/\b(mr|mrs|ms|miss|dr)\b\.?/g, ' ')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .join(' ');
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+const sortedName = (name: string | undefined) => normalizeName(name).split(' ').sort().join(' ');
+
+function similarity(x: string, y: string): number {
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+/** 1 for identical names (word order ignored), falling towards 0 with edit distance */
+export function nameSimilarity(a: string | undefined, b: string | undefined): number {
+  return similarity(sortedName(a), sortedName(b));
+}
+
+interface NormalizedLead {
+  lead: SheetLead;
+  phone: string;
+  email: string;
+  name: string;
+}
+
+// Normalized values per lead list, so checking many candidates (imports) normalizes each lead once
+const normalizedLists = new WeakMap<SheetLead[], NormalizedLead[]>();
+
+function normalizedLeads(leads: SheetLead[]): NormalizedLead[] {
+  let normalized = normalizedLists.get(leads);
+  // Lists that only grew (appended to while checking a batch) are extended, anything else rebuilt
+  if (!normalized || normalized.length > leads.length) normalized = [];
+  for (let i = normalized.length; i < leads.length; i++) {
+    const lead = leads[i];
+    normalized.push({
+      lead,
+      phone: normalizePhone(lead.phone),
+      email: normalizeEmail(lead.email),
+      name: sortedName(lead.travellerName),
+    });
+  }
+  normalizedLists.set(leads, normalized);
+  return normalized;
+}
+
+/** Existing leads that look like the same traveller as `candidate`, best match first */
+export function findDuplicates(candidate: Partial<SheetLead>, leads: SheetLead[]): DuplicateMatch[] {
+  const phone = normalizePhone(candidate.phone);
+  const email = normalizeEmail(candidate.email);
+  const name = sortedName(candidate.travellerName);
+  const matches: DuplicateMatch[] = [];
+
+  for (const other of normalizedLeads(leads)) {
+    const { lead } = other;
+    if (isSameLead(lead, candidate)) continue;
+    const reasons: DuplicateReason[] = [];
+    // Short numbers are usually placeholders like "0" or "NA"
+    if (phone.length >= 7 && other.phone === phone) reasons.push('phone');
+    if (email.includes('@') && other.email === email) reasons.push('email');
+    // Names whose lengths differ this much can't reach the threshold, skip the edit distance
+    const longest = Math.max(name.length, other.name.length);
+    const similar = Math.abs(name.length - other.name.length) <= longest * (1 - NAME_SIMILARITY_THRESHOLD)
+      ? similarity(name, other.name)
+      : 0;
+    if (similar >= NAME_SIMILARITY_THRESHOLD) reasons.push('name');
+    if (reasons.length === 0) continue;
+
+    const score = Math.min(
+      1,
+      (reasons.includes('phone') ? 0.6 : 0) + (reasons.includes('email') ? 0.5 : 0) + similar * 0.4
+    );
+    matches.push({ lead, reasons, score });
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/** Merged remarks/notes: both texts, without repeating one that already contains the other */
+export function combineText(primary: string | undefined, secondary: string | undefined): string {
+  const a = String(primary ?? '').trim();
+  const b = String(secondary ?? '').trim();
+  if (!a || a.includes(b)) return a || b;
+  if (!b || b.includes(a)) return b || a;
+  return `${a}\n${b}`;
+}
@@ -1,5 +1,13 @@
 // googleSheets.ts
 // Google Sheets API integration
+import { SheetLocale, getSheetLocale, isoToSheetDate, parseSheetTimestamp, toIsoDate, toSheetTimestamp } from './dates';
+import { EXTENDED_LEAD_FIELDS, columnToIndex, indexToColumn, normalizeColumnMappings, validateColumnMappings } from './columnMapping';
+import { AUDIT_HEADERS, AuditChange, AuditEntry, DEFAULT_AUDIT_WORKSHEET, auditFromRow, auditToRow, createAuditEntries } from './auditLog';
+import { TripIdFormat, allocateTripIds, normalizeTripIdFormat } from './tripId';
+import { REMARKS_WORKSHEET, REMARK_LOG_HEADERS, RemarkEntry, remarkFromRow, remarkToRow, sortRemarks } from './remarkLog';
+import { ARCHIVE_WORKSHEET } from './leadArchive';
+import { SETTINGS_HEADERS, SETTINGS_WORKSHEET } from './sharedSettings';
+import { errorMessage } from './utils';
 
 export interface GoogleSheetsConfig {
   apiKey?: string;
@@ -7,6 +15,12 @@ export interface GoogleSheetsConfig {
   sheetId: string;
   worksheetNames: string[];
   columnMappings: Record<string, string>;
+  /** Day/month order of the sheet's dates; defaults to the app-wide setting */
+  sheetLocale?: SheetLocale;
+  /** Worksheet receiving the field-level audit trail (created on first write) */
+  auditWorksheet?: string;
+  /** How Trip IDs are generated for new leads; see tripId.ts */
+  tripIdFormat?: Partial<TripIdFormat>;
 }
 
 export interface SheetUser {
@@ -14,7 +28,9 @@ export interface SheetUser {
   email: string;
   phone: string;
   role: 'admin' | 'consultant';
+  /** PBKDF2 hash (see passwordHash.ts), or legacy plaintext not yet migrated */
   password: string;
+  _rowNumber?: number;
 }
 
 export interface SheetLead {
@@ -23,7 +39,7 @@ export interface SheetLead {
   consultant: string;
   status: string;
   travellerName: string;
-  travelDate: string;
+  travelDate: string; // yyyy-mm-dd when the cell holds a valid date, otherwise the raw cell text
   travelState: string;
   remarks: string;
   nights: string;
@@ -35,21 +51,214 @@ export interface SheetLead {
   priority?: string;
   remarkHistory?: string[];
   notes?: string;
+  uniqueKey?: string; // Stable lead ID (Unique Key column)
+  // Extended columns, parsed only when mapped (see EXTENDED_LEAD_FIELDS)
+  leadSource?: string;
+  destination?: string;
+  ticketsRequired?: string;
+  departureLocation?: string;
+  eventType?: string;
+  eventDate?: string;
+  whatsappLink?: string;
+  contactStatus?: string;
+  followupStatus?: string;
+  mentorName?: string;
+  remarkByMentor?: string;
+  timeStamp?: string;
+  whatsappNotification?: string;
+  customerReplies?: string;
+  aiResponse?: string;
+  fullConversation?: string;
+  bookingStatus?: string;
+  firstMessageTime?: string;
+  customerLastMessageTime?: string;
+  reminderCount?: string;
+  whatsappItinerary?: string;
+  whatsappItineraryTiming?: string;
   _rowNumber?: number; // Actual Google Sheet row number
 }
 
 const SHEETS_API_BASE = 'https://sheets.googleapis.com/v4/spreadsheets';
 
+/** A row as the values API returns it: formatted cell text, trailing blank cells dropped */
+export type SheetRow = string[];
+
+/** One range of a values:batchUpdate request */
+interface CellWrite {
+  range: string;
+  values: string[][];
+}
+
+/** Zero-based grid range of a spreadsheets.batchUpdate request; end indexes are exclusive */
+interface GridRange {
+  sheetId: number;
+  startRowIndex: number;
+  endRowIndex: number;
+  startColumnIndex: number;
+  endColumnIndex: number;
+}
+
+/** The spreadsheets.batchUpdate requests moveRows sends */
+type SheetUpdateRequest =
+  | { appendDimension: { sheetId: number; dimension: 'ROWS' | 'COLUMNS'; length: number } }
+  | { copyPaste: { source: GridRange; destination: GridRange; pasteType: 'PASTE_NORMAL' } }
+  | { deleteDimension: { range: { sheetId: number; dimension: 'ROWS'; startIndex: number; endIndex: number } } };
+
+/** `sheets[].properties` of a spreadsheets.get response */
+interface WorksheetProperties {
+  sheetId?: number;
+  title: string;
+  gridProperties?: { rowCount?: number; columnCount?: number };
+}
+
+/** Date columns held as ISO in SheetLead and written back in the sheet's locale */
+const DATE_FIELDS = ['travelDate', 'eventDate'] as const;
+
+const FULL_RESYNC_INTERVAL = 30 * 60 * 1000; // full download at least every 30 minutes
+const MAX_DELTA_ROWS = 500; // beyond this a full download is cheaper
+const RANGES_PER_BATCH = 50; // keeps batchGet URLs well under length limits
+const ROWS_PER_PAGE = 5000; // rows per request when walking a whole worksheet
+
+/** Progress of a full download; `total` is the worksheet's row count (0 while unknown) */
+export interface FetchProgress {
+  loaded: number;
+  total: number;
+}
+
+/** Rows from the last fetch, kept per sheet across service instances */
+interface DeltaCache {
+  leads: Map<number, SheetLead>; // by sheet row number
+  markers: string[]; // ID + timeStamp per row, index 0 = row 2
+  fullFetchedAt: number;
+}
+
+const deltaCaches = new Map<string, DeltaCache>();
+
+/** Group row numbers into contiguous blocks so each block is one range */
+function rowBlocks(rowNumbers: number[]): { start: number; end: number }[] {
+  const blocks: { start: number; end: number }[] = [];
+  for (const n of [...rowNumbers].sort((a, b) => a - b)) {
+    const last = blocks[blocks.length - 1];
+    if (last && n === last.end + 1) last.end = n;
+    else blocks.push({ start: n, end: n });
+  }
+  return blocks;
+}
+
+const rowMarker = (id: unknown, stamp: unknown) => `${String(id ?? '').trim()}|${String(stamp ?? '').trim()}`;
+
+/** One field edited on both sides since the user opened the lead */
+export interface LeadFieldConflict {
+  field: keyof SheetLead;
+  base: string;   // value when the user started editing
+  mine: string;   // value the user is trying to save
+  theirs: string; // value currently in the sheet
+}
+
+/** Thrown by updateLead when the row changed underneath the caller's baseline */
+export class LeadConflictError extends Error {
+  conflicts: LeadFieldConflict[];
+  remote: SheetLead;
+
+  constructor(conflicts: LeadFieldConflict[], remote: SheetLead) {
+    super(`Lead was changed by someone else (${conflicts.map((c) => c.field).join(', ')})`);
+    this.name = 'LeadConflictError';
+    this.conflicts = conflicts;
+    this.remote = remote;
+  }
+}
+
+/** Outcome for one lead of a bulk update */
+export interface BulkUpdateResult {
+  lead: SheetLead;
+  ok: boolean;
+  error?: string;
+  isConflict?: boolean;
+}
+
+export interface UpdateLeadOptions {
+  /** Version of the lead the user started editing; enables conflict detection */
+  baseline?: SheetLead;
+}
+
+/** Generate a new stable lead ID for the Unique Key column */
+export function generateLeadId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Compare two leads by stable ID, falling back to sheet row for rows not yet backfilled */
+export function isSameLead(a: Partial<SheetLead>, b: Partial<SheetLead>): boolean {
+  if (a.uniqueKey || b.uniqueKey) return !!a.uniqueKey && a.uniqueKey === b.uniqueKey;
+  return !!a._rowNumber && a._rowNumber === b._rowNumber;
+}
+
+/** Set one field of a lead, with the value type checked against the field */
+export function setLeadField<K extends keyof SheetLead>(lead: Partial<SheetLead>, field: K, value: SheetLead[K]): void {
+  lead[field] = value;
+}
+
+/**
+ * Three-way merge of `updates` against the version the caller started editing.
+ * Fields the user didn't touch but someone else changed are dropped from the
+ * write (theirs wins); fields changed on both sides to different values are
+ * reported as a LeadConflictError.
+ */
+export function mergeAgainstBaseline(
+  remote: SheetLead,
+  baseline: SheetLead,
+  updates: Partial<SheetLead>,
+  comparable: (key: string, value: unknown) => string = (_key, value) => String(value ?? '').trim()
+): Partial<SheetLead> {
+  const safeUpdates: Partial<SheetLead> = {};
+  const conflicts: LeadFieldConflict[] = [];
+
+  for (const [key, mineRaw] of Object.entries(updates) as [keyof SheetLead, SheetLead[keyof SheetLead]][]) {
+    if (mineRaw === undefined || !(key in remote) || ['notes', '_rowNumber'].includes(key)) {
+      setLeadField(safeUpdates, key, mineRaw);
+      continue;
+    }
+
+    const base = comparable(key, baseline[key]);
+    const theirs = comparable(key, remote[key]);
+    const mine = comparable(key, mineRaw);
+
+    if (theirs === base) {
+      setLeadField(safeUpdates, key, mineRaw); // nobody else touched it
+    } else if (mine === base || mine === theirs) {
+      continue; // only they changed it, or both made the same change
+    } else {
+      conflicts.push({ field: key, base, mine, theirs });
+    }
+  }
+
+  if (conflicts.length > 0) {
+    console.warn('⚠️ Concurrent edit detected:', conflicts);
+    throw new LeadConflictError(conflicts, remote);
+  }
+  return safeUpdates;
+}
+
 export class GoogleSheetsService {
   private config: GoogleSheetsConfig;
   private accessToken: string | null = null;
   private tokenExpiry: number = 0;
   
   private leadsCache: { data: SheetLead[]; timestamp: number } | null = null;
+  private worksheetGids = new Map<string, number>();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
+  private get locale(): SheetLocale {
+    return this.config.sheetLocale || getSheetLocale();
+  }
+
   constructor(config: GoogleSheetsConfig) {
-    this.config = config;
+    // Older settings saved snake_case keys (traveller_name) that parseLeadRow never read
+    this.config = { ...config, columnMappings: normalizeColumnMappings(config.columnMappings) };
+    const { errors } = validateColumnMappings(this.config.columnMappings);
+    if (errors.length > 0) console.warn('⚠️ Column mapping problems:', errors);
   }
 
   /** Generate access token using Service Account JSON */
@@ -115,44 +324,163 @@ export class GoogleSheetsService {
   }
 
   private columnToIndex(col: string): number {
-    let index = 0;
-    for (let i = 0; i < col.length; i++) {
-      index = index * 26 + (col.charCodeAt(i) - 'A'.charCodeAt(0) + 1);
-    }
-    return index - 1;
+    return columnToIndex(col);
   }
 
-  public clearLeadsCache(): void {
-    this.leadsCache = null;
-    console.log('🗑️ Leads cache cleared');
+  /** Column holding the stable lead ID (defaults to Z, the Unique Key column) */
+  private leadIdColumn(): string {
+    return this.config.columnMappings.uniqueKey || 'Z';
   }
 
-  /** Fetch users */
-  async fetchUsers(): Promise<SheetUser[]> {
-    const worksheetName = this.config.worksheetNames[1] || 'BACKEND SHEET';
-    const range = `${worksheetName}!A2:Z1000`;
+  /** Column bumped on every edit (defaults to AA, the timeStamp column); drives delta fetches */
+  private markerColumn(): string {
+    return this.config.columnMappings.timeStamp || 'AA';
+  }
+
+  /** Column whose cell notes hold SheetLead.notes (defaults to the remarks column) */
+  private notesColumn(): string {
+    const cm = this.config.columnMappings;
+    return cm.notes || cm.remarks || 'K';
+  }
+
+  private deltaCacheKey(): string {
+    return `${this.config.sheetId}|${this.config.worksheetNames[0]}|${JSON.stringify(this.config.columnMappings)}`;
+  }
+
+  /** Read a single A1 range from the sheet (service account preferred, API key fallback) */
+  private async readRange(range: string): Promise<SheetRow[]> {
+    let url = `${SHEETS_API_BASE}/${this.config.sheetId}/values/${encodeURIComponent(range)}`;
+    const headers: Record<string, string> = {};
+    if (this.config.serviceAccountJson) {
+      headers['Authorization'] = `Bearer ${await this.getAccessToken()}`;
+    } else if (this.config.apiKey) {
+      url += `?key=${this.config.apiKey}`;
+    } else {
+      throw new Error('Missing credentials: provide Service Account JSON or API Key');
+    }
+
+    const response = await fetch(url, { headers });
+    if (!response.ok) throw new Error(`Failed to read ${range}: ${response.statusText}`);
+    const data = await response.json();
+    return data.values || [];
+  }
 
-    let url: string;
-    let headers: Record<string, string> = {};
-    // Prefer service account if available (works for private sheets)
+  /** Title and grid size of a worksheet, or undefined when the spreadsheet has no such worksheet */
+  private async worksheetProperties(title: string): Promise<WorksheetProperties | undefined> {
+    let url = `${SHEETS_API_BASE}/${this.config.sheetId}?fields=sheets.properties(title,gridProperties(rowCount,columnCount))`;
+    const headers: Record<string, string> = {};
     if (this.config.serviceAccountJson) {
-      const token = await this.getAccessToken();
-      url = `${SHEETS_API_BASE}/${this.config.sheetId}/values/${encodeURIComponent(range)}`;
-      headers['Authorization'] = `Bearer ${token}`;
+      headers['Authorization'] = `Bearer ${await this.getAccessToken()}`;
     } else if (this.config.apiKey) {
-      url = `${SHEETS_API_BASE}/${this.config.sheetId}/values/${encodeURIComponent(range)}?key=${this.config.apiKey}`;
+      url += `&key=${this.config.apiKey}`;
     } else {
       throw new Error('Missing credentials: provide Service Account JSON or API Key');
     }
 
     const response = await fetch(url, { headers });
-    if (!response.ok) throw new Error(`Failed to fetch users: ${response.statusText}`);
+    if (!response.ok) throw new Error(`Failed to read worksheet size: ${response.statusText}`);
     const data = await response.json();
-    const rows = data.values || [];
+    const sheets: { properties?: WorksheetProperties }[] = data.sheets || [];
+    return sheets.find((s) => s.properties?.title === title)?.properties;
+  }
+
+  /** Size of a worksheet's grid, including trailing blank rows and columns */
+  private async worksheetGrid(title: string): Promise<{ rowCount: number; columnCount: number }> {
+    const properties = await this.worksheetProperties(title);
+    if (!properties) throw new Error(`Worksheet "${title}" not found`);
+    const grid = properties.gridProperties || {};
+    return { rowCount: grid.rowCount || 0, columnCount: grid.columnCount || 0 };
+  }
+
+  /**
+   * Read columns firstCol:lastCol of every row from row 2 down to the last
+   * row of the worksheet, ROWS_PER_PAGE rows per request. rows[i] is always
+   * sheet row i + 2; blank rows are empty arrays.
+   */
+  private async readAllRows(
+    title: string,
+    firstCol: string,
+    lastCol: string,
+    onProgress?: (progress: FetchProgress) => void
+  ): Promise<{ rows: SheetRow[]; rowCount: number }> {
+    const { rowCount } = await this.worksheetGrid(title);
+    const rows: SheetRow[] = [];
+    onProgress?.({ loaded: 0, total: rowCount });
+    for (let start = 2; start <= rowCount; start += ROWS_PER_PAGE) {
+      const end = Math.min(start + ROWS_PER_PAGE - 1, rowCount);
+      // values.get drops trailing blank rows of a page, so place rows by offset
+      const page = await this.readRange(`${title}!${firstCol}${start}:${lastCol}${end}`);
+      page.forEach((row, k) => (rows[start - 2 + k] = row));
+      onProgress?.({ loaded: end, total: rowCount });
+    }
+    return { rows: Array.from(rows, (row) => row || []), rowCount };
+  }
+
+  /** Map a raw MASTER DATA row onto a SheetLead using the configured column mappings */
+  private parseLeadRow(row: SheetRow, rowNumber: number, notes = '', cm = this.config.columnMappings): SheetLead {
+    const extended: Partial<SheetLead> = {};
+    for (const field of EXTENDED_LEAD_FIELDS) {
+      const col = cm[field.key];
+      if (col) setLeadField(extended, field.key as keyof SheetLead, String(row[this.columnToIndex(col)] ?? ''));
+    }
+    for (const key of DATE_FIELDS) {
+      if (extended[key]) extended[key] = this.fromSheetDate(extended[key]);
+    }
+    return {
+      ...extended,
+      tripId: row[this.columnToIndex(cm.tripId || 'A')] || '',
+      dateAndTime: row[this.columnToIndex(cm.dateAndTime || 'B')] || '',
+      consultant: row[this.columnToIndex(cm.consultant || 'C')] || '',
+      status: row[this.columnToIndex(cm.status || 'D')] || '',
+      travellerName: row[this.columnToIndex(cm.travellerName || 'E')] || '',
+      travelDate: this.fromSheetDate(row[this.columnToIndex(cm.travelDate || 'G')]),
+      travelState: row[this.columnToIndex(cm.travelState || 'H')] || '',
+      remarks: row[this.columnToIndex(cm.remarks || 'K')] || '',
+      nights: row[this.columnToIndex(cm.nights || 'L')] || '',
+      pax: row[this.columnToIndex(cm.pax || 'M')] || '',
+      hotelCategory: row[this.columnToIndex(cm.hotelCategory || 'N')] || '',
+      mealPlan: row[this.columnToIndex(cm.mealPlan || 'O')] || '',
+      phone: row[this.columnToIndex(cm.phone || 'P')] || '',
+      email: row[this.columnToIndex(cm.email || 'Q')] || '',
+      priority: row[this.columnToIndex(cm.priority || '')] || '',
+      remarkHistory:
+        (cm.remarkHistory
+          ? (row[this.columnToIndex(cm.remarkHistory || '')] || '').toString().split(';')
+          : []) || [],
+      notes,
+      uniqueKey: String(row[this.columnToIndex(cm.uniqueKey || 'Z')] || '').trim(),
+      // ✅ CRITICAL: Store the ACTUAL row number from Google Sheets
+      _rowNumber: rowNumber,
+    };
+  }
+
+  public clearLeadsCache(): void {
+    this.leadsCache = null;
+    console.log('🗑️ Leads cache cleared');
+  }
+
+  /** Header row plus the first few data rows of MASTER DATA, for mapping detection and preview */
+  async fetchSampleRows(count = 5): Promise<{ headers: string[]; rows: SheetRow[] }> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const values = await this.readRange(`${worksheetName}!A1:AZ${count + 1}`);
+    const [headerRow = [], ...rows] = values;
+    return { headers: headerRow.map((h) => String(h ?? '').trim()), rows };
+  }
+
+  /** Parse sample rows (starting at sheet row 2) with a candidate mapping instead of the saved one */
+  previewLeads(rows: SheetRow[], mappings: Record<string, string>): SheetLead[] {
+    const cm = normalizeColumnMappings(mappings);
+    return rows.map((row, i) => this.parseLeadRow(row, i + 2, '', cm));
+  }
+
+  /** Fetch users */
+  async fetchUsers(): Promise<SheetUser[]> {
+    const worksheetName = this.config.worksheetNames[1] || 'BACKEND SHEET';
+    const { rows } = await this.readAllRows(worksheetName, 'A', 'Z');
     const cm = this.config.columnMappings;
 
     return rows
-      .map((row: any[]) => ({
+      .map((row, index) => ({
         name: String(row[this.columnToIndex(cm.name || 'C')] || '').trim(),
         email: String(row[this.columnToIndex(cm.email || 'D')] || '').trim(),
         phone: String(row[this.columnToIndex(cm.phone || 'E')] || '').trim(),
@@ -160,138 +488,74 @@ export class GoogleSheetsService {
           .toLowerCase()
           .trim() as 'admin' | 'consultant',
         password: String(row[this.columnToIndex(cm.password || 'N')] || '').trim(),
+        _rowNumber: index + 2,
       }))
       .filter((u) => u.email && u.password);
   }
 
-  /** 
-   * ✅ FIXED: Fetch leads with ACTUAL row numbers
-   * Now fetches ALL rows including empty ones to preserve row numbering
+  /** Overwrite BACKEND SHEET password cells, e.g. with hashes of the plaintext values */
+  async writeUserPasswords(entries: { rowNumber: number; password: string }[]): Promise<void> {
+    if (entries.length === 0) return;
+    const worksheetName = this.config.worksheetNames[1] || 'BACKEND SHEET';
+    const column = this.config.columnMappings.password || 'N';
+    await this.writeCells(entries.map(({ rowNumber, password }) => ({
+      range: `${worksheetName}!${column}${rowNumber}`,
+      values: [[password]],
+    })));
+  }
+
+  /**
+   * Fetch leads. After the first full download, refreshes are incremental:
+   * only rows whose ID or timeStamp marker changed (including newly appended
+   * rows) are re-read. A full download still happens periodically, on
+   * `forceRefresh`, and whenever rows were removed or too much changed at once.
    */
-  async fetchLeads(forceRefresh = false): Promise<SheetLead[]> {
+  async fetchLeads(forceRefresh = false, onProgress?: (progress: FetchProgress) => void): Promise<SheetLead[]> {
     if (!forceRefresh && this.leadsCache && Date.now() - this.leadsCache.timestamp < this.CACHE_TTL) {
       console.log('✅ Returning cached leads');
       return this.leadsCache.data;
     }
 
-    console.log('🔄 Fetching fresh leads from Google Sheets...');
-    
-    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
-    const range = `${worksheetName}!A2:AZ10000`;
-
-    let url: string;
-    let headers: Record<string, string> = {};
-    // Prefer service account if available (works for private sheets)
-    if (this.config.serviceAccountJson) {
-      const token = await this.getAccessToken();
-      url = `${SHEETS_API_BASE}/${this.config.sheetId}/values/${encodeURIComponent(range)}`;
-      headers['Authorization'] = `Bearer ${token}`;
-    } else if (this.config.apiKey) {
-      url = `${SHEETS_API_BASE}/${this.config.sheetId}/values/${encodeURIComponent(range)}?key=${this.config.apiKey}`;
-    } else {
-      throw new Error('Missing credentials: provide Service Account JSON or API Key');
+    let leads: SheetLead[] | null = null;
+    const delta = deltaCaches.get(this.deltaCacheKey());
+    if (delta && !forceRefresh && Date.now() - delta.fullFetchedAt < FULL_RESYNC_INTERVAL) {
+      try {
+        leads = await this.fetchLeadsDelta(delta);
+      } catch (err) {
+        console.warn('⚠️ Delta fetch failed, falling back to full fetch:', err);
+      }
     }
+    if (!leads) leads = await this.fetchAllLeads(onProgress);
 
-    const response = await fetch(url, { headers });
-    if (!response.ok) throw new Error(`Failed to fetch leads: ${response.statusText}`);
-    const data = await response.json();
-    const rows = data.values || [];
-    const cm = this.config.columnMappings;
+    this.leadsCache = {
+      data: leads,
+      timestamp: Date.now(),
+    };
+    return leads;
+  }
 
-    // ✅ CRITICAL FIX: Get the actual starting row from the range response
-    // Google Sheets API might not return empty rows, so we need to track actual positions
+  /** Download the whole MASTER DATA worksheet page by page and seed the delta cache */
+  private async fetchAllLeads(onProgress?: (progress: FetchProgress) => void): Promise<SheetLead[]> {
+    console.log('🔄 Fetching fresh leads from Google Sheets...');
     
-    // Fetch with row metadata to get actual row numbers
-    let actualRowNumbers: number[] = [];
-    try {
-      // Use the spreadsheet.get API to get row data with metadata
-      const metadataUrl = this.config.serviceAccountJson
-        ? `${SHEETS_API_BASE}/${this.config.sheetId}?ranges=${encodeURIComponent(range)}&fields=sheets.data.rowData.values.effectiveValue`
-        : `${SHEETS_API_BASE}/${this.config.sheetId}?ranges=${encodeURIComponent(range)}&fields=sheets.data.rowData.values.effectiveValue&key=${this.config.apiKey}`;
-
-      const metadataHeaders = this.config.serviceAccountJson
-        ? { Authorization: `Bearer ${await this.getAccessToken()}` }
-        : {};
-      const metadataResponse = await fetch(metadataUrl, { headers: metadataHeaders });
-      
-      if (metadataResponse.ok) {
-        const metadataData = await metadataResponse.json();
-        const rowData = metadataData.sheets?.[0]?.data?.[0]?.rowData || [];
-        
-        // Map which rows have data (starting from row 2)
-        rowData.forEach((row: any, index: number) => {
-          if (row.values && row.values.some((v: any) => v.effectiveValue)) {
-            actualRowNumbers.push(index + 2); // +2 because we start from A2
-          }
-        });
-        
-        console.log(`📊 Found ${actualRowNumbers.length} rows with data out of ${rowData.length} total rows`);
-      }
-    } catch (err) {
-      console.warn('⚠️ Failed to fetch row metadata, falling back to sequential numbering:', err);
-      // Fallback: assume sequential numbering
-      actualRowNumbers = rows.map((_: any, i: number) => i + 2);
-    }
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const { rows, rowCount } = await this.readAllRows(worksheetName, 'A', 'AZ', onProgress);
 
     // Optional notes
-    let notesMap: Record<number, string> = {};
+    let notesMap = new Map<number, string>();
     try {
-      const notesUrl = this.config.serviceAccountJson
-        ? `${SHEETS_API_BASE}/${this.config.sheetId}?ranges=${encodeURIComponent(
-            worksheetName
-          )}!K2:K10000&fields=sheets.data.rowData.values.note`
-        : `${SHEETS_API_BASE}/${this.config.sheetId}?ranges=${encodeURIComponent(
-            worksheetName
-          )}!K2:K10000&fields=sheets.data.rowData.values.note&key=${this.config.apiKey}`;
-
-      const notesHeaders = this.config.serviceAccountJson
-        ? { Authorization: `Bearer ${await this.getAccessToken()}` }
-        : {};
-      const notesResponse = await fetch(notesUrl, { headers: notesHeaders });
-      if (notesResponse.ok) {
-        const notesData = await notesResponse.json();
-        const rowData = notesData.sheets?.[0]?.data?.[0]?.rowData || [];
-        rowData.forEach((row: any, index: number) => {
-          if (row.values?.[0]?.note) notesMap[index] = row.values[0].note;
-        });
+      const notesCol = this.notesColumn();
+      const pages: string[] = [];
+      for (let start = 2; start <= rowCount; start += ROWS_PER_PAGE) {
+        pages.push(`${worksheetName}!${notesCol}${start}:${notesCol}${Math.min(start + ROWS_PER_PAGE - 1, rowCount)}`);
       }
+      notesMap = await this.readNotes(pages);
     } catch (err) {
       console.warn('Failed to fetch notes:', err);
     }
 
     const leads = rows
-      .map((row: any[], i: number) => {
-        const travellerName = row[this.columnToIndex(cm.travellerName || 'E')] || '';
-        const dateAndTime = row[this.columnToIndex(cm.dateAndTime || 'B')] || '';
-        
-        // ✅ Use actual row number from metadata, or fallback to sequential
-        const actualRow = actualRowNumbers[i] || (i + 2);
-        
-        return {
-          tripId: row[this.columnToIndex(cm.tripId || 'A')] || '',
-          dateAndTime,
-          consultant: row[this.columnToIndex(cm.consultant || 'C')] || '',
-          status: row[this.columnToIndex(cm.status || 'D')] || '',
-          travellerName,
-          travelDate: row[this.columnToIndex(cm.travelDate || 'G')] || '',
-          travelState: row[this.columnToIndex(cm.travelState || 'H')] || '',
-          remarks: row[this.columnToIndex(cm.remarks || 'K')] || '',
-          nights: row[this.columnToIndex(cm.nights || 'L')] || '',
-          pax: row[this.columnToIndex(cm.pax || 'M')] || '',
-          hotelCategory: row[this.columnToIndex(cm.hotelCategory || 'N')] || '',
-          mealPlan: row[this.columnToIndex(cm.mealPlan || 'O')] || '',
-          phone: row[this.columnToIndex(cm.phone || 'P')] || '',
-          email: row[this.columnToIndex(cm.email || 'Q')] || '',
-          priority: row[this.columnToIndex(cm.priority || '')] || '',
-          remarkHistory:
-            (cm.remarkHistory
-              ? (row[this.columnToIndex(cm.remarkHistory || '')] || '').toString().split(';')
-              : []) || [],
-          notes: notesMap[i] || '',
-          // ✅ CRITICAL: Store the ACTUAL row number from Google Sheets
-          _rowNumber: actualRow,
-        };
-      })
+      .map((row, i) => this.parseLeadRow(row, i + 2, notesMap.get(i + 2) || ''))
       .filter((l) => l.travellerName && l.dateAndTime);
 
     // Debug logging
@@ -302,206 +566,914 @@ export class GoogleSheetsService {
       });
     }
 
-    this.leadsCache = {
-      data: leads,
-      timestamp: Date.now(),
-    };
+    const idIndex = this.columnToIndex(this.leadIdColumn());
+    const markerIndex = this.columnToIndex(this.markerColumn());
+    // Stop where the delta fetch will: at the last row with a value in one of the columns it reads
+    const deltaIndexes = [this.leadIdColumn(), this.markerColumn(), ...this.leadExtentColumns()].map((col) => this.columnToIndex(col));
+    let deltaRowCount = rows.length;
+    while (deltaRowCount > 0 && !deltaIndexes.some((i) => String(rows[deltaRowCount - 1][i] ?? '') !== '')) deltaRowCount--;
+    deltaCaches.set(this.deltaCacheKey(), {
+      leads: new Map(leads.map((l) => [l._rowNumber!, l])),
+      markers: rows.slice(0, deltaRowCount).map((row) => rowMarker(row[idIndex], row[markerIndex])),
+      fullFetchedAt: Date.now(),
+    });
 
     console.log(`✅ Fetched ${leads.length} leads and cached them`);
     return leads;
   }
 
-  /** Append new lead */
-  async appendLead(lead: Partial<SheetLead>): Promise<void> {
+  /**
+   * Read just the ID and timeStamp columns, then re-read the rows whose marker
+   * differs from the last fetch. The columns every lead fills are read too, so
+   * rows pasted in by hand or written by a form (no ID or marker yet) still
+   * count as new. Returns null when a full fetch is needed instead.
+   */
+  private async fetchLeadsDelta(delta: DeltaCache): Promise<SheetLead[] | null> {
     const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
-    const range = `${worksheetName}!A:Z`;
+    const idCol = this.leadIdColumn();
+    const markerCol = this.markerColumn();
+    const extentCols = this.leadExtentColumns().filter((col) => col !== idCol && col !== markerCol);
+    // Open-ended column ranges run to the last row of the worksheet
+    const [ids, stamps, ...extents] = await this.batchReadRanges([
+      `${worksheetName}!${idCol}2:${idCol}`,
+      `${worksheetName}!${markerCol}2:${markerCol}`,
+      ...extentCols.map((col) => `${worksheetName}!${col}2:${col}`),
+    ]);
+
+    const rowCount = Math.max(ids.length, stamps.length, ...extents.map((rows) => rows.length));
+    if (rowCount < delta.markers.length) {
+      console.log('📉 Rows were removed from the sheet, doing a full fetch');
+      return null;
+    }
+
+    const markers = Array.from({ length: rowCount }, (_, i) => rowMarker(ids[i]?.[0], stamps[i]?.[0]));
+    const changedRows = markers
+      .map((marker, i) => (marker !== delta.markers[i] ? i + 2 : 0))
+      .filter(Boolean);
+
+    if (changedRows.length > MAX_DELTA_ROWS) {
+      console.log(`📈 ${changedRows.length} rows changed, doing a full fetch`);
+      return null;
+    }
+
+    if (changedRows.length > 0) {
+      const fetched = await this.readRows(changedRows);
+      let notes: Map<number, string> | null = null;
+      try {
+        const notesCol = this.notesColumn();
+        notes = await this.readNotes(rowBlocks(changedRows).map((b) => `${worksheetName}!${notesCol}${b.start}:${notesCol}${b.end}`));
+      } catch (err) {
+        console.warn('Failed to fetch notes:', err);
+      }
+      for (const rowNumber of changedRows) {
+        const previous = delta.leads.get(rowNumber);
+        const note = notes ? notes.get(rowNumber) || '' : previous?.notes || '';
+        const lead = this.parseLeadRow(fetched.get(rowNumber) || [], rowNumber, note);
+        if (lead.travellerName && lead.dateAndTime) {
+          delta.leads.set(rowNumber, lead);
+        } else {
+          delta.leads.delete(rowNumber);
+        }
+      }
+    }
+    delta.markers = markers;
+
+    console.log(`⚡ Delta fetch: ${changedRows.length} changed row(s) of ${rowCount}`);
+    return [...delta.leads.values()].sort((a, b) => (a._rowNumber || 0) - (b._rowNumber || 0));
+  }
+
+  /** Read whole lead rows by row number, batching contiguous rows into one range */
+  private async readRows(rowNumbers: number[]): Promise<Map<number, SheetRow>> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const blocks = rowBlocks(rowNumbers);
+
+    const result = new Map<number, SheetRow>();
+    for (let i = 0; i < blocks.length; i += RANGES_PER_BATCH) {
+      const chunk = blocks.slice(i, i + RANGES_PER_BATCH);
+      const values = await this.batchReadRanges(chunk.map((b) => `${worksheetName}!A${b.start}:AZ${b.end}`));
+      chunk.forEach((block, j) => {
+        (values[j] || []).forEach((row, k) => result.set(block.start + k, row));
+      });
+    }
+    return result;
+  }
+
+  /** values:batchGet for several A1 ranges in one request */
+  private async batchReadRanges(ranges: string[]): Promise<SheetRow[][]> {
+    const params = ranges.map((r) => `ranges=${encodeURIComponent(r)}`).join('&');
+    let url = `${SHEETS_API_BASE}/${this.config.sheetId}/values:batchGet?${params}`;
+    const headers: Record<string, string> = {};
+    if (this.config.serviceAccountJson) {
+      headers['Authorization'] = `Bearer ${await this.getAccessToken()}`;
+    } else if (this.config.apiKey) {
+      url += `&key=${this.config.apiKey}`;
+    } else {
+      throw new Error('Missing credentials: provide Service Account JSON or API Key');
+    }
+
+    const response = await fetch(url, { headers });
+    if (!response.ok) throw new Error(`Failed to read ranges: ${response.statusText}`);
+    const data: { valueRanges?: { values?: SheetRow[] }[] } = await response.json();
+    return (data.valueRanges || []).map((vr) => vr.values || []);
+  }
+  /** Cell notes for several single-column A1 ranges, keyed by sheet row number */
+  private async readNotes(ranges: string[]): Promise<Map<number, string>> {
+    const notes = new Map<number, string>();
+    for (let i = 0; i < ranges.length; i += RANGES_PER_BATCH) {
+      const params = ranges.slice(i, i + RANGES_PER_BATCH).map((r) => `ranges=${encodeURIComponent(r)}`).join('&');
+      let url = `${SHEETS_API_BASE}/${this.config.sheetId}?${params}&fields=sheets.data(startRow,rowData.values.note)`;
+      const headers: Record<string, string> = {};
+      if (this.config.serviceAccountJson) {
+        headers['Authorization'] = `Bearer ${await this.getAccessToken()}`;
+      } else if (this.config.apiKey) {
+        url += `&key=${this.config.apiKey}`;
+      } else {
+        throw new Error('Missing credentials: provide Service Account JSON or API Key');
+      }
+
+      const response = await fetch(url, { headers });
+      if (!response.ok) throw new Error(`Failed to read notes: ${response.statusText}`);
+      const data: { sheets?: { data?: { startRow?: number; rowData?: { values?: { note?: string }[] }[] }[] }[] } = await response.json();
+      for (const grid of data.sheets?.[0]?.data || []) {
+        (grid.rowData || []).forEach((row, k) => {
+          const note = row.values?.[0]?.note;
+          if (note) notes.set((grid.startRow || 0) + k + 1, note);
+        });
+      }
+    }
+    return notes;
+  }
+
+  /** Numeric sheetId of a worksheet, or undefined when the spreadsheet has no such worksheet */
+  private async findWorksheetGid(title: string): Promise<number | undefined> {
+    const cached = this.worksheetGids.get(title);
+    if (cached !== undefined) return cached;
+
     const token = await this.getAccessToken();
+    const url = `${SHEETS_API_BASE}/${this.config.sheetId}?fields=sheets.properties(sheetId,title)`;
+    const response = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+    if (!response.ok) throw new Error(`Failed to read worksheet list: ${response.statusText}`);
+    const data = await response.json();
+    const sheets: { properties: WorksheetProperties }[] = data.sheets || [];
+    for (const sheet of sheets) {
+      this.worksheetGids.set(sheet.properties.title, sheet.properties.sheetId);
+    }
+    return this.worksheetGids.get(title);
+  }
+
+  /** Numeric sheetId of a worksheet, needed by spreadsheets.batchUpdate requests */
+  private async worksheetGid(title: string): Promise<number> {
+    const gid = await this.findWorksheetGid(title);
+    if (gid === undefined) throw new Error(`Worksheet "${title}" not found`);
+    return gid;
+  }
+
+  /** Create a worksheet with the given header row unless it already exists */
+  private async ensureWorksheet(title: string, headers: string[]): Promise<void> {
+    if ((await this.findWorksheetGid(title)) !== undefined) return;
+
+    const token = await this.getAccessToken();
+    const res = await fetch(`${SHEETS_API_BASE}/${this.config.sheetId}:batchUpdate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ requests: [{ addSheet: { properties: { title } } }] }),
+    });
+    if (!res.ok) throw new Error(await res.text());
+    const data = await res.json();
+    const gid = data.replies?.[0]?.addSheet?.properties?.sheetId;
+    if (gid !== undefined) this.worksheetGids.set(title, gid);
+
+    await this.writeCells([{ range: `${title}!A1`, values: [headers] }]);
+    console.log(`📄 Created worksheet "${title}"`);
+  }
+
+  /** Columns at least one of which is filled on every lead row; the longest one ends at the last lead */
+  private leadExtentColumns(): string[] {
     const cm = this.config.columnMappings;
+    return [...new Set([this.leadIdColumn(), cm.tripId || 'A', cm.dateAndTime || 'B', cm.travellerName || 'E'])];
+  }
 
-    const row: any[] = [];
-    const maxCol = Math.max(...Object.values(cm).map((c) => this.columnToIndex(c)));
+  /** Last row holding a lead in a worksheet laid out like MASTER DATA; 1 when there is only the header */
+  private async lastLeadRow(title: string): Promise<number> {
+    // values.get trims trailing blank rows, so each column's length is its last used row
+    const columns = await this.batchReadRanges(this.leadExtentColumns().map((col) => `${title}!${col}1:${col}`));
+    return Math.max(1, ...columns.map((rows) => rows.length));
+  }
 
-    for (let i = 0; i <= maxCol; i++) row[i] = '';
+  /** Current row of every lead ID in a worksheet laid out like MASTER DATA */
+  private async leadRowsById(title: string): Promise<Map<string, number>> {
+    const col = this.leadIdColumn();
+    const rows = await this.readRange(`${title}!${col}2:${col}`);
+    const byId = new Map<string, number>();
+    rows.forEach((row, index) => {
+      const id = String(row?.[0] ?? '').trim();
+      if (id && !byId.has(id)) byId.set(id, index + 2);
+    });
+    return byId;
+  }
 
-    for (const [key, col] of Object.entries(cm)) {
-      if (!col) continue;
-      const idx = this.columnToIndex(col);
-      if (key in lead && lead[key as keyof SheetLead] !== undefined) {
-        const value = lead[key as keyof SheetLead];
-        row[idx] = Array.isArray(value) ? value.join('; ') : value;
+  /**
+   * Move whole rows (values, formatting and notes) below the last lead of
+   * another worksheet and delete them from the source, in one atomic
+   * spreadsheets.batchUpdate. Blocks are deleted bottom-up so the row numbers
+   * of the blocks still to delete stay valid.
+   */
+  private async moveRows(from: string, to: string, rowNumbers: number[]): Promise<void> {
+    const fromGid = await this.worksheetGid(from);
+    const toGid = await this.worksheetGid(to);
+    const fromGrid = await this.worksheetGrid(from);
+    const toGrid = await this.worksheetGrid(to);
+    const lastRow = await this.lastLeadRow(to);
+    const blocks = rowBlocks(rowNumbers);
+
+    const requests: SheetUpdateRequest[] = [];
+    const missingRows = lastRow + rowNumbers.length - toGrid.rowCount;
+    if (missingRows > 0) {
+      requests.push({ appendDimension: { sheetId: toGid, dimension: 'ROWS', length: missingRows } });
+    }
+    if (fromGrid.columnCount > toGrid.columnCount) {
+      requests.push({ appendDimension: { sheetId: toGid, dimension: 'COLUMNS', length: fromGrid.columnCount - toGrid.columnCount } });
+    }
+    let destination = lastRow;
+    for (const block of blocks) {
+      const length = block.end - block.start + 1;
+      requests.push({
+        copyPaste: {
+          source: { sheetId: fromGid, startRowIndex: block.start - 1, endRowIndex: block.end, startColumnIndex: 0, endColumnIndex: fromGrid.columnCount },
+          destination: { sheetId: toGid, startRowIndex: destination, endRowIndex: destination + length, startColumnIndex: 0, endColumnIndex: fromGrid.columnCount },
+          pasteType: 'PASTE_NORMAL',
+        },
+      });
+      destination += length;
+    }
+    for (const block of [...blocks].reverse()) {
+      requests.push({
+        deleteDimension: { range: { sheetId: fromGid, dimension: 'ROWS', startIndex: block.start - 1, endIndex: block.end } },
+      });
+    }
+
+    const token = await this.getAccessToken();
+    const res = await fetch(`${SHEETS_API_BASE}/${this.config.sheetId}:batchUpdate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ requests }),
+    });
+    if (!res.ok) throw new Error(await res.text());
+    console.log(`🚚 Moved ${rowNumbers.length} row(s) from "${from}" to "${to}"`);
+  }
+
+  /**
+   * Move leads between MASTER DATA and the ARCHIVE worksheet by lead ID.
+   * Row numbers shift after the delete, so the lead caches are dropped.
+   */
+  private async moveLeads(leads: SheetLead[], from: string, to: string): Promise<BulkUpdateResult[]> {
+    const results: BulkUpdateResult[] = leads.map((lead) => ({ lead, ok: false }));
+    const ids = new Map<BulkUpdateResult, string>();
+    for (const result of results) {
+      try {
+        // Rows that predate lead IDs get one first (only possible while still in MASTER DATA)
+        ids.set(result, from === ARCHIVE_WORKSHEET ? result.lead.uniqueKey || '' : await this.ensureLeadId(result.lead));
+      } catch (error: unknown) {
+        result.error = errorMessage(error);
+      }
+    }
+
+    // Read the ID column right before moving, so the rows deleted are the rows copied
+    const rowsById = await this.leadRowsById(from);
+    const rows = new Set<number>();
+    for (const [result, id] of ids) {
+      const row = rowsById.get(id);
+      if (row) {
+        rows.add(row);
+        result.ok = true;
+      } else {
+        result.error = `Lead not found in ${from}. It may have been moved already.`;
       }
     }
 
+    if (rows.size > 0) {
+      await this.moveRows(from, to, [...rows]);
+      this.clearLeadsCache();
+      deltaCaches.delete(this.deltaCacheKey());
+    }
+    return results;
+  }
+
+  /** Create the ARCHIVE worksheet with the MASTER DATA header row */
+  private async ensureArchiveWorksheet(): Promise<void> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const [headers = []] = await this.readRange(`${worksheetName}!1:1`);
+    await this.ensureWorksheet(ARCHIVE_WORKSHEET, headers);
+  }
+
+  /** Move leads to the ARCHIVE worksheet and delete their MASTER DATA rows */
+  async archiveLeads(leads: SheetLead[]): Promise<BulkUpdateResult[]> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    await this.ensureArchiveWorksheet();
+    const results = await this.moveLeads(leads, worksheetName, ARCHIVE_WORKSHEET);
+    const archived = results.filter((r) => r.ok);
+    console.log(`📦 Archived ${archived.length}/${results.length} lead(s)`);
+    await this.writeAudit(archived.flatMap(({ lead }) =>
+      createAuditEntries({ leadId: lead.uniqueKey || '', leadName: lead.travellerName }, [{ field: 'archived', newValue: 'yes' }])
+    ));
+    return results;
+  }
+
+  /** Move archived leads back to the bottom of MASTER DATA */
+  async restoreLeads(leads: SheetLead[]): Promise<BulkUpdateResult[]> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const results = await this.moveLeads(leads, ARCHIVE_WORKSHEET, worksheetName);
+    const restored = results.filter((r) => r.ok);
+    console.log(`♻️ Restored ${restored.length}/${results.length} lead(s)`);
+    await this.writeAudit(restored.flatMap(({ lead }) =>
+      createAuditEntries({ leadId: lead.uniqueKey || '', leadName: lead.travellerName }, [{ field: 'archived', oldValue: 'yes', newValue: 'no' }])
+    ));
+    return results;
+  }
+
+  /** Leads in the ARCHIVE worksheet (empty when nothing was archived yet); _rowNumber is the ARCHIVE row */
+  async fetchArchivedLeads(): Promise<SheetLead[]> {
+    let rows: SheetRow[];
+    try {
+      rows = (await this.readAllRows(ARCHIVE_WORKSHEET, 'A', 'AZ')).rows;
+    } catch (error) {
+      console.warn('⚠️ Could not read archive:', error);
+      return [];
+    }
+    let notes = new Map<number, string>();
+    try {
+      const notesCol = this.notesColumn();
+      notes = await this.readNotes([`${ARCHIVE_WORKSHEET}!${notesCol}2:${notesCol}`]);
+    } catch (err) {
+      console.warn('Failed to fetch notes:', err);
+    }
+    return rows
+      .map((row, i) => this.parseLeadRow(row, i + 2, notes.get(i + 2) || ''))
+      .filter((l) => l.travellerName && l.dateAndTime);
+  }
+
+  /** Remark log entries for a lead, oldest first (empty when the REMARKS worksheet doesn't exist yet) */
+  async fetchRemarks(leadId: string): Promise<RemarkEntry[]> {
+    let rows: SheetRow[];
+    try {
+      rows = await this.readRange(`${REMARKS_WORKSHEET}!A2:F`);
+    } catch (error) {
+      console.warn('⚠️ Could not read remark log:', error);
+      return [];
+    }
+    return sortRemarks(rows.map(remarkFromRow).filter((entry) => entry.leadId === leadId));
+  }
+
+  /** SETTINGS worksheet values by setting name (empty when no setting was saved yet) */
+  async fetchSharedSettings(): Promise<Map<string, string>> {
+    if (!(await this.worksheetProperties(SETTINGS_WORKSHEET))) return new Map();
+    const rows = await this.readRange(`${SETTINGS_WORKSHEET}!A2:B`);
+    return new Map(
+      rows
+        .filter((row) => String(row?.[0] ?? '').trim())
+        .map((row) => [String(row[0]).trim(), String(row[1] ?? '')])
+    );
+  }
+
+  /** Save a SETTINGS value, replacing the setting's row or adding one */
+  async saveSharedSetting(name: string, value: string): Promise<void> {
+    await this.ensureWorksheet(SETTINGS_WORKSHEET, SETTINGS_HEADERS);
+    const names = await this.readRange(`${SETTINGS_WORKSHEET}!A2:A`);
+    const index = names.findIndex((row) => String(row?.[0] ?? '').trim() === name);
+    const rowNumber = (index >= 0 ? index : names.length) + 2;
+    await this.writeCells([{
+      range: `${SETTINGS_WORKSHEET}!A${rowNumber}:C${rowNumber}`,
+      values: [[name, value, toSheetTimestamp(new Date())]],
+    }]);
+    console.log(`⚙️ Saved shared setting "${name}"`);
+  }
+
+  /** Append rows below a log worksheet's existing data, creating the worksheet if needed */
+  private async appendLogRows(title: string, headers: string[], rows: string[][]): Promise<void> {
+    await this.ensureWorksheet(title, headers);
+    const token = await this.getAccessToken();
+    const range = encodeURIComponent(`${title}!A:${indexToColumn(headers.length - 1)}`);
+    // RAW keeps text like "=5 pax" from being read as a formula
+    const url = `${SHEETS_API_BASE}/${this.config.sheetId}/values/${range}:append?valueInputOption=RAW&insertDataOption=INSERT_ROWS`;
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ values: rows }),
+    });
+    if (!res.ok) throw new Error(await res.text());
+  }
+
+  /** Append one entry to the REMARKS worksheet; existing rows are never rewritten */
+  async appendRemark(entry: RemarkEntry): Promise<void> {
+    await this.appendLogRows(REMARKS_WORKSHEET, REMARK_LOG_HEADERS, [remarkToRow(entry)]);
+    console.log(`💬 Remark logged for lead ${entry.leadId}`);
+    await this.audit({ leadId: entry.leadId }, [{ field: 'remarkLog', newValue: entry.text }]);
+  }
+
+  private auditWorksheet(): string {
+    return this.config.auditWorksheet || DEFAULT_AUDIT_WORKSHEET;
+  }
+
+  private audit(lead: { leadId: string; leadName?: string }, changes: AuditChange[]): Promise<void> {
+    return this.writeAudit(createAuditEntries(lead, changes));
+  }
+
+  /** Append to the AUDIT worksheet. Never fails the write it describes. */
+  private async writeAudit(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    try {
+      await this.appendLogRows(this.auditWorksheet(), AUDIT_HEADERS, entries.map(auditToRow));
+    } catch (error) {
+      console.error('❌ Failed to write audit trail:', error);
+    }
+  }
+
+  /** Every audit entry, oldest first (empty when the AUDIT worksheet doesn't exist yet) */
+  async fetchAuditEntries(): Promise<AuditEntry[]> {
+    let rows: SheetRow[];
+    try {
+      rows = await this.readRange(`${this.auditWorksheet()}!A2:I`);
+    } catch (error) {
+      console.warn('⚠️ Could not read audit trail:', error);
+      return [];
+    }
+    return rows.map(auditFromRow).filter((entry) => entry.timestamp);
+  }
+
+  /** Set (or clear, with an empty string) the cell note on a lead row's notes column */
+  private async writeNote(rowNumber: number, note: string): Promise<void> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const gid = await this.worksheetGid(worksheetName);
+    const col = this.columnToIndex(this.notesColumn());
+    const token = await this.getAccessToken();
+
+    const res = await fetch(`${SHEETS_API_BASE}/${this.config.sheetId}:batchUpdate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({
+        requests: [{
+          updateCells: {
+            range: {
+              sheetId: gid,
+              startRowIndex: rowNumber - 1,
+              endRowIndex: rowNumber,
+              startColumnIndex: col,
+              endColumnIndex: col + 1,
+            },
+            rows: [{ values: [{ note }] }],
+            fields: 'note',
+          },
+        }],
+      }),
+    });
+
+    if (!res.ok) {
+      const errText = await res.text();
+      console.error('❌ Failed to write note:', errText);
+      throw new Error(errText);
+    }
+    console.log(`  🗒️ Note updated on ${worksheetName}!${this.notesColumn()}${rowNumber}`);
+  }
+
+
+  /** Trip IDs currently in MASTER DATA, by row number */
+  private async readTripIds(): Promise<Map<number, string>> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const col = this.config.columnMappings.tripId;
+    const rows = await this.readRange(`${worksheetName}!${col}2:${col}`);
+    const ids = new Map<number, string>();
+    rows.forEach((row, index) => {
+      const id = String(row?.[0] ?? '').trim();
+      if (id) ids.set(index + 2, id);
+    });
+    return ids;
+  }
+
+  /** Trip IDs of archived leads: they stay taken, so a restored lead never shares its ID */
+  private async readArchivedTripIds(): Promise<string[]> {
+    if ((await this.findWorksheetGid(ARCHIVE_WORKSHEET)) === undefined) return []; // nothing archived yet
+    const col = this.config.columnMappings.tripId;
+    const rows = await this.readRange(`${ARCHIVE_WORKSHEET}!${col}2:${col}`);
+    return rows.map((row) => String(row?.[0] ?? '').trim()).filter(Boolean);
+  }
+
+  /**
+   * Two devices adding at the same moment can both pick the same number.
+   * Appended rows keep their order, so the lower row keeps the ID and the
+   * later one moves on to the next free number. `tripIds` are the generated
+   * IDs of the rows starting at `firstRow` (null where the ID was supplied).
+   */
+  private async settleTripIds(firstRow: number, tripIds: (string | null)[]): Promise<(string | null)[]> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const format = normalizeTripIdFormat(this.config.tripIdFormat);
+    const settled = [...tripIds];
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const [ids, archived] = await Promise.all([this.readTripIds(), this.readArchivedTripIds()]);
+      const firstRowWith = new Map<string, number>();
+      for (const [row, id] of ids) if (!firstRowWith.has(id)) firstRowWith.set(id, row);
+      const archivedIds = new Set(archived);
+
+      const clashes = settled.flatMap((id, i) =>
+        id && (archivedIds.has(id) || firstRowWith.get(id)! < firstRow + i) ? [i] : []
+      );
+      if (clashes.length === 0) return settled;
+
+      const fresh = allocateTripIds(format, [...ids.values(), ...archived], clashes.map(() => new Date()));
+      clashes.forEach((i, n) => {
+        console.warn(`⚠️ Trip ID ${settled[i]} was taken by another device, using ${fresh[n]}`);
+        settled[i] = fresh[n];
+      });
+      await this.writeCells(clashes.map((i) => ({
+        range: `${worksheetName}!${this.config.columnMappings.tripId}${firstRow + i}`,
+        values: [[settled[i]]],
+      })));
+    }
+    console.error(`❌ Could not settle unique Trip IDs for rows from ${firstRow}`);
+    return settled;
+  }
+
+  /** Append new lead. Returns the lead's stable ID (generated when not supplied). */
+  async appendLead(lead: Partial<SheetLead>): Promise<string> {
+    const [uniqueKey] = await this.appendLeads([lead]);
+    return uniqueKey;
+  }
+
+  /** Append new leads in one request. Returns their stable IDs (generated when not supplied), in order. */
+  async appendLeads(leads: Partial<SheetLead>[]): Promise<string[]> {
+    if (leads.length === 0) return [];
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const range = `${worksheetName}!A:AZ`;
+    const token = await this.getAccessToken();
+    const cm = { ...this.config.columnMappings, uniqueKey: this.leadIdColumn() };
+    leads = leads.map((lead) => ({ ...lead, uniqueKey: lead.uniqueKey || generateLeadId() }));
+
+    const generated = leads.map((lead) => !String(lead.tripId ?? '').trim() && !!this.config.columnMappings.tripId);
+    if (generated.some(Boolean)) {
+      const format = normalizeTripIdFormat(this.config.tripIdFormat);
+      const [ids, archived] = await Promise.all([this.readTripIds(), this.readArchivedTripIds()]);
+      const tripIds = allocateTripIds(format, [...ids.values(), ...archived], generated.filter(Boolean).map(() => new Date()));
+      let next = 0;
+      leads.forEach((lead, i) => {
+        if (generated[i]) lead.tripId = tripIds[next++];
+      });
+    }
+
+    const maxCol = Math.max(...Object.values(cm).filter(Boolean).map((c) => this.columnToIndex(c)));
+    const rows = leads.map((lead) => {
+      const row: SheetRow = [];
+      for (let i = 0; i <= maxCol; i++) row[i] = '';
+
+      for (const [key, col] of Object.entries(cm)) {
+        if (!col || key === 'notes') continue; // written as a cell note below
+        const idx = this.columnToIndex(col);
+        if (key in lead && lead[key as keyof SheetLead] !== undefined) {
+          row[idx] = this.toSheetValue(key, lead[key as keyof SheetLead]);
+        }
+      }
+      return row;
+    });
+
     const url = `${SHEETS_API_BASE}/${this.config.sheetId}/values/${encodeURIComponent(range)}:append?valueInputOption=USER_ENTERED`;
     const res = await fetch(url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
-      body: JSON.stringify({ values: [row] }),
+      body: JSON.stringify({ values: rows }),
     });
 
     if (!res.ok) throw new Error(await res.text());
-    console.log('✅ Lead appended');
+    console.log(`✅ ${leads.length} lead(s) appended`);
+
+    const result = await res.json();
+    const firstRow = Number(String(result.updates?.updatedRange || '').match(/![A-Z]+(\d+)/)?.[1]);
+    if (firstRow) {
+      if (generated.some(Boolean)) {
+        const settled = await this.settleTripIds(firstRow, leads.map((lead, i) => (generated[i] ? lead.tripId! : null)));
+        settled.forEach((tripId, i) => {
+          if (tripId) leads[i].tripId = tripId;
+        });
+      }
+      for (const [i, lead] of leads.entries()) {
+        if (lead.notes) await this.writeNote(firstRow + i, lead.notes);
+      }
+    }
     
     this.clearLeadsCache();
+    await this.writeAudit(leads.flatMap((lead, i) =>
+      createAuditEntries({ leadId: lead.uniqueKey!, leadName: lead.travellerName }, [
+        { field: 'created', newValue: lead.status || '' },
+        ...(generated[i] ? [{ field: 'tripId', newValue: lead.tripId }] : []),
+      ])
+    ));
+    return leads.map((lead) => lead.uniqueKey!);
   }
 
-  /** Parse a date from common formats into a Date object */
-  private parseFlexibleDate(input: string): Date | null {
-    if (!input) return null;
-    const s = String(input).trim();
-
-    // mm/dd/yyyy
-    const m1 = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
-    if (m1) {
-      const mm = Number(m1[1]);
-      const dd = Number(m1[2]);
-      let yy = Number(m1[3]);
-      if (yy < 100) yy = 2000 + yy;
-      const d = new Date(yy, mm - 1, dd);
-      return isNaN(d.getTime()) ? null : d;
-    }
-
-    // dd-Month-yy or dd-Month-yyyy (e.g., 03-April-25)
-    const m2 = s.match(/^(\d{1,2})-([A-Za-z]+)-(\d{2,4})$/);
-    if (m2) {
-      const dd = Number(m2[1]);
-      const monthName = m2[2];
-      let yy = Number(m2[3]);
-      if (yy < 100) yy = 2000 + yy;
-      const monthIndex = new Date(`${monthName} 1, 2000`).getMonth();
-      if (isNaN(monthIndex)) return null;
-      const d = new Date(yy, monthIndex, dd);
-      return isNaN(d.getTime()) ? null : d;
-    }
-
-    return null;
-  }
-
-  /** Format Date to mm/dd/yyyy */
-  private toMMDDYYYY(date: Date): string {
-    const mm = String(date.getMonth() + 1).padStart(2, '0');
-    const dd = String(date.getDate()).padStart(2, '0');
-    const yyyy = String(date.getFullYear());
-    return `${mm}/${dd}/${yyyy}`;
-  }
-
-  /** Update a lead by (date+traveller) using stored row number */
-  async updateLead(dateAndTime: string, travellerName: string, updates: Partial<SheetLead>): Promise<void>;
-  async updateLead(lead: Pick<SheetLead, 'dateAndTime' | 'travellerName'>, updates: Partial<SheetLead>): Promise<void>;
-  async updateLead(a: any, b: any, c?: any): Promise<void> {
-    let dateAndTime: string;
-    let travellerName: string;
-    let updates: Partial<SheetLead>;
-
-    if (typeof a === 'string') {
-      dateAndTime = a;
-      travellerName = b;
-      updates = c || {};
-    } else {
-      dateAndTime = a?.dateAndTime;
-      travellerName = a?.travellerName;
-      updates = b || {};
+  /**
+   * Resolve a lead ID to its current sheet row.
+   * Uses the cached row number when the ID cell still matches, otherwise re-fetches.
+   */
+  private async findLeadRow(leadId: string): Promise<number> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const col = this.leadIdColumn();
+
+    const cached = (await this.fetchLeads()).find((l) => l.uniqueKey === leadId);
+    if (cached?._rowNumber) {
+      const cell = await this.readRange(`${worksheetName}!${col}${cached._rowNumber}`);
+      if (String(cell?.[0]?.[0] || '').trim() === leadId) return cached._rowNumber;
+      console.warn(`⚠️ Row ${cached._rowNumber} no longer holds lead ${leadId}, refreshing`);
     }
 
-    if (!dateAndTime || !travellerName) {
-      throw new Error('Date + Traveller Name required to update lead');
+    const fresh = (await this.fetchLeads(true)).find((l) => l.uniqueKey === leadId);
+    if (!fresh?._rowNumber || fresh._rowNumber < 2) {
+      throw new Error(`Lead not found for ID "${leadId}". It may have been deleted from the sheet.`);
+    }
+    return fresh._rowNumber;
+  }
+
+  /**
+   * Return the lead's stable ID, backfilling it on the sheet first if the row
+   * predates the Unique Key column. The row is re-read to make sure it still
+   * belongs to this traveller before anything is written.
+   */
+  async ensureLeadId(lead: SheetLead): Promise<string> {
+    if (lead.uniqueKey) return lead.uniqueKey;
+    if (!lead._rowNumber || lead._rowNumber < 2) {
+      throw new Error('Lead has no ID and no row number. Please refresh leads data.');
     }
 
-    const leads = await this.fetchLeads();
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const cm = this.config.columnMappings;
+    const [row = []] = await this.readRange(`${worksheetName}!A${lead._rowNumber}:AZ${lead._rowNumber}`);
+    const sheetName = String(row[this.columnToIndex(cm.travellerName || 'E')] || '').trim().toLowerCase();
+    const existingKey = String(row[this.columnToIndex(this.leadIdColumn())] || '').trim();
 
-    const targetDate = this.parseFlexibleDate(dateAndTime);
+    if (sheetName !== String(lead.travellerName || '').trim().toLowerCase()) {
+      throw new Error('Sheet rows have moved since this lead was loaded. Please refresh leads data.');
+    }
+    if (existingKey) return existingKey;
 
-    const sameDay = (d1: Date | null, d2: Date | null) =>
-      !!d1 && !!d2 && 
-      d1.getFullYear() === d2.getFullYear() && 
-      d1.getMonth() === d2.getMonth() && 
-      d1.getDate() === d2.getDate();
+    const uniqueKey = generateLeadId();
+    await this.writeCells([{ range: `${worksheetName}!${this.leadIdColumn()}${lead._rowNumber}`, values: [[uniqueKey]] }]);
+    console.log(`🔑 Backfilled lead ID for row ${lead._rowNumber}`);
+    this.clearLeadsCache();
+    await this.audit({ leadId: uniqueKey, leadName: lead.travellerName }, [{ field: 'uniqueKey', newValue: uniqueKey }]);
+    return uniqueKey;
+  }
 
-    const matchedLead = leads.find((l) => {
-      const ld = this.parseFlexibleDate(l.dateAndTime);
-      const dateMatch = sameDay(targetDate, ld) || String(l.dateAndTime).trim() === String(dateAndTime).trim();
-      const nameMatch = String(l.travellerName).trim().toLowerCase() === String(travellerName).trim().toLowerCase();
-      return dateMatch && nameMatch;
-    });
+  /**
+   * Assign IDs to every lead row that has none (or shares a duplicated ID).
+   * Returns the number of rows that were given a new ID.
+   */
+  async backfillLeadIds(): Promise<number> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const col = this.leadIdColumn();
+    const leads = await this.fetchLeads(true);
+    const seen = new Set<string>();
+    const updateData: CellWrite[] = [];
+    const audited: { lead: SheetLead; uniqueKey: string }[] = [];
 
-    if (!matchedLead) {
-      console.error('❌ Lead not found. Search criteria:', { dateAndTime, travellerName });
-      console.error('📋 Available leads sample:', leads.slice(0, 3).map(l => ({
-        date: l.dateAndTime,
-        name: l.travellerName,
-        row: l._rowNumber
-      })));
-      throw new Error(`Lead not found for Date: "${dateAndTime}" and Traveller: "${travellerName}"`);
+    for (const lead of leads) {
+      if (!lead._rowNumber) continue;
+      if (lead.uniqueKey && !seen.has(lead.uniqueKey)) {
+        seen.add(lead.uniqueKey);
+        continue;
+      }
+      const uniqueKey = generateLeadId();
+      seen.add(uniqueKey);
+      updateData.push({ range: `${worksheetName}!${col}${lead._rowNumber}`, values: [[uniqueKey]] });
+      audited.push({ lead, uniqueKey });
     }
 
-    if (!matchedLead._rowNumber || matchedLead._rowNumber < 2) {
-      throw new Error('Invalid row number detected. Please refresh leads data.');
+    if (updateData.length > 0) {
+      await this.writeCells(updateData);
+      this.clearLeadsCache();
+      await this.writeAudit(audited.flatMap(({ lead, uniqueKey }) =>
+        createAuditEntries({ leadId: uniqueKey, leadName: lead.travellerName }, [
+          { field: 'uniqueKey', oldValue: lead.uniqueKey, newValue: uniqueKey },
+        ])
+      ));
     }
+    console.log(`🔑 Backfilled ${updateData.length} lead IDs`);
+    return updateData.length;
+  }
 
-    const rowNumber = matchedLead._rowNumber;
-    
-    console.log(`🎯 Updating lead:`, {
-      date: dateAndTime,
-      traveller: travellerName,
-      actualSheetRow: rowNumber,
-      updates: Object.keys(updates),
+  /**
+   * Give every lead row without a Trip ID one, numbered within the period the
+   * lead was created in. Returns the number of rows that were given an ID.
+   */
+  async backfillTripIds(): Promise<number> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const col = this.config.columnMappings.tripId;
+    if (!col) throw new Error('Map the Trip ID column in Settings before generating Trip IDs.');
+
+    const format = normalizeTripIdFormat(this.config.tripIdFormat);
+    const leads = await this.fetchLeads(true);
+    const blank = leads
+      .filter((lead) => lead._rowNumber && !String(lead.tripId ?? '').trim())
+      .sort((a, b) => a._rowNumber! - b._rowNumber!);
+    if (blank.length === 0) return 0;
+
+    const tripIds = allocateTripIds(
+      format,
+      [...leads.map((lead) => lead.tripId), ...(await this.readArchivedTripIds())],
+      blank.map((lead) => parseSheetTimestamp(lead.dateAndTime) || new Date())
+    );
+    await this.writeCells(blank.map((lead, index) => ({
+      range: `${worksheetName}!${col}${lead._rowNumber}`,
+      values: [[tripIds[index]]],
+    })));
+    this.clearLeadsCache();
+    await this.writeAudit(blank.flatMap((lead, index) =>
+      createAuditEntries({ leadId: lead.uniqueKey || tripIds[index], leadName: lead.travellerName }, [
+        { field: 'tripId', newValue: tripIds[index] },
+      ])
+    ));
+    console.log(`🎫 Backfilled ${blank.length} Trip IDs`);
+    return blank.length;
+  }
+
+  /** Write cell values in a single values:batchUpdate request */
+  private async writeCells(data: CellWrite[]): Promise<void> {
+    const token = await this.getAccessToken();
+    const batchUrl = `${SHEETS_API_BASE}/${this.config.sheetId}/values:batchUpdate`;
+    const res = await fetch(batchUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ valueInputOption: 'USER_ENTERED', data }),
     });
 
+    if (!res.ok) {
+      const errText = await res.text();
+      console.error('❌ Failed to write to Google Sheets:', errText);
+      throw new Error(errText);
+    }
+  }
+
+  /** Normalize a field value to what ends up in the sheet cell */
+  private toSheetValue(key: string, value: unknown): string {
+    if (Array.isArray(value)) return value.join('; ');
+    if ((DATE_FIELDS as readonly string[]).includes(key) && typeof value === 'string') {
+      const iso = toIsoDate(value, this.locale);
+      if (iso) return isoToSheetDate(iso, this.locale);
+    }
+    return String(value ?? '');
+  }
+
+  /** Sheet date cell -> ISO; text that isn't a valid date in the sheet locale is kept as-is */
+  private fromSheetDate(value: unknown): string {
+    const raw = String(value ?? '').trim();
+    return toIsoDate(raw, this.locale) || raw;
+  }
+
+  /** Comparable form of a field value (sheet formatting, trimmed) */
+  private comparable(key: string, value: unknown): string {
+    return this.toSheetValue(key, value).trim();
+  }
+
+  /** Re-read one lead row as it is on the sheet now */
+  private async readLeadRow(rowNumber: number, notes = ''): Promise<SheetLead> {
+    const worksheetName = this.config.worksheetNames[0] || 'MASTER DATA';
+    const [row = []] = await this.readRange(`${worksheetName}!A${rowNumber}:AZ${rowNumber}`);
+    return this.parseLeadRow(row, rowNumber, notes);
+  }
+
+  /** Cell writes for `updates` on the current row, plus the audit changes they make (cell values only, not notes) */
+  private rowUpdate(current: SheetLead, updates: Partial<SheetLead>): { updateData: CellWrite[]; changes: AuditChange[] } {
     const cm = this.config.columnMappings;
-    const token = await this.getAccessToken();
+    const rowNumber = current._rowNumber!;
+    const updateData: CellWrite[] = [];
+    const changes: AuditChange[] = [];
 
-    const updateData: { range: string; values: any[][] }[] = [];
-    
     for (const [key, rawValue] of Object.entries(updates)) {
-      if (rawValue === undefined || ['tripId', 'dateAndTime', 'notes', '_rowNumber'].includes(key)) {
+      if (rawValue === undefined || ['tripId', 'dateAndTime', 'notes', 'uniqueKey', 'timeStamp', '_rowNumber'].includes(key)) {
         continue;
       }
-      
+
       const col = cm[key as keyof typeof cm];
       if (!col) continue;
 
-      let value: any = rawValue;
-      
-      if (key === 'travelDate' && typeof value === 'string') {
-        const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-        if (iso) {
-          const d = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
-          value = this.toMMDDYYYY(d);
-        } else {
-          const d = this.parseFlexibleDate(value);
-          if (d) value = this.toMMDDYYYY(d);
+      const value = this.toSheetValue(key, rawValue);
+      const cellRange = `${this.config.worksheetNames[0]}!${col}${rowNumber}`;
+      updateData.push({ range: cellRange, values: [[value]] });
+      console.log(`  📝 Updating ${cellRange} = "${value}"`);
+
+      const oldValue = this.comparable(key, current[key as keyof SheetLead]);
+      if (oldValue !== this.comparable(key, rawValue)) changes.push({ field: key, oldValue, newValue: value });
+    }
+    return { updateData, changes };
+  }
+
+  /** Bump a row's modification marker so other devices re-read it on their next delta fetch */
+  private markerUpdate(rowNumber: number): CellWrite {
+    return {
+      range: `${this.config.worksheetNames[0]}!${this.markerColumn()}${rowNumber}`,
+      values: [[toSheetTimestamp(new Date(), this.locale)]],
+    };
+  }
+
+  /**
+   * Apply the same updates to many leads in a single values:batchUpdate request.
+   * Each lead is checked against its own version (conflicts, missing rows) first;
+   * rows that fail a check are reported and left untouched, the rest are written together.
+   */
+  async bulkUpdateLeads(leads: SheetLead[], updates: Partial<SheetLead>): Promise<BulkUpdateResult[]> {
+    const fresh = await this.fetchLeads(true);
+    const byId = new Map(fresh.filter((l) => l.uniqueKey).map((l) => [l.uniqueKey!, l]));
+
+    const results: BulkUpdateResult[] = [];
+    const pending: { result: BulkUpdateResult; current: SheetLead; changes: AuditChange[] }[] = [];
+    const updateData: CellWrite[] = [];
+
+    for (const lead of leads) {
+      const result: BulkUpdateResult = { lead, ok: false };
+      results.push(result);
+      try {
+        if (!lead.uniqueKey) throw new Error('Lead has no ID. Run "Backfill Missing Lead IDs" in Settings.');
+        const current = byId.get(lead.uniqueKey);
+        if (!current?._rowNumber) throw new Error('Lead not found. It may have been deleted from the sheet.');
+
+        const merged = mergeAgainstBaseline(current, lead, updates, (key, value) => this.comparable(key, value));
+        const row = this.rowUpdate(current, merged);
+        if (row.updateData.length === 0) {
+          result.ok = true; // someone already made this change
+          continue;
         }
+        updateData.push(...row.updateData, this.markerUpdate(current._rowNumber));
+        pending.push({ result, current, changes: row.changes });
+      } catch (error: unknown) {
+        result.error = errorMessage(error);
+        result.isConflict = error instanceof LeadConflictError;
       }
+    }
 
-      const cellRange = `${this.config.worksheetNames[0]}!${col}${rowNumber}`;
-      updateData.push({ 
-        range: cellRange, 
-        values: [[value]] 
-      });
-      
-      console.log(`  📝 Updating ${cellRange} = "${value}"`);
+    if (updateData.length > 0) {
+      try {
+        await this.writeCells(updateData);
+        pending.forEach(({ result }) => (result.ok = true));
+        this.clearLeadsCache();
+        await this.writeAudit(pending.flatMap(({ current, changes }) =>
+          createAuditEntries({ leadId: current.uniqueKey!, leadName: current.travellerName }, changes)
+        ));
+      } catch (error: unknown) {
+        // values:batchUpdate is all-or-nothing, so none of these rows were written
+        pending.forEach(({ result }) => (result.error = errorMessage(error)));
+      }
     }
 
-    if (updateData.length === 0) {
+    console.log(`📦 Bulk update: ${results.filter((r) => r.ok).length}/${results.length} lead(s) updated`);
+    return results;
+  }
+
+  /**
+   * Update a lead addressed by its stable ID (Unique Key column).
+   * Pass `options.baseline` to refuse overwriting fields someone else changed.
+   */
+  async updateLead(leadId: string, updates: Partial<SheetLead>, options: UpdateLeadOptions = {}): Promise<void> {
+    if (!leadId) {
+      throw new Error('Lead ID required to update lead');
+    }
+
+    const rowNumber = await this.findLeadRow(leadId);
+
+    // The row as it is now: merged against the caller's baseline, and the "old" side of the audit trail
+    const current = await this.readLeadRow(rowNumber, options.baseline?.notes || '');
+    if (options.baseline) {
+      updates = mergeAgainstBaseline(current, options.baseline, updates, (key, value) => this.comparable(key, value));
+    }
+
+    console.log(`🎯 Updating lead:`, {
+      leadId,
+      actualSheetRow: rowNumber,
+      updates: Object.keys(updates),
+    });
+
+    const { updateData, changes } = this.rowUpdate(current, updates);
+
+    // Notes live on the cell's note layer, not in its value
+    const note = updates.notes;
+
+    if (updateData.length === 0 && note === undefined) {
       console.log('⚠️ No fields to update');
       return;
     }
 
-    const batchUrl = `${SHEETS_API_BASE}/${this.config.sheetId}/values:batchUpdate`;
-    const res = await fetch(batchUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
-      body: JSON.stringify({ valueInputOption: 'USER_ENTERED', data: updateData }),
-    });
+    // Bump the row's modification marker so other devices re-read it on their next delta fetch
+    updateData.push(this.markerUpdate(rowNumber));
 
-    if (!res.ok) {
-      const errText = await res.text();
-      console.error('❌ Failed to update lead in Google Sheets:', errText);
-      throw new Error(errText);
+    if (note !== undefined) {
+      const notesRange = `${this.config.worksheetNames[0]}!${this.notesColumn()}${rowNumber}`;
+      const oldNote = await this.readNotes([notesRange])
+        .then((notes) => notes.get(rowNumber) || '')
+        .catch(() => undefined);
+      if (oldNote !== note) changes.push({ field: 'notes', oldValue: oldNote ?? '', newValue: note });
     }
+
+    await this.writeCells(updateData);
+    if (note !== undefined) await this.writeNote(rowNumber, note);
     
     console.log(`✅ Lead updated successfully at row ${rowNumber}`);
     
     this.clearLeadsCache();
+    await this.audit({ leadId, leadName: current.travellerName }, changes);
   }
 }
@@ -0,0 +1,44 @@
+// Lead archive: rules that pick closed leads to move out of the active lead list
+import type { SheetLead } from './googleSheets';
+import { isCancelCategoryStatus } from './leadStatus';
+import { isoToDate, parseSheetTimestamp, toIsoDate } from './dates';
+
+/** Worksheet archived rows are moved to; it gets the MASTER DATA header row */
+export const ARCHIVE_WORKSHEET = 'ARCHIVE';
+
+export type ArchiveRuleKind = 'cancelled' | 'travelled';
+
+export interface ArchiveRule {
+  kind: ArchiveRuleKind;
+  /** Minimum age in days */
+  days: number;
+}
+
+export const ARCHIVE_RULES: { value: ArchiveRuleKind; label: string; defaultDays: number }[] = [
+  { value: 'cancelled', label: 'Cancelled more than N days ago', defaultDays: 90 },
+  { value: 'travelled', label: 'Travel date passed more than N days ago', defaultDays: 180 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a cancelled lead was closed. There is no cancellation date, so the
+ * last-change timestamp stands in for it, falling back to the created date.
+ */
+function closedAt(lead: SheetLead): Date | null {
+  return parseSheetTimestamp(lead.timeStamp) || parseSheetTimestamp(lead.dateAndTime);
+}
+
+export function matchesArchiveRule(lead: SheetLead, rule: ArchiveRule, now = new Date()): boolean {
+  const cutoff = now.getTime() - rule.days * DAY_MS;
+  if (rule.kind === 'cancelled') {
+    const date = closedAt(lead);
+    return isCancelCategoryStatus(lead.status) && !!date && date.getTime() < cutoff;
+  }
+  const travel = isoToDate(toIsoDate(lead.travelDate) || '');
+  return !!travel && travel.getTime() < cutoff;
+}
+
+export function leadsMatchingRule(leads: SheetLead[], rule: ArchiveRule, now = new Date()): SheetLead[] {
+  return leads.filter((lead) => matchesArchiveRule(lead, rule, now));
+}
@@ -0,0 +1,125 @@
+// Exporting leads to files
+import { Capacitor } from '@capacitor/core';
+import { Directory, Filesystem } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+import { SheetLead } from './googleSheets';
+import { LEAD_FIELDS, LeadFieldDefinition } from './columnMapping';
+import { formatDisplayDate } from './dates';
+import { writeXlsx } from './spreadsheetFile';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (.xlsx)' },
+  { value: 'pdf', label: 'PDF table' },
+];
+
+/** Fields that hold a value in at least one of the leads, in LEAD_FIELDS order */
+export function exportFields(leads: SheetLead[]) {
+  return LEAD_FIELDS.filter((field) =>
+    leads.some((lead) => {
+      const value = lead[field.key as keyof SheetLead];
+      return Array.isArray(value) ? value.length > 0 : String(value ?? '').trim() !== '';
+    })
+  );
+}
+
+function cellText(field: LeadFieldDefinition, lead: SheetLead, displayDates: boolean): string {
+  const value = lead[field.key as keyof SheetLead];
+  if (Array.isArray(value)) return value.join('; ');
+  if (displayDates && (field.key === 'travelDate' || field.key === 'eventDate')) return formatDisplayDate(String(value ?? ''));
+  return String(value ?? '');
+}
+
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function leadsToCsv(leads: SheetLead[], fields: LeadFieldDefinition[] = exportFields(leads)): string {
+  const lines = [
+    fields.map((f) => csvCell(f.label)).join(','),
+    ...leads.map((lead) => fields.map((f) => csvCell(cellText(f, lead, false))).join(',')),
+  ];
+  return lines.join('\r\n');
+}
+
+/** Landscape A4 table; jsPDF is only loaded when a PDF is actually exported */
+async function leadsToPdf(leads: SheetLead[], fields: LeadFieldDefinition[], title: string): Promise<Blob> {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  doc.setFontSize(13);
+  doc.text(title, 40, 36);
+  doc.setFontSize(8);
+  doc.text(`${leads.length} lead(s), exported ${new Date().toLocaleString('en-GB')}`, 40, 50);
+  autoTable(doc, {
+    startY: 60,
+    head: [fields.map((f) => f.label)],
+    body: leads.map((lead) => fields.map((f) => cellText(f, lead, true))),
+    styles: { fontSize: 7, cellPadding: 3, overflow: 'linebreak' },
+    headStyles: { fillColor: [37, 99, 235] },
+    margin: { left: 40, right: 40 },
+  });
+  return doc.output('blob');
+}
+
+/** Build the export file for the chosen format and columns */
+export async function buildLeadExport(
+  leads: SheetLead[],
+  fields: LeadFieldDefinition[],
+  format: ExportFormat,
+  title: string
+): Promise<Blob> {
+  switch (format) {
+    case 'xlsx':
+      return writeXlsx(fields.map((f) => f.label), leads.map((lead) => fields.map((f) => cellText(f, lead, false))));
+    case 'pdf':
+      return leadsToPdf(leads, fields, title);
+    default:
+      // BOM so Excel reads UTF-8 names correctly
+      return new Blob(['\uFEFF', leadsToCsv(leads, fields)], { type: 'text/csv;charset=utf-8' });
+  }
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Hand the file to the user: the share sheet on Android/iOS (save to Drive,
+ * send on WhatsApp, ...), a regular download in the browser.
+ */
+export async function saveExportFile(filename: string, blob: Blob): Promise<void> {
+  if (Capacitor.isNativePlatform()) {
+    const { uri } = await Filesystem.writeFile({
+      path: filename,
+      data: await blobToBase64(blob),
+      directory: Directory.Cache,
+    });
+    await Share.share({ title: filename, files: [uri], dialogTitle: 'Share export' });
+    return;
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export const exportFileName = (base: string, format: ExportFormat, date: string) =>
+  `${base.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'leads'}-${date}.${format}`;
+
+/** Export title from the active filter values, e.g. "Hot Leads - Kerala"; "All leads" when nothing is filtered */
+export function exportTitle(filters: (string | undefined)[]): string {
+  const active = filters.map((f) => String(f ?? '').trim()).filter((f) => f && !/^all\b/i.test(f));
+  return active.join(' - ') || 'All leads';
+}
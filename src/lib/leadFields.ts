@@ -0,0 +1,17 @@
+// Normalizing lead field values so the sheet and the database compare equal
+import { toIsoDate } from './dates';
+
+const DATE_FIELDS = ['travelDate', 'eventDate'];
+
+export function toInt(value: string | undefined): number | null {
+  const n = parseInt(String(value ?? ''), 10);
+  return isNaN(n) ? null : n;
+}
+
+/** Comparable form of a field value as it ends up in its column */
+export function comparableLeadValue(key: string, value: unknown): string {
+  const text = Array.isArray(value) ? value.join('; ') : String(value ?? '').trim();
+  if (DATE_FIELDS.includes(key)) return toIsoDate(text) || text;
+  if (key === 'nights' || key === 'pax') return String(toInt(text) ?? '');
+  return text;
+}
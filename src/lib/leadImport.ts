@@ -0,0 +1,126 @@
+// Lead import: map spreadsheet columns to lead fields, normalize, validate and flag duplicates
+import { SheetLead, generateLeadId, setLeadField } from './googleSheets';
+import { LEAD_FIELDS, columnToIndex, detectColumnMappings } from './columnMapping';
+import { SheetLocale, parseSheetDate, toSheetTimestamp } from './dates';
+import { DuplicateMatch, findDuplicates } from './duplicates';
+import { SpreadsheetData, excelSerialToIso } from './spreadsheetFile';
+
+/** Fields an imported column can fill; IDs, timestamps and logs are set by the app */
+export const IMPORT_FIELDS = LEAD_FIELDS.filter(
+  (f) => !f.cellNote && !['tripId', 'uniqueKey', 'dateAndTime', 'timeStamp', 'remarkHistory'].includes(f.key)
+);
+
+const DATE_FIELDS = ['travelDate', 'eventDate'];
+
+export interface ImportOptions {
+  /** Day/month order of numeric dates in the file */
+  locale: SheetLocale;
+  /** Status for rows without one */
+  defaultStatus: string;
+}
+
+export interface ImportRow {
+  /** Line in the uploaded file, header row = 1 */
+  line: number;
+  lead: Partial<SheetLead>;
+  errors: string[];
+  warnings: string[];
+  /** Existing leads that look like the same traveller */
+  duplicates: DuplicateMatch[];
+  /** Earlier line of the same file with the same traveller */
+  duplicateOfLine?: number;
+}
+
+/** Field key per file column ('' = not imported), guessed from the header text */
+export function guessImportFields(headers: string[]): string[] {
+  const { mappings } = detectColumnMappings(headers);
+  const fields = headers.map(() => '');
+  for (const [key, col] of Object.entries(mappings)) {
+    if (IMPORT_FIELDS.some((f) => f.key === key)) fields[columnToIndex(col)] = key;
+  }
+  return fields;
+}
+
+/** Digits only, keeping a leading + for international numbers */
+export function normalizeImportPhone(raw: string): string {
+  const trimmed = raw.trim();
+  const digits = trimmed.replace(/\D+/g, '');
+  return digits && trimmed.startsWith('+') ? `+${digits}` : digits;
+}
+
+function normalizeDate(raw: string, locale: SheetLocale, label: string, row: ImportRow): string {
+  const serial = excelSerialToIso(raw);
+  if (serial) return serial;
+  const parsed = parseSheetDate(raw, locale);
+  if (!parsed.iso) {
+    row.errors.push(`${label}: ${parsed.error}`);
+    return raw;
+  }
+  if (parsed.ambiguous) row.warnings.push(`${label} "${raw}" read as ${parsed.iso}`);
+  return parsed.iso;
+}
+
+/**
+ * Dry run of an import: builds the lead for every row and reports what would
+ * stop it (errors) or deserves a look (warnings, duplicates). Nothing is written.
+ */
+export function buildImportPreview(
+  data: SpreadsheetData,
+  fields: string[],
+  existing: SheetLead[],
+  options: ImportOptions
+): ImportRow[] {
+  const importedAt = toSheetTimestamp(new Date());
+  const accepted: SheetLead[] = [];
+  const lineOf = new Map<string, number>();
+
+  return data.rows.map((cells, index) => {
+    const row: ImportRow = { line: index + 2, lead: {}, errors: [], warnings: [], duplicates: [] };
+    const lead: Partial<SheetLead> = { uniqueKey: generateLeadId(), dateAndTime: importedAt };
+
+    fields.forEach((key, col) => {
+      const raw = String(cells[col] ?? '').trim();
+      if (!key || !raw) return;
+      const label = IMPORT_FIELDS.find((f) => f.key === key)?.label || key;
+      let value = raw;
+      if (DATE_FIELDS.includes(key)) value = normalizeDate(raw, options.locale, label, row);
+      else if (key === 'phone') value = normalizeImportPhone(raw);
+      else if (key === 'email') value = raw.toLowerCase();
+      // Two columns mapped to one field (e.g. first and last name) are joined
+      const field = key as keyof SheetLead;
+      const current = lead[field];
+      setLeadField(lead, field, current ? `${current} ${value}` : value);
+    });
+    if (!lead.status) lead.status = options.defaultStatus;
+
+    if (!lead.travellerName) row.errors.push('Traveller name is missing');
+    const digits = String(lead.phone || '').replace(/\D+/g, '');
+    if (!digits) row.errors.push('Phone is missing');
+    else if (digits.length < 7 || digits.length > 15) row.errors.push(`Phone "${lead.phone}" doesn't look like a phone number`);
+    if (lead.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(lead.email)) row.warnings.push(`Email "${lead.email}" looks invalid`);
+
+    row.lead = lead;
+    if (row.errors.length === 0) {
+      row.duplicates = findDuplicates(lead, existing).slice(0, 3);
+      const inFile = findDuplicates(lead, accepted)[0];
+      if (inFile?.reasons.some((reason) => reason !== 'name')) {
+        row.duplicateOfLine = lineOf.get(inFile.lead.uniqueKey);
+      }
+      accepted.push(lead as SheetLead);
+      lineOf.set(lead.uniqueKey!, row.line);
+    }
+    return row;
+  });
+}
+
+/** Hand the leads out to consultants in turn, starting with whoever has the fewest leads now */
+export function distributeToConsultants(
+  leads: Partial<SheetLead>[],
+  consultants: string[],
+  existing: SheetLead[]
+): Partial<SheetLead>[] {
+  if (consultants.length === 0) return leads;
+  const load = new Map(consultants.map((name) => [name, existing.filter((l) => l.consultant === name).length]));
+  const order = [...consultants].sort((a, b) => load.get(a)! - load.get(b)!);
+  return leads.map((lead, index) => ({ ...lead, consultant: order[index % order.length] }));
+}
@@ -0,0 +1,93 @@
+// Lead repository: backend-agnostic lead storage used by dashboards and dialogs
+import { BulkUpdateResult, FetchProgress, SheetLead, UpdateLeadOptions } from './googleSheets';
+import type { RemarkEntry } from './remarkLog';
+import type { AuditEntry } from './auditLog';
+import { secureStorage } from './secureStorage';
+import { SheetsLeadRepository, createSheetsService } from './sheetsLeadRepository';
+import { SupabaseLeadRepository } from './supabaseLeadRepository';
+
+export type LeadBackend = 'sheets' | 'supabase';
+
+/**
+ * Users sign in against the BACKEND SHEET, so Supabase only ever sees the
+ * publishable key bundled in the app and its row-level security can't tell
+ * them apart. The Supabase backend and the sheet sync stay off until requests
+ * carry a session the database can check.
+ */
+export const SUPABASE_BACKEND_ENABLED = false;
+
+export const LEAD_BACKENDS: { value: LeadBackend; label: string }[] = [
+  { value: 'sheets', label: 'Google Sheets' },
+  { value: 'supabase', label: 'Supabase' },
+];
+
+export interface LeadRepository {
+  readonly backend: LeadBackend;
+  /** All active (non-archived) leads; `onProgress` is called while a full download runs */
+  list(forceRefresh?: boolean, onProgress?: (progress: FetchProgress) => void): Promise<SheetLead[]>;
+  /** Lead by stable ID, or null when it doesn't exist */
+  get(leadId: string): Promise<SheetLead | null>;
+  /** Store a new lead and return its stable ID (generated when not supplied) */
+  create(lead: Partial<SheetLead>): Promise<string>;
+  /** Store several new leads in one request; returns their stable IDs in order */
+  createMany(leads: Partial<SheetLead>[]): Promise<string[]>;
+  /** Pass `options.baseline` to get a LeadConflictError instead of overwriting someone else's edit */
+  update(lead: SheetLead, updates: Partial<SheetLead>, options?: UpdateLeadOptions): Promise<void>;
+  assign(lead: SheetLead, consultant: string, options?: UpdateLeadOptions): Promise<void>;
+  /**
+   * Apply the same updates to many leads in one request, each checked against
+   * the version passed in. Failed leads are reported and left unchanged.
+   */
+  bulkUpdate(leads: SheetLead[], updates: Partial<SheetLead>): Promise<BulkUpdateResult[]>;
+  /** Take a lead out of the active list; it can be restored from the archive */
+  archive(lead: SheetLead): Promise<void>;
+  /** Archive many leads at once; failed leads are reported and left active */
+  archiveMany(leads: SheetLead[]): Promise<BulkUpdateResult[]>;
+  /** Archived leads, newest archive last */
+  listArchived(): Promise<SheetLead[]>;
+  /** Put archived leads back in the active list */
+  restore(leads: SheetLead[]): Promise<BulkUpdateResult[]>;
+  /** Generate Trip IDs for existing leads that have none; returns how many were assigned */
+  backfillTripIds(): Promise<number>;
+  /** Remark log for a lead, oldest first */
+  listRemarks(leadId: string): Promise<RemarkEntry[]>;
+  /** Append to the lead's remark log; earlier entries are never modified */
+  addRemark(lead: SheetLead, entry: RemarkEntry): Promise<void>;
+  /** Field-level change history of all leads, oldest first */
+  listAuditEntries(): Promise<AuditEntry[]>;
+}
+
+const LEAD_BACKEND_KEY = 'crm_lead_backend';
+
+export async function getLeadBackend(): Promise<LeadBackend> {
+  const stored = await secureStorage.get(LEAD_BACKEND_KEY);
+  return SUPABASE_BACKEND_ENABLED && stored === 'supabase' ? 'supabase' : 'sheets';
+}
+
+export async function setLeadBackend(backend: LeadBackend): Promise<void> {
+  await secureStorage.set(LEAD_BACKEND_KEY, backend);
+  console.log(`🗄️ Lead backend set to ${backend}`);
+}
+
+/** One Sheets repository per workspace, so its leads cache and access token are reused */
+const sheetsRepositories = new Map<string, { credentials: string; repository: SheetsLeadRepository }>();
+
+/**
+ * Repository for the backend the admin selected in Settings (Google Sheets by
+ * default). Sheets repositories use the active workspace unless `workspaceId` is given.
+ */
+export async function getLeadRepository(workspaceId?: string): Promise<LeadRepository> {
+  const backend = await getLeadBackend();
+  if (backend === 'supabase') return new SupabaseLeadRepository();
+
+  const id = workspaceId || (await secureStorage.getActiveWorkspaceId());
+  const credentials = await secureStorage.getCredentials(id);
+  if (!credentials) throw new Error('Google Sheets not configured. Please setup in Settings.');
+  // Saved credentials replace the workspace's repository
+  const key = JSON.stringify(credentials);
+  const cached = sheetsRepositories.get(id);
+  if (cached?.credentials === key) return cached.repository;
+  const repository = new SheetsLeadRepository(createSheetsService(credentials));
+  sheetsRepositories.set(id, { credentials: key, repository });
+  return repository;
+}
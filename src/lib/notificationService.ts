@@ -11,8 +11,12 @@ export interface Reminder {
   dateTime: Date;
 }
 
+/** Reminder ids count seconds from here, so they stay within the 9 digits scheduleReminder reads */
+const REMINDER_ID_EPOCH = Date.UTC(2024, 0, 1);
+
 class NotificationService {
   private isInitialized = false;
+  private lastReminderId = 0;
 
   async initialize(): Promise<void> {
     if (!Capacitor.isNativePlatform() || this.isInitialized) return;
@@ -58,6 +62,12 @@ class NotificationService {
     }
   }
 
+  /** Unique reminder id: the current second, or one past the last id when several are made at once */
+  nextReminderId(): string {
+    this.lastReminderId = Math.max(this.lastReminderId + 1, Math.floor((Date.now() - REMINDER_ID_EPOCH) / 1000));
+    return String(this.lastReminderId);
+  }
+
   async scheduleReminder(reminder: Reminder): Promise<void> {
     try {
       await LocalNotifications.schedule({
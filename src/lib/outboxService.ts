@@ -0,0 +1,252 @@
+// Offline outbox: persistent, ordered queue of lead writes replayed when back online
+import { LeadConflictError, SheetLead, isSameLead } from './googleSheets';
+import { getLeadRepository } from './leadRepository';
+import { DEFAULT_WORKSPACE_ID, secureStorage } from './secureStorage';
+import { workspaceService } from './workspaces';
+import type { RemarkEntry } from './remarkLog';
+
+export type OutboxMutation =
+  | { kind: 'append'; lead: Partial<SheetLead> }
+  // `remark` is logged once the update that sets it has been written
+  | { kind: 'update'; lead: SheetLead; updates: Partial<SheetLead>; baseline?: SheetLead; remark?: RemarkEntry }
+  | { kind: 'assign'; lead: SheetLead; consultant: string; baseline?: SheetLead }
+  | { kind: 'remark'; lead: SheetLead; entry: RemarkEntry };
+
+export interface OutboxItem {
+  id: string;
+  mutation: OutboxMutation;
+  description: string;
+  /** Workspace the write belongs to; items queued before workspaces existed have none */
+  workspaceId?: string;
+  createdAt: number;
+  attempts: number;
+  status: 'pending' | 'failed';
+  lastError?: string;
+  isConflict?: boolean;
+}
+
+type Listener = (items: OutboxItem[]) => void;
+
+const OUTBOX_KEY = 'crm_outbox_v1';
+
+/** fetch() rejects with a TypeError when the request never reached the server */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  return error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+}
+
+class OutboxService {
+  private items: OutboxItem[] = [];
+  private listeners = new Set<Listener>();
+  private flushedListeners = new Set<() => void>();
+  private flushing: Promise<void> | null = null;
+  private isInitialized = false;
+
+  async initialize(): Promise<void> {
+    if (this.isInitialized) return;
+    try {
+      const stored = await secureStorage.get(OUTBOX_KEY);
+      this.items = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load outbox:', error);
+      this.items = [];
+    }
+
+    window.addEventListener('online', () => this.flush());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') this.flush();
+    });
+
+    this.isInitialized = true;
+    this.emit();
+    this.flush();
+  }
+
+  getItems(): OutboxItem[] {
+    return this.items;
+  }
+
+  getPendingCount(): number {
+    return this.items.length;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Called after a flush delivered at least one mutation, so views can refetch */
+  onFlushed(listener: () => void): () => void {
+    this.flushedListeners.add(listener);
+    return () => this.flushedListeners.delete(listener);
+  }
+
+  /**
+   * Send a mutation now, or queue it when offline (or when earlier writes to the
+   * same lead are still waiting to be replayed, so their order is preserved).
+   * Non-network errors are rethrown.
+   */
+  async execute(mutation: OutboxMutation, description: string): Promise<'sent' | 'queued'> {
+    if (this.hasPendingFor(mutation.lead) || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+      await this.enqueue(mutation, description);
+      this.flush();
+      return 'queued';
+    }
+
+    try {
+      await this.run(mutation);
+      return 'sent';
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      console.warn('📴 Network unavailable, queueing write:', description);
+      await this.enqueue(mutation, description);
+      return 'queued';
+    }
+  }
+
+  /** Overlay queued writes on freshly fetched leads so optimistic changes survive a refresh */
+  applyPending(leads: SheetLead[]): SheetLead[] {
+    const activeId = workspaceService.getActive().id;
+    const items = this.items.filter((item) => (item.workspaceId || DEFAULT_WORKSPACE_ID) === activeId);
+    if (items.length === 0) return leads;
+    let result = [...leads];
+    for (const item of items) {
+      const m = item.mutation;
+      if (m.kind === 'append') {
+        if (!result.some((l) => isSameLead(l, m.lead))) {
+          result = [{ ...(m.lead as SheetLead) }, ...result];
+        }
+      } else if (m.kind !== 'remark') {
+        const updates = m.kind === 'assign' ? { consultant: m.consultant } : m.updates;
+        result = result.map((l) => (isSameLead(l, m.lead) ? { ...l, ...updates } : l));
+      }
+    }
+    return result;
+  }
+
+  /** Replay queued mutations in order. Failed items hold back later writes to the same lead. */
+  flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    this.flushing = this.doFlush().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  async retry(id: string, options: { overwrite?: boolean } = {}): Promise<void> {
+    this.items = this.items.map((item) => {
+      if (item.id !== id) return item;
+      const mutation = options.overwrite && (item.mutation.kind === 'update' || item.mutation.kind === 'assign')
+        ? { ...item.mutation, baseline: undefined }
+        : item.mutation;
+      return { ...item, mutation, status: 'pending', lastError: undefined, isConflict: false };
+    });
+    await this.persist();
+    await this.flush();
+  }
+
+  async discard(id: string): Promise<void> {
+    this.items = this.items.filter((item) => item.id !== id);
+    await this.persist();
+    this.notifyFlushed();
+  }
+
+  /** Pending or in-flight writes to this lead; failed items wait for the user and don't hold back new writes */
+  private hasPendingFor(lead: Partial<SheetLead>): boolean {
+    return this.items.some((item) => item.status === 'pending' && isSameLead(item.mutation.lead, lead));
+  }
+
+  private async enqueue(mutation: OutboxMutation, description: string): Promise<void> {
+    this.items = [
+      ...this.items,
+      {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        mutation,
+        description,
+        workspaceId: workspaceService.getActive().id,
+        createdAt: Date.now(),
+        attempts: 0,
+        status: 'pending',
+      },
+    ];
+    await this.persist();
+  }
+
+  private async doFlush(): Promise<void> {
+    if (this.items.length === 0) return;
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    const blocked: Partial<SheetLead>[] = [];
+    let delivered = 0;
+
+    for (const item of [...this.items]) {
+      const target = item.mutation.lead;
+      if (item.status === 'failed' || blocked.some((b) => isSameLead(b, target))) {
+        blocked.push(target);
+        continue;
+      }
+
+      try {
+        await this.run(item.mutation, item.workspaceId || DEFAULT_WORKSPACE_ID);
+        this.items = this.items.filter((i) => i.id !== item.id);
+        delivered++;
+      } catch (error: unknown) {
+        if (isNetworkError(error)) {
+          console.warn('📴 Still offline, outbox replay paused');
+          break;
+        }
+        this.items = this.items.map((i) =>
+          i.id === item.id
+            ? {
+                ...i,
+                attempts: i.attempts + 1,
+                status: 'failed',
+                lastError: error instanceof Error ? error.message : String(error),
+                isConflict: error instanceof LeadConflictError,
+              }
+            : i
+        );
+        blocked.push(target);
+      }
+      await this.persist();
+    }
+
+    if (delivered > 0) {
+      console.log(`✅ Outbox replayed ${delivered} write(s)`);
+      this.notifyFlushed();
+    }
+  }
+
+  private async run(mutation: OutboxMutation, workspaceId?: string): Promise<void> {
+    const repository = await getLeadRepository(workspaceId);
+    if (mutation.kind === 'append') {
+      await repository.create(mutation.lead);
+    } else if (mutation.kind === 'assign') {
+      await repository.assign(mutation.lead, mutation.consultant, { baseline: mutation.baseline });
+    } else if (mutation.kind === 'remark') {
+      await repository.addRemark(mutation.lead, mutation.entry);
+    } else {
+      await repository.update(mutation.lead, mutation.updates, { baseline: mutation.baseline });
+      if (mutation.remark) await repository.addRemark(mutation.lead, mutation.remark);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    this.emit();
+    try {
+      await secureStorage.set(OUTBOX_KEY, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('Failed to persist outbox:', error);
+    }
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener(this.items));
+  }
+
+  private notifyFlushed(): void {
+    this.flushedListeners.forEach((listener) => listener());
+  }
+}
+
+export const outboxService = new OutboxService();
@@ -0,0 +1,49 @@
+// Salted PBKDF2 password hashes (WebCrypto), stored as pbkdf2$sha256$<iterations>$<salt>$<hash>
+const PREFIX = 'pbkdf2';
+const DIGEST = 'sha256';
+const ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+/** Whether a stored password value is already a hash (anything else is legacy plaintext) */
+export function isPasswordHash(value: string | null | undefined): boolean {
+  const parts = String(value || '').split('$');
+  return parts.length === 5 && parts[0] === PREFIX && parts[1] === DIGEST;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [PREFIX, DIGEST, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+}
+
+/**
+ * Check a password against a stored value. Plaintext values from before the
+ * migration still verify, so nobody is locked out until they are hashed.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!password || !stored) return false;
+  if (!isPasswordHash(stored)) return password === stored;
+
+  const [, , iterations, salt, expected] = stored.split('$');
+  try {
+    const actual = await derive(password, fromBase64(salt), Number(iterations));
+    const wanted = fromBase64(expected);
+    if (actual.length !== wanted.length) return false;
+    let diff = 0;
+    for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ wanted[i];
+    return diff === 0;
+  } catch (error) {
+    console.error('Failed to verify password hash:', error);
+    return false;
+  }
+}
@@ -0,0 +1,59 @@
+// Append-only remark log: every saved remark is kept with its author and time
+import type { AuthUser } from './authService';
+
+export interface RemarkEntry {
+  /** Unique per entry, so a write replayed by the outbox isn't shown twice */
+  id: string;
+  leadId: string;
+  /** ISO timestamp */
+  createdAt: string;
+  author: string;
+  authorEmail: string;
+  text: string;
+}
+
+/** Header row of the REMARKS worksheet (one row per entry, keyed by lead ID) */
+export const REMARK_LOG_HEADERS = ['Lead ID', 'Remark ID', 'Timestamp', 'Author', 'Email', 'Remark'];
+
+export const REMARKS_WORKSHEET = 'REMARKS';
+
+/** New entry attributed to `user` (pass authService.getSession()?.user) */
+export function createRemarkEntry(leadId: string, text: string, user?: AuthUser | null): RemarkEntry {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    leadId,
+    createdAt: new Date().toISOString(),
+    author: user?.name || 'Unknown',
+    authorEmail: user?.email || '',
+    text,
+  };
+}
+
+export function remarkToRow(entry: RemarkEntry): string[] {
+  return [entry.leadId, entry.id, entry.createdAt, entry.author, entry.authorEmail, entry.text];
+}
+
+export function remarkFromRow(row: unknown[]): RemarkEntry {
+  const cell = (i: number) => String(row[i] ?? '').trim();
+  return {
+    leadId: cell(0),
+    id: cell(1),
+    createdAt: cell(2),
+    author: cell(3),
+    authorEmail: cell(4),
+    text: String(row[5] ?? ''),
+  };
+}
+
+/** Oldest first, dropping repeated IDs (an outbox retry after a lost response) */
+export function sortRemarks(entries: RemarkEntry[]): RemarkEntry[] {
+  const seen = new Set<string>();
+  return entries
+    .filter((entry) => {
+      if (!entry.id) return true;
+      if (seen.has(entry.id)) return false;
+      seen.add(entry.id);
+      return true;
+    })
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
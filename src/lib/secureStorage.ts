@@ -1,54 +1,206 @@
 // Secure credential storage for mobile and web
 import { Preferences } from '@capacitor/preferences';
 import { localSecrets, areSecretsConfigured } from '@/config/localSecrets';
+import type { SheetLocale } from './dates';
+import type { TripIdFormat } from './tripId';
 
-const ENCRYPTION_KEY_STORAGE = 'app_encryption_key';
+/** XOR key of v1 envelopes; still read to migrate old values */
+const LEGACY_KEY_STORAGE = 'app_encryption_key';
+/** Kept in Preferences as plain text by other services (themeService), never as envelopes */
+const PLAIN_PREFERENCES = ['app_theme'];
 const CREDENTIALS_STORAGE = 'secure_credentials';
+const ACTIVE_WORKSPACE_STORAGE = 'crm_active_workspace';
 
-// Simple encryption/decryption (in production, use stronger crypto)
-async function getEncryptionKey(): Promise<string> {
-  const { value } = await Preferences.get({ key: ENCRYPTION_KEY_STORAGE });
-  if (value) return value;
-  
-  // Generate new key
-  const newKey = btoa(Math.random().toString(36).substring(2) + Date.now().toString(36));
-  await Preferences.set({ key: ENCRYPTION_KEY_STORAGE, value: newKey });
-  return newKey;
+/** Workspace that existed before workspaces did; keeps the original credentials key */
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const credentialsKey = (workspaceId: string) =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? CREDENTIALS_STORAGE : `${CREDENTIALS_STORAGE}:${workspaceId}`;
+
+/**
+ * Stored values are versioned envelopes:
+ * - v2 `v2:<iv>:<ciphertext>`: AES-GCM (256-bit), fresh 12-byte IV per value. The key is
+ *   non-extractable and kept in IndexedDB, so it never appears in Preferences.
+ * - v1 (no prefix): the original repeating-key XOR with the key in Preferences. Read only;
+ *   a v1 value is re-encrypted as v2 the first time it is read, and `initialize` upgrades the
+ *   rest so the key can be deleted.
+ */
+const ENVELOPE_V2 = 'v2';
+const IV_BYTES = 12;
+const KEY_DB = 'crm-keystore';
+const KEY_DB_STORE = 'keys';
+const KEY_ID = 'secure-storage';
+
+let aesKey: Promise<CryptoKey> | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  // Chunked: the leads cache is far too large for one String.fromCharCode call
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 }
 
-function simpleEncrypt(text: string, key: string): string {
-  return btoa(text.split('').map((char, i) => 
-    String.fromCharCode(char.charCodeAt(0) ^ key.charCodeAt(i % key.length))
-  ).join(''));
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function keyStoreRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(KEY_DB, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(KEY_DB_STORE);
+    open.onerror = () => reject(open.error);
+    open.onsuccess = () => {
+      const db = open.result;
+      const request = run(db.transaction(KEY_DB_STORE, mode).objectStore(KEY_DB_STORE));
+      request.onsuccess = () => {
+        resolve(request.result);
+        db.close();
+      };
+      request.onerror = () => {
+        reject(request.error);
+        db.close();
+      };
+    };
+  });
+}
+
+async function loadAesKey(): Promise<CryptoKey> {
+  const stored = await keyStoreRequest<CryptoKey | undefined>('readonly', (store) => store.get(KEY_ID));
+  if (stored) return stored;
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  await keyStoreRequest('readwrite', (store) => store.put(key, KEY_ID));
+  console.log('🔐 Created storage encryption key');
+  return key;
+}
+
+function getAesKey(): Promise<CryptoKey> {
+  if (!aesKey) {
+    aesKey = loadAesKey().catch((error) => {
+      aesKey = null;
+      throw error;
+    });
+  }
+  return aesKey;
+}
+
+async function encrypt(text: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getAesKey(), new TextEncoder().encode(text));
+  return `${ENVELOPE_V2}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
 }
 
-function simpleDecrypt(encrypted: string, key: string): string {
+/** Plaintext of a stored envelope; `legacy` is set for v1 values that should be re-encrypted */
+async function decrypt(stored: string): Promise<{ text: string; legacy: boolean }> {
+  const [version, iv, ciphertext] = stored.split(':');
+  if (version === ENVELOPE_V2) {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, await getAesKey(), fromBase64(ciphertext));
+    return { text: new TextDecoder().decode(plain), legacy: false };
+  }
+  if (stored.includes(':')) throw new Error(`Unknown storage envelope "${version}"`);
+  return { text: legacyDecrypt(stored, await getLegacyKey()), legacy: true };
+}
+
+async function getLegacyKey(): Promise<string> {
+  const { value } = await Preferences.get({ key: LEGACY_KEY_STORAGE });
+  if (!value) throw new Error('Legacy encryption key is missing');
+  return value;
+}
+
+function legacyDecrypt(encrypted: string, key: string): string {
   const decoded = atob(encrypted);
   return decoded.split('').map((char, i) => 
     String.fromCharCode(char.charCodeAt(0) ^ key.charCodeAt(i % key.length))
   ).join('');
 }
 
+async function writeValue(key: string, text: string): Promise<void> {
+  await Preferences.set({ key, value: await encrypt(text) });
+}
+
+/** Read and decrypt a stored value, upgrading v1 values to v2 on the way */
+async function readValue(key: string): Promise<string | null> {
+  const { value } = await Preferences.get({ key });
+  if (!value) return null;
+
+  const { text, legacy } = await decrypt(value);
+  // Skip the upgrade if the value was overwritten meanwhile
+  if (legacy && (await Preferences.get({ key })).value === value) {
+    await writeValue(key, text);
+    console.log(`🔐 Re-encrypted "${key}" with AES-GCM`);
+  }
+  return text;
+}
+
 export interface SecureCredentials {
   googleApiKey?: string;
   googleServiceAccountJson?: string;
   googleSheetUrl: string;
   worksheetNames: string[];
   columnMappings: Record<string, string>;
+  sheetLocale?: SheetLocale;
+  /** Worksheet for the lead audit trail; AUDIT when unset */
+  auditWorksheet?: string;
+  /** Trip ID generator settings; TTT-YYMM-0000 when unset */
+  tripIdFormat?: Partial<TripIdFormat>;
   paymentLinks?: { name: string; url: string; qrImage?: string }[];
 }
 
 export const secureStorage = {
-  async saveCredentials(credentials: SecureCredentials): Promise<void> {
-    const key = await getEncryptionKey();
-    const encrypted = simpleEncrypt(JSON.stringify(credentials), key);
-    await Preferences.set({ key: CREDENTIALS_STORAGE, value: encrypted });
+  /**
+   * Re-encrypt every remaining v1 value, then delete the legacy XOR key.
+   * Run before anything else reads storage; the key stays if any upgrade fails.
+   */
+  async initialize(): Promise<void> {
+    const { value: legacyKey } = await Preferences.get({ key: LEGACY_KEY_STORAGE });
+    if (!legacyKey) return;
+    try {
+      const { keys } = await Preferences.keys();
+      let upgraded = 0;
+      for (const key of keys) {
+        if (key === LEGACY_KEY_STORAGE || PLAIN_PREFERENCES.includes(key)) continue;
+        const { value } = await Preferences.get({ key });
+        if (!value || value.includes(':')) continue; // v2, or an envelope this version doesn't know
+        let text: string;
+        try {
+          text = legacyDecrypt(value, legacyKey);
+        } catch {
+          continue; // not base64, so not a v1 value
+        }
+        await writeValue(key, text);
+        upgraded++;
+      }
+      await Preferences.remove({ key: LEGACY_KEY_STORAGE });
+      console.log(`🔐 Re-encrypted ${upgraded} value(s) with AES-GCM and removed the legacy key`);
+    } catch (error) {
+      console.error('Failed to upgrade legacy storage, keeping the legacy key:', error);
+    }
+  },
+
+  async getActiveWorkspaceId(): Promise<string> {
+    return (await this.get(ACTIVE_WORKSPACE_STORAGE)) || DEFAULT_WORKSPACE_ID;
+  },
+
+  async setActiveWorkspaceId(workspaceId: string): Promise<void> {
+    await this.set(ACTIVE_WORKSPACE_STORAGE, workspaceId);
   },
 
-  async getCredentials(): Promise<SecureCredentials | null> {
+  /** Credentials of a workspace, the active one when `workspaceId` is omitted */
+  async saveCredentials(credentials: SecureCredentials, workspaceId?: string): Promise<void> {
+    const id = workspaceId || (await this.getActiveWorkspaceId());
+    await writeValue(credentialsKey(id), JSON.stringify(credentials));
+  },
+
+  async getCredentials(workspaceId?: string): Promise<SecureCredentials | null> {
     try {
-      // First check if local secrets are configured
-      if (areSecretsConfigured()) {
+      const id = workspaceId || (await this.getActiveWorkspaceId());
+      // Local secrets configure the default workspace
+      if (id === DEFAULT_WORKSPACE_ID && areSecretsConfigured()) {
         const sheetIdMatch = localSecrets.spreadsheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
         return {
           googleApiKey: localSecrets.googleApiKey !== "YOUR_GOOGLE_API_KEY_HERE" ? localSecrets.googleApiKey : undefined,
@@ -56,40 +208,32 @@ export const secureStorage = {
           googleSheetUrl: localSecrets.spreadsheetUrl,
           worksheetNames: localSecrets.worksheetNames,
           columnMappings: localSecrets.columnMappings,
+          sheetLocale: localSecrets.sheetLocale,
           paymentLinks: localSecrets.paymentLinks
         };
       }
       
       // Fallback to stored credentials
-      const { value } = await Preferences.get({ key: CREDENTIALS_STORAGE });
-      if (!value) return null;
-      
-      const key = await getEncryptionKey();
-      const decrypted = simpleDecrypt(value, key);
-      return JSON.parse(decrypted);
+      const decrypted = await readValue(credentialsKey(id));
+      return decrypted ? JSON.parse(decrypted) : null;
     } catch (error) {
       console.error('Failed to decrypt credentials:', error);
       return null;
     }
   },
 
-  async clearCredentials(): Promise<void> {
-    await Preferences.remove({ key: CREDENTIALS_STORAGE });
+  async clearCredentials(workspaceId?: string): Promise<void> {
+    const id = workspaceId || (await this.getActiveWorkspaceId());
+    await Preferences.remove({ key: credentialsKey(id) });
   },
 
   async set(key: string, value: string): Promise<void> {
-    const encKey = await getEncryptionKey();
-    const encrypted = simpleEncrypt(value, encKey);
-    await Preferences.set({ key, value: encrypted });
+    await writeValue(key, value);
   },
 
   async get(key: string): Promise<string | null> {
     try {
-      const { value } = await Preferences.get({ key });
-      if (!value) return null;
-      
-      const encKey = await getEncryptionKey();
-      return simpleDecrypt(value, encKey);
+      return await readValue(key);
     } catch (error) {
       console.error('Failed to decrypt value:', error);
       return null;
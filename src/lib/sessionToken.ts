@@ -0,0 +1,62 @@
+// Session tokens: base64url(claims).base64url(HMAC-SHA256), keyed by a random per-device secret
+import { secureStorage } from './secureStorage';
+
+export interface SessionClaims {
+  /** User id */
+  sub: string;
+  role: 'admin' | 'consultant';
+  /** Issued at / expires at, epoch ms */
+  iat: number;
+  exp: number;
+}
+
+const SECRET_KEY = 'crm_session_secret';
+const SECRET_BYTES = 32;
+
+let hmacKey: Promise<CryptoKey> | null = null;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+/** The device secret is created on first use and never leaves secure storage */
+async function loadKey(): Promise<CryptoKey> {
+  let secret = await secureStorage.get(SECRET_KEY);
+  if (!secret) {
+    secret = toBase64Url(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+    await secureStorage.set(SECRET_KEY, secret);
+  }
+  return crypto.subtle.importKey('raw', fromBase64Url(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+function getKey(): Promise<CryptoKey> {
+  if (!hmacKey) {
+    hmacKey = loadKey().catch((error) => {
+      hmacKey = null;
+      throw error;
+    });
+  }
+  return hmacKey;
+}
+
+export async function signSessionToken(claims: SessionClaims): Promise<string> {
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), new TextEncoder().encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** Claims of a token signed on this device, or null when it is malformed, forged or expired */
+export async function verifySessionToken(token: string, now = Date.now()): Promise<SessionClaims | null> {
+  const [body, signature] = String(token || '').split('.');
+  if (!body || !signature) return null;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await getKey(), fromBase64Url(signature), new TextEncoder().encode(body));
+    if (!valid) return null;
+    const claims: SessionClaims = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    return claims.exp > now ? claims : null;
+  } catch (error) {
+    console.error('Failed to verify session token:', error);
+    return null;
+  }
+}
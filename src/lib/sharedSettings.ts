@@ -0,0 +1,7 @@
+// Settings every device reads from the Google Sheet: one key/value row each in the SETTINGS worksheet
+
+export const SETTINGS_WORKSHEET = 'SETTINGS';
+export const SETTINGS_HEADERS = ['Setting', 'Value', 'Updated At'];
+
+/** App lock policy (see appLock.ts), stored as JSON */
+export const APP_LOCK_SETTING = 'app_lock';
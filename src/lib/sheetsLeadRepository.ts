@@ -0,0 +1,93 @@
+// Google Sheets lead backend (MASTER DATA worksheet)
+import { BulkUpdateResult, FetchProgress, GoogleSheetsService, SheetLead, UpdateLeadOptions } from './googleSheets';
+import type { SecureCredentials } from './secureStorage';
+import type { LeadRepository } from './leadRepository';
+import type { RemarkEntry } from './remarkLog';
+import type { AuditEntry } from './auditLog';
+
+export function createSheetsService(credentials: SecureCredentials): GoogleSheetsService {
+  return new GoogleSheetsService({
+    apiKey: credentials.googleApiKey,
+    serviceAccountJson: credentials.googleServiceAccountJson,
+    sheetId: credentials.googleSheetUrl.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/)?.[1] || '',
+    worksheetNames: credentials.worksheetNames,
+    columnMappings: credentials.columnMappings,
+    sheetLocale: credentials.sheetLocale,
+    auditWorksheet: credentials.auditWorksheet,
+    tripIdFormat: credentials.tripIdFormat
+  });
+}
+
+export class SheetsLeadRepository implements LeadRepository {
+  readonly backend = 'sheets' as const;
+  private service: GoogleSheetsService;
+
+  constructor(service: GoogleSheetsService) {
+    this.service = service;
+  }
+
+  list(forceRefresh = false, onProgress?: (progress: FetchProgress) => void): Promise<SheetLead[]> {
+    return this.service.fetchLeads(forceRefresh, onProgress);
+  }
+
+  async get(leadId: string): Promise<SheetLead | null> {
+    const leads = await this.service.fetchLeads();
+    return leads.find((lead) => lead.uniqueKey === leadId) || null;
+  }
+
+  create(lead: Partial<SheetLead>): Promise<string> {
+    return this.service.appendLead(lead);
+  }
+
+  createMany(leads: Partial<SheetLead>[]): Promise<string[]> {
+    return this.service.appendLeads(leads);
+  }
+
+  async update(lead: SheetLead, updates: Partial<SheetLead>, options: UpdateLeadOptions = {}): Promise<void> {
+    // Rows created before lead IDs existed get one on their first edit
+    const leadId = await this.service.ensureLeadId(lead);
+    await this.service.updateLead(leadId, updates, options);
+  }
+
+  assign(lead: SheetLead, consultant: string, options: UpdateLeadOptions = {}): Promise<void> {
+    return this.update(lead, { consultant }, options);
+  }
+
+  bulkUpdate(leads: SheetLead[], updates: Partial<SheetLead>): Promise<BulkUpdateResult[]> {
+    return this.service.bulkUpdateLeads(leads, updates);
+  }
+
+  backfillTripIds(): Promise<number> {
+    return this.service.backfillTripIds();
+  }
+
+  async archive(lead: SheetLead): Promise<void> {
+    const [result] = await this.service.archiveLeads([lead]);
+    if (!result.ok) throw new Error(result.error || 'Lead could not be archived');
+  }
+
+  archiveMany(leads: SheetLead[]): Promise<BulkUpdateResult[]> {
+    return this.service.archiveLeads(leads);
+  }
+
+  listArchived(): Promise<SheetLead[]> {
+    return this.service.fetchArchivedLeads();
+  }
+
+  restore(leads: SheetLead[]): Promise<BulkUpdateResult[]> {
+    return this.service.restoreLeads(leads);
+  }
+
+  listRemarks(leadId: string): Promise<RemarkEntry[]> {
+    return this.service.fetchRemarks(leadId);
+  }
+
+  async addRemark(lead: SheetLead, entry: RemarkEntry): Promise<void> {
+    const leadId = await this.service.ensureLeadId(lead);
+    await this.service.appendRemark({ ...entry, leadId });
+  }
+
+  listAuditEntries(): Promise<AuditEntry[]> {
+    return this.service.fetchAuditEntries();
+  }
+}
@@ -0,0 +1,229 @@
+// Reading and writing CSV and XLSX files in the browser, without a spreadsheet library (fflate zips and unzips XLSX)
+import { Unzipped, strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { columnToIndex, indexToColumn } from './columnMapping';
+
+export interface SpreadsheetData {
+  headers: string[];
+  /** Data rows below the header row, blank rows removed, padded to the header width */
+  rows: string[][];
+}
+
+/** Split CSV text into rows; the delimiter (comma, semicolon or tab) is taken from the first line */
+export function parseCsv(text: string): string[][] {
+  text = text.replace(/^\uFEFF/, '');
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// --- XLSX: a zip of XML parts ---
+
+/** Entries of a zip archive by path */
+function readZip(buffer: ArrayBuffer): Unzipped {
+  try {
+    return unzipSync(new Uint8Array(buffer));
+  } catch {
+    throw new Error('Not a valid .xlsx file');
+  }
+}
+
+const byTag = (node: Document | Element, tag: string) => Array.from(node.getElementsByTagNameNS('*', tag));
+
+/** Cell values of the workbook's first worksheet, as text */
+async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = readZip(buffer);
+  const parser = new DOMParser();
+  const xml = (path: string) => {
+    const data = entries[path];
+    return data ? parser.parseFromString(strFromU8(data), 'application/xml') : null;
+  };
+
+  // First sheet in workbook order, resolved through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = xml('xl/workbook.xml');
+  const rels = xml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook && byTag(workbook, 'sheet')[0];
+  const relId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const target = rels && byTag(rels, 'Relationship').find((r) => r.getAttribute('Id') === relId)?.getAttribute('Target');
+  if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  const sheet = xml(sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const sharedXml = xml('xl/sharedStrings.xml');
+  const shared = sharedXml
+    ? byTag(sharedXml, 'si').map((si) => byTag(si, 't').map((t) => t.textContent || '').join(''))
+    : [];
+
+  const rows: string[][] = [];
+  byTag(sheet, 'row').forEach((rowEl, position) => {
+    const rowIndex = Number(rowEl.getAttribute('r') || position + 1) - 1;
+    const row: string[] = (rows[rowIndex] = []);
+    byTag(rowEl, 'c').forEach((cell, cellPosition) => {
+      const ref = cell.getAttribute('r');
+      const col = ref ? columnToIndex(ref.replace(/\d+$/, '')) : cellPosition;
+      const type = cell.getAttribute('t');
+      const value = byTag(cell, 'v')[0]?.textContent ?? '';
+      if (type === 's') row[col] = shared[Number(value)] ?? '';
+      else if (type === 'inlineStr') row[col] = byTag(cell, 't').map((t) => t.textContent || '').join('');
+      else if (type === 'b') row[col] = value === '1' ? 'TRUE' : 'FALSE';
+      else row[col] = value;
+    });
+  });
+  return Array.from(rows, (row) => Array.from(row || [], (cell) => cell ?? ''));
+}
+
+/** Read an uploaded .csv or .xlsx file; the first non-blank row is the header row */
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+  const name = file.name.toLowerCase();
+  let cells: string[][];
+  if (name.endsWith('.xlsx')) {
+    cells = await readXlsx(await file.arrayBuffer());
+  } else if (name.endsWith('.csv') || name.endsWith('.txt') || file.type.startsWith('text/')) {
+    cells = parseCsv(await file.text());
+  } else {
+    throw new Error('Unsupported file type. Upload a .csv or .xlsx file (save .xls files as .xlsx first).');
+  }
+
+  const nonBlank = cells.filter((row) => row.some((cell) => String(cell).trim() !== ''));
+  if (nonBlank.length === 0) throw new Error('The file is empty');
+
+  const [headerRow, ...dataRows] = nonBlank;
+  const width = Math.max(...nonBlank.map((row) => row.length));
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => String(row[i] ?? '').trim());
+  return {
+    headers: pad(headerRow).map((header, i) => header || `Column ${i + 1}`),
+    rows: dataRows.map(pad),
+  };
+}
+
+/** Excel stores dates as days since 1899-12-30; yyyy-mm-dd for plausible serials, else null */
+export function excelSerialToIso(value: string): string | null {
+  if (!/^\d{5}(\.\d+)?$/.test(value.trim())) return null;
+  const serial = Math.floor(Number(value));
+  if (serial < 20000 || serial > 80000) return null;
+  const date = new Date(Date.UTC(1899, 11, 30) + serial * 86400000);
+  return date.toISOString().slice(0, 10);
+}
+
+// --- Writing XLSX ---
+
+function writeZip(files: { path: string; content: string }[]): Blob {
+  const zipped = zipSync(Object.fromEntries(files.map((file) => [file.path, strToU8(file.content)])));
+  return new Blob([zipped], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+// XML 1.0 allows tab, line feed and carriage return but no other control characters
+const isXmlChar = (char: string) => char >= ' ' || char === '\t' || char === '\n' || char === '\r';
+
+const escapeXml = (text: string) =>
+  Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** Single-sheet workbook with a bold header row; every cell is written as text */
+export function writeXlsx(headers: string[], rows: string[][], sheetName = 'Leads'): Blob {
+  const cell = (value: string, row: number, col: number, style = 0) =>
+    `<c r="${indexToColumn(col)}${row}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+  const widths = headers.map((header, col) =>
+    Math.min(50, Math.max(header.length, ...rows.map((row) => String(row[col] ?? '').length)) + 2)
+  );
+  const sheetData = [
+    `<row r="1">${headers.map((header, col) => cell(header, 1, col, 1)).join('')}</row>`,
+    ...rows.map((row, r) => `<row r="${r + 2}">${row.map((value, col) => cell(String(value ?? ''), r + 2, col)).join('')}</row>`),
+  ].join('');
+
+  const main = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const rel = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+  const head = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+  return writeZip([
+    {
+      path: '[Content_Types].xml',
+      content: `${head}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    },
+    {
+      path: '_rels/.rels',
+      content: `${head}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${rel}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      path: 'xl/workbook.xml',
+      content: `${head}<workbook xmlns="${main}" xmlns:r="${rel}">` +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: `${head}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${rel}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `<Relationship Id="rId2" Type="${rel}/styles" Target="styles.xml"/></Relationships>`,
+    },
+    {
+      path: 'xl/styles.xml',
+      content: `${head}<styleSheet xmlns="${main}">` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>',
+    },
+    {
+      path: 'xl/worksheets/sheet1.xml',
+      content: `${head}<worksheet xmlns="${main}">` +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<cols>${widths.map((width, col) => `<col min="${col + 1}" max="${col + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>` +
+        `<sheetData>${sheetData}</sheetData></worksheet>`,
+    },
+  ]);
+}
@@ -1,6 +1,6 @@
 // State persistence and caching for CRM
 import { SheetLead } from './googleSheets';
-import { secureStorage } from './secureStorage';
+import { DEFAULT_WORKSPACE_ID, secureStorage } from './secureStorage';
 
 interface AppState {
   // Dashboard state
@@ -11,7 +11,8 @@ interface AppState {
   dateFilter: string;
   consultantFilter: string;
   
-  // Cached data
+  // Cached data, for the workspace below
+  workspaceId: string;
   cachedLeads: SheetLead[];
   lastFetchTime: number;
   
@@ -23,6 +24,10 @@ const STATE_KEY = 'crm_app_state';
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 const PERSISTENT_LEADS_KEY = 'crm_persistent_leads_cache';
 
+/** Persisted leads are kept per workspace; the default workspace keeps the original key */
+const persistentLeadsKey = (workspaceId: string) =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? PERSISTENT_LEADS_KEY : `${PERSISTENT_LEADS_KEY}:${workspaceId}`;
+
 class StateManager {
   private state: AppState = {
     activeTab: 'new',
@@ -31,6 +36,7 @@ class StateManager {
     priorityFilter: 'All Priorities',
     dateFilter: '',
     consultantFilter: 'All Consultants',
+    workspaceId: DEFAULT_WORKSPACE_ID,
     cachedLeads: [],
     lastFetchTime: 0,
     scrollPositions: {}
@@ -48,26 +54,32 @@ class StateManager {
     try {
       const stored = localStorage.getItem(STATE_KEY);
       if (stored) {
-        const parsed = JSON.parse(stored);
+        const { cachedLeads, ...parsed } = JSON.parse(stored);
         this.state = { ...this.state, ...parsed };
+        // Older versions kept the leads here in plaintext; they now only live in secureStorage
+        if (cachedLeads) this.saveState();
       }
     } catch (error) {
       console.error('Failed to load state:', error);
     }
   }
 
+  /** Everything but the leads, which are kept encrypted under persistentLeadsKey */
   private saveState(): void {
     try {
-      localStorage.setItem(STATE_KEY, JSON.stringify(this.state));
+      const { cachedLeads: _leads, ...state } = this.state;
+      localStorage.setItem(STATE_KEY, JSON.stringify(state));
     } catch (error) {
       console.error('Failed to save state:', error);
     }
   }
 
   private async hydratePersistentCache(): Promise<void> {
+    const workspaceId = this.state.workspaceId;
     try {
-      const stored = await secureStorage.get(PERSISTENT_LEADS_KEY);
-      if (!stored) return;
+      const stored = await secureStorage.get(persistentLeadsKey(workspaceId));
+      // Nothing stored, or the workspace was switched while reading
+      if (!stored || workspaceId !== this.state.workspaceId) return;
       const parsed = JSON.parse(stored) as { leads: SheetLead[]; lastFetchTime: number };
       // Only hydrate if our in-memory cache is empty or older
       if (
@@ -126,6 +138,26 @@ class StateManager {
     this.saveState();
   }
 
+  // Workspace the lead cache belongs to
+  getWorkspace(): string {
+    return this.state.workspaceId;
+  }
+
+  /** Swap the lead cache for another workspace's, hydrated from device storage */
+  setWorkspace(workspaceId: string): void {
+    if (workspaceId === this.state.workspaceId) return;
+    this.state.workspaceId = workspaceId;
+    this.state.cachedLeads = [];
+    this.state.lastFetchTime = 0;
+    this.saveState();
+    this.hydratePersistentCache();
+  }
+
+  /** Drop the persisted leads of a removed workspace */
+  forgetWorkspace(workspaceId: string): void {
+    secureStorage.remove(persistentLeadsKey(workspaceId)).catch(() => {});
+  }
+
   // Cache management
   getCachedLeads(): { leads: SheetLead[]; isValid: boolean } {
     const now = Date.now();
@@ -142,14 +174,14 @@ class StateManager {
     this.saveState();
     // Persist large datasets to device storage for fast subsequent loads
     secureStorage
-      .set(PERSISTENT_LEADS_KEY, JSON.stringify({ leads, lastFetchTime: this.state.lastFetchTime }))
+      .set(persistentLeadsKey(this.state.workspaceId), JSON.stringify({ leads, lastFetchTime: this.state.lastFetchTime }))
       .catch((e) => console.warn('Failed to persist leads cache:', e));
   }
 
   invalidateCache(): void {
     this.state.lastFetchTime = 0;
     this.saveState();
-    secureStorage.remove(PERSISTENT_LEADS_KEY).catch(() => {});
+    secureStorage.remove(persistentLeadsKey(this.state.workspaceId)).catch(() => {});
   }
 
   // Scroll positions
@@ -162,10 +194,11 @@ class StateManager {
     this.saveState();
   }
 
-  // Clear all state
+  // Clear all state (the workspace stays selected)
   clearAll(): void {
     localStorage.removeItem(STATE_KEY);
     this.state = {
+      workspaceId: this.state.workspaceId,
       activeTab: 'new',
       searchQuery: '',
       statusFilter: 'All Statuses',
@@ -0,0 +1,459 @@
+// Supabase lead backend (public.leads table)
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { BulkUpdateResult, FetchProgress, LeadConflictError, SheetLead, UpdateLeadOptions, generateLeadId, mergeAgainstBaseline } from './googleSheets';
+import type { LeadRepository } from './leadRepository';
+import { comparableLeadValue, toInt } from './leadFields';
+import { parseSheetTimestamp, toIsoDate, toSheetTimestamp } from './dates';
+import { RemarkEntry, sortRemarks } from './remarkLog';
+import { AuditChange, AuditEntry, createAuditEntries } from './auditLog';
+import { TripIdFormat, allocateTripIds, normalizeTripIdFormat, tripIdStem } from './tripId';
+import { EXTENDED_LEAD_FIELDS } from './columnMapping';
+import { secureStorage } from './secureStorage';
+import { errorMessage } from './utils';
+
+export type LeadRow = Tables<'leads'>;
+
+const PAGE_SIZE = 1000; // PostgREST default max rows per request
+const REMARK_ACTIVITY = 'remark';
+const AUDIT_ACTIVITY = 'field_change';
+
+/** activity_logs.lead_id references leads.trip_id, which is the lead key until a Trip ID is assigned */
+const activityLeadId = (lead: Partial<Pick<SheetLead, 'tripId' | 'uniqueKey'>>) => lead.tripId || lead.uniqueKey || '';
+
+type TextField = { [K in keyof SheetLead]-?: SheetLead[K] extends string | undefined ? K : never }[keyof SheetLead];
+
+/** Fields without a column of their own, kept in leads.details */
+const DETAIL_FIELDS = [...EXTENDED_LEAD_FIELDS.map((f) => f.key), 'notes'] as TextField[];
+
+/** The detail fields present in `source` (a lead or a stored details object) */
+function detailsOf(source: Partial<Record<TextField, unknown>>): Partial<Pick<SheetLead, TextField>> {
+  const details: Partial<Pick<SheetLead, TextField>> = {};
+  for (const key of DETAIL_FIELDS) {
+    if (source[key] !== undefined && source[key] !== null) details[key] = String(source[key]);
+  }
+  return details;
+}
+
+export function leadFromRow(row: LeadRow): SheetLead {
+  const details = row.details && typeof row.details === 'object' && !Array.isArray(row.details) ? row.details : {};
+  return {
+    ...detailsOf(details),
+    // trip_id falls back to the lead key for leads that don't have a Trip ID yet
+    tripId: row.trip_id === row.lead_key ? '' : row.trip_id,
+    dateAndTime: toSheetTimestamp(new Date(row.date_time)),
+    consultant: row.consultant_name || '',
+    status: row.lead_status || '',
+    travellerName: row.traveller_name,
+    travelDate: row.travel_date || '',
+    travelState: row.travel_state || '',
+    remarks: row.remark_by_consultant || '',
+    nights: row.nights != null ? String(row.nights) : '',
+    pax: row.pax != null ? String(row.pax) : '',
+    hotelCategory: row.hotel_category || '',
+    mealPlan: row.meal_plan || '',
+    phone: row.phone_number || '',
+    email: row.email_id || '',
+    priority: row.priority || '',
+    remarkHistory: Array.isArray(row.remark_history) ? (row.remark_history as string[]) : [],
+    uniqueKey: row.lead_key,
+  };
+}
+
+/**
+ * Map the SheetLead fields present in `lead` onto leads columns. Detail fields
+ * replace the whole details object, so pass the stored lead as `current` to
+ * keep the ones `lead` doesn't touch.
+ */
+export function leadToRow(lead: Partial<SheetLead>, current?: Partial<SheetLead>): TablesUpdate<'leads'> {
+  const row: TablesUpdate<'leads'> = {};
+  if (lead.consultant !== undefined) row.consultant_name = lead.consultant || null;
+  if (lead.status !== undefined) row.lead_status = lead.status;
+  if (lead.travellerName !== undefined) row.traveller_name = lead.travellerName;
+  if (lead.travelDate !== undefined) row.travel_date = toIsoDate(lead.travelDate);
+  if (lead.travelState !== undefined) row.travel_state = lead.travelState || null;
+  if (lead.remarks !== undefined) row.remark_by_consultant = lead.remarks || null;
+  if (lead.nights !== undefined) row.nights = toInt(lead.nights);
+  if (lead.pax !== undefined) row.pax = toInt(lead.pax);
+  if (lead.hotelCategory !== undefined) row.hotel_category = lead.hotelCategory || null;
+  if (lead.mealPlan !== undefined) row.meal_plan = lead.mealPlan || null;
+  if (lead.phone !== undefined) row.phone_number = lead.phone || null;
+  if (lead.email !== undefined) row.email_id = lead.email || null;
+  if (lead.priority !== undefined) row.priority = lead.priority || null;
+  if (lead.remarkHistory !== undefined) row.remark_history = lead.remarkHistory;
+  const details = detailsOf(lead);
+  if (Object.keys(details).length > 0) row.details = { ...detailsOf(current || {}), ...details };
+  return row;
+}
+
+/** Fields of `updates` that map to a leads column and differ from `remote` */
+function auditChanges(remote: SheetLead, updates: Partial<SheetLead>): AuditChange[] {
+  const changes: AuditChange[] = [];
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined || Object.keys(leadToRow({ [key]: value })).length === 0) continue;
+    const oldValue = comparableLeadValue(key, remote[key as keyof SheetLead]);
+    const newValue = comparableLeadValue(key, value);
+    if (oldValue !== newValue) changes.push({ field: key, oldValue, newValue });
+  }
+  return changes;
+}
+
+export class SupabaseLeadRepository implements LeadRepository {
+  readonly backend = 'supabase' as const;
+
+  async list(_forceRefresh = false, onProgress?: (progress: FetchProgress) => void): Promise<SheetLead[]> {
+    const rows: LeadRow[] = [];
+    let total = 0;
+    for (let from = 0; ; from += PAGE_SIZE) {
+      // The exact count is only needed once, for the progress total
+      const { data, error, count } = await supabase
+        .from('leads')
+        .select('*', from === 0 ? { count: 'exact' } : undefined)
+        .is('archived_at', null)
+        .order('date_time', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      rows.push(...(data || []));
+      if (from === 0) total = count || 0;
+      onProgress?.({ loaded: rows.length, total: Math.max(total, rows.length) });
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    console.log(`✅ Fetched ${rows.length} leads from Supabase`);
+    return rows.map(leadFromRow);
+  }
+
+  async get(leadId: string): Promise<SheetLead | null> {
+    const { data, error } = await supabase.from('leads').select('*').eq('lead_key', leadId).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? leadFromRow(data) : null;
+  }
+
+  /** Trip ID format from Settings (stored with the sheet credentials) */
+  private async tripIdFormat(): Promise<TripIdFormat> {
+    const credentials = await secureStorage.getCredentials();
+    return normalizeTripIdFormat(credentials?.tripIdFormat);
+  }
+
+  /** Trip IDs starting with `stem`, archived leads included since trip_id stays unique */
+  private async tripIdsWithStem(stem: string): Promise<string[]> {
+    const ids: string[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('trip_id')
+        .like('trip_id', `${stem}%`)
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      ids.push(...(data || []).map((row) => row.trip_id));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return ids;
+  }
+
+  async create(lead: Partial<SheetLead>): Promise<string> {
+    const [leadKey] = await this.createMany([lead]);
+    return leadKey;
+  }
+
+  async createMany(leads: Partial<SheetLead>[]): Promise<string[]> {
+    if (leads.length === 0) return [];
+    leads = leads.map((lead) => ({ ...lead, uniqueKey: lead.uniqueKey || generateLeadId() }));
+    const generated = leads.map((lead) => !String(lead.tripId ?? '').trim());
+    const format = generated.some(Boolean) ? await this.tripIdFormat() : null;
+
+    // trip_id is the primary key: a device that picked the same numbers at the same time gets a
+    // unique violation and moves on to the next free ones
+    for (let attempt = 0; ; attempt++) {
+      const createdAt = new Date();
+      const tripIds = format
+        ? allocateTripIds(format, await this.tripIdsWithStem(tripIdStem(format, createdAt)), generated.filter(Boolean).map(() => createdAt))
+        : [];
+      let next = 0;
+      const rows: TablesInsert<'leads'>[] = leads.map((lead, i) => ({
+        ...leadToRow(lead),
+        lead_key: lead.uniqueKey!,
+        trip_id: generated[i] ? tripIds[next++] : lead.tripId!,
+        // Imported leads keep their original date; new ones are stamped now
+        date_time: (parseSheetTimestamp(lead.dateAndTime) || createdAt).toISOString(),
+        traveller_name: lead.travellerName || '',
+      }));
+
+      const { error } = await supabase.from('leads').insert(rows);
+      if (error && format && attempt < 4 && error.code === '23505' && error.message.includes('leads_pkey')) {
+        console.warn('⚠️ Trip IDs were taken by another device, retrying');
+        continue;
+      }
+      if (error) throw new Error(error.message);
+
+      console.log(`✅ ${rows.length} lead(s) inserted`);
+      await this.auditMany(leads.map((lead, i) => ({
+        lead: { ...lead, tripId: rows[i].trip_id },
+        changes: [
+          { field: 'created', newValue: lead.status || '' },
+          ...(generated[i] ? [{ field: 'tripId', newValue: rows[i].trip_id }] : []),
+        ],
+      })));
+      return leads.map((lead) => lead.uniqueKey!);
+    }
+  }
+
+  /** Give leads created without a Trip ID (trip_id still holds the lead key) a generated one */
+  async backfillTripIds(): Promise<number> {
+    const rows: Pick<LeadRow, 'lead_key' | 'trip_id' | 'date_time' | 'traveller_name'>[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('lead_key, trip_id, date_time, traveller_name')
+        .order('date_time', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const blank = rows.filter((row) => row.trip_id === row.lead_key);
+    if (blank.length === 0) return 0;
+
+    const format = await this.tripIdFormat();
+    const tripIds = allocateTripIds(
+      format,
+      rows.map((row) => row.trip_id),
+      blank.map((row) => new Date(row.date_time))
+    );
+
+    let updated = 0;
+    for (const [index, row] of blank.entries()) {
+      // Remarks, reminders and audit rows follow via ON UPDATE CASCADE
+      const { error } = await supabase
+        .from('leads')
+        .update({ trip_id: tripIds[index] })
+        .eq('lead_key', row.lead_key);
+      if (error) throw new Error(`${error.message} (${updated} Trip IDs assigned before the failure)`);
+      updated++;
+      await this.audit({ uniqueKey: row.lead_key, tripId: tripIds[index], travellerName: row.traveller_name }, [
+        { field: 'tripId', newValue: tripIds[index] },
+      ]);
+    }
+    console.log(`🎫 Backfilled ${updated} Trip IDs`);
+    return updated;
+  }
+
+  async update(lead: SheetLead, updates: Partial<SheetLead>, options: UpdateLeadOptions = {}): Promise<void> {
+    if (!lead.uniqueKey) throw new Error('Lead ID required to update lead');
+
+    // The row as it is now: merged against the caller's baseline, and the "old" side of the audit trail
+    const remote = await this.get(lead.uniqueKey);
+    if (!remote) throw new Error(`Lead ${lead.uniqueKey} not found`);
+    if (options.baseline) {
+      updates = mergeAgainstBaseline(remote, options.baseline, updates, comparableLeadValue);
+    }
+
+    const row = leadToRow(updates, remote);
+    if (Object.keys(row).length === 0) {
+      console.log('⚠️ No fields to update');
+      return;
+    }
+
+    const { error } = await supabase.from('leads').update(row).eq('lead_key', lead.uniqueKey);
+    if (error) throw new Error(error.message);
+    console.log(`✅ Lead ${lead.uniqueKey} updated`, Object.keys(row));
+
+    await this.audit(remote, auditChanges(remote, updates));
+  }
+
+  async bulkUpdate(leads: SheetLead[], updates: Partial<SheetLead>): Promise<BulkUpdateResult[]> {
+    const keys = leads.map((lead) => lead.uniqueKey).filter(Boolean) as string[];
+    const { data, error } = await supabase.from('leads').select('*').in('lead_key', keys);
+    if (error) throw new Error(error.message);
+    const remotes = new Map((data || []).map((row) => [row.lead_key, leadFromRow(row)]));
+
+    const results: BulkUpdateResult[] = [];
+    // Leads whose merged updates are identical can share one UPDATE ... WHERE lead_key IN (...)
+    const groups = new Map<string, { row: TablesUpdate<'leads'>; pending: { result: BulkUpdateResult; remote: SheetLead; merged: Partial<SheetLead> }[] }>();
+
+    for (const lead of leads) {
+      const result: BulkUpdateResult = { lead, ok: false };
+      results.push(result);
+      try {
+        const remote = lead.uniqueKey ? remotes.get(lead.uniqueKey) : undefined;
+        if (!remote) throw new Error('Lead not found. It may have been deleted.');
+        const merged = mergeAgainstBaseline(remote, lead, updates, comparableLeadValue);
+        const row = leadToRow(merged, remote);
+        if (Object.keys(row).length === 0) {
+          result.ok = true;
+          continue;
+        }
+        const signature = JSON.stringify(row);
+        if (!groups.has(signature)) groups.set(signature, { row, pending: [] });
+        groups.get(signature)!.pending.push({ result, remote, merged });
+      } catch (error: unknown) {
+        result.error = errorMessage(error);
+        result.isConflict = error instanceof LeadConflictError;
+      }
+    }
+
+    for (const { row, pending } of groups.values()) {
+      const { error: updateError } = await supabase
+        .from('leads')
+        .update(row)
+        .in('lead_key', pending.map(({ remote }) => remote.uniqueKey!));
+      if (updateError) {
+        pending.forEach(({ result }) => (result.error = updateError.message));
+        continue;
+      }
+      pending.forEach(({ result }) => (result.ok = true));
+      await this.auditMany(pending.map(({ remote, merged }) => ({ lead: remote, changes: auditChanges(remote, merged) })));
+    }
+
+    console.log(`📦 Bulk update: ${results.filter((r) => r.ok).length}/${results.length} lead(s) updated`);
+    return results;
+  }
+
+  assign(lead: SheetLead, consultant: string, options: UpdateLeadOptions = {}): Promise<void> {
+    return this.update(lead, { consultant }, options);
+  }
+
+  async archive(lead: SheetLead): Promise<void> {
+    if (!lead.uniqueKey) throw new Error('Lead ID required to archive lead');
+    const { error } = await supabase
+      .from('leads')
+      .update({ archived_at: new Date().toISOString() })
+      .eq('lead_key', lead.uniqueKey);
+    if (error) throw new Error(error.message);
+    console.log(`📦 Lead ${lead.uniqueKey} archived`);
+    await this.audit(lead, [{ field: 'archived', newValue: 'yes' }]);
+  }
+
+  archiveMany(leads: SheetLead[]): Promise<BulkUpdateResult[]> {
+    return this.setArchived(leads, new Date().toISOString());
+  }
+
+  async listArchived(): Promise<SheetLead[]> {
+    const rows: LeadRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .not('archived_at', 'is', null)
+        .order('archived_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return rows.map(leadFromRow);
+  }
+
+  restore(leads: SheetLead[]): Promise<BulkUpdateResult[]> {
+    return this.setArchived(leads, null);
+  }
+
+  /** Set or clear archived_at for many leads in one UPDATE; leads the UPDATE didn't touch are reported */
+  private async setArchived(leads: SheetLead[], archivedAt: string | null): Promise<BulkUpdateResult[]> {
+    const keys = leads.map((lead) => lead.uniqueKey).filter(Boolean) as string[];
+    const { data, error } = await supabase
+      .from('leads')
+      .update({ archived_at: archivedAt })
+      .in('lead_key', keys)
+      .select('lead_key');
+    if (error) throw new Error(error.message);
+
+    const updated = new Set((data || []).map((row) => row.lead_key));
+    const results = leads.map((lead): BulkUpdateResult =>
+      lead.uniqueKey && updated.has(lead.uniqueKey)
+        ? { lead, ok: true }
+        : { lead, ok: false, error: 'Lead not found. It may have been deleted.' }
+    );
+    await this.auditMany(results.filter((r) => r.ok).map(({ lead }) => ({
+      lead,
+      changes: [archivedAt ? { field: 'archived', newValue: 'yes' } : { field: 'archived', oldValue: 'yes', newValue: 'no' }],
+    })));
+    console.log(`📦 ${archivedAt ? 'Archived' : 'Restored'} ${updated.size}/${leads.length} lead(s)`);
+    return results;
+  }
+
+  async listRemarks(leadId: string): Promise<RemarkEntry[]> {
+    const lead = await this.get(leadId);
+    if (!lead) return [];
+    const { data, error } = await supabase
+      .from('activity_logs')
+      .select('created_at, notes')
+      .eq('lead_id', activityLeadId(lead))
+      .eq('activity_type', REMARK_ACTIVITY);
+    if (error) throw new Error(error.message);
+
+    // Author and entry ID travel in the notes JSON; activity_logs has no columns for them
+    return sortRemarks(
+      (data || []).map((row) => {
+        let body: Partial<Pick<RemarkEntry, 'id' | 'author' | 'authorEmail' | 'text'>> = {};
+        try {
+          body = JSON.parse(row.notes || '{}');
+        } catch {
+          body = { text: row.notes || '' };
+        }
+        return {
+          id: body.id || '',
+          leadId,
+          createdAt: row.created_at || '',
+          author: body.author || '',
+          authorEmail: body.authorEmail || '',
+          text: body.text || '',
+        };
+      })
+    );
+  }
+
+  async addRemark(lead: SheetLead, entry: RemarkEntry): Promise<void> {
+    if (!lead.uniqueKey) throw new Error('Lead ID required to add a remark');
+    const { error } = await supabase.from('activity_logs').insert({
+      activity_type: REMARK_ACTIVITY,
+      lead_id: activityLeadId(lead),
+      created_at: entry.createdAt,
+      notes: JSON.stringify({ id: entry.id, author: entry.author, authorEmail: entry.authorEmail, text: entry.text }),
+    });
+    if (error) throw new Error(error.message);
+    console.log(`💬 Remark logged for lead ${lead.uniqueKey}`);
+  }
+
+  /** Record field changes in activity_logs. Never fails the write it describes. */
+  private audit(lead: Partial<SheetLead>, changes: AuditChange[]): Promise<void> {
+    return this.auditMany([{ lead, changes }]);
+  }
+
+  /** Changes of several leads in one insert */
+  private async auditMany(items: { lead: Partial<SheetLead>; changes: AuditChange[] }[]): Promise<void> {
+    const rows = items.flatMap(({ lead, changes }) =>
+      createAuditEntries({ leadId: lead.uniqueKey || '', leadName: lead.travellerName }, changes).map((entry) => ({
+        activity_type: AUDIT_ACTIVITY,
+        lead_id: activityLeadId(lead),
+        created_at: entry.timestamp,
+        notes: JSON.stringify(entry),
+      }))
+    );
+    if (rows.length === 0) return;
+    const { error } = await supabase.from('activity_logs').insert(rows);
+    if (error) console.error('❌ Failed to write audit trail:', error.message);
+  }
+
+  async listAuditEntries(): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('activity_logs')
+        .select('notes')
+        .eq('activity_type', AUDIT_ACTIVITY)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      for (const row of data || []) {
+        try {
+          entries.push(JSON.parse(row.notes || ''));
+        } catch {
+          // Not written by this app
+        }
+      }
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,122 @@
+// Supabase implementation of the sync engine's database side
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { SheetLead } from './googleSheets';
+import { secureStorage } from './secureStorage';
+import { createSheetsService } from './sheetsLeadRepository';
+import { parseSheetTimestamp } from './dates';
+import { LeadRow, leadFromRow, leadToRow } from './supabaseLeadRepository';
+import { NewSyncConflict, SyncConflict, SyncEngine, SyncRecord, SyncSnapshot, SyncStore } from './syncEngine';
+import { SUPABASE_BACKEND_ENABLED } from './leadRepository';
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH = 500;
+
+function conflictFromRow(row: Tables<'sync_conflicts'>): SyncConflict {
+  return {
+    id: row.id,
+    leadKey: row.lead_key,
+    travellerName: row.traveller_name || '',
+    field: row.field as SyncConflict['field'],
+    baseValue: row.base_value || '',
+    sheetValue: row.sheet_value || '',
+    dbValue: row.db_value || '',
+    detectedAt: row.detected_at || '',
+    resolvedAt: row.resolved_at,
+    resolution: row.resolution as SyncConflict['resolution'],
+  };
+}
+
+export class SupabaseSyncStore implements SyncStore {
+  /** Archived rows included: their keys must not be inserted again */
+  async listRecords(): Promise<SyncRecord[]> {
+    const rows: LeadRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*')
+        .order('lead_key')
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return rows.map((row) => ({
+      lead: leadFromRow(row),
+      syncToSheet: row.sync_to_sheet !== false,
+      snapshot: (row.sync_snapshot as SyncSnapshot | null) || null,
+      lastSyncedAt: row.last_synced_at,
+      archived: row.archived_at !== null,
+    }));
+  }
+
+  async insertRecords(records: { lead: SheetLead; snapshot: SyncSnapshot }[], syncedAt: string): Promise<void> {
+    const rows: TablesInsert<'leads'>[] = records.map(({ lead, snapshot }) => ({
+      ...leadToRow(lead),
+      lead_key: lead.uniqueKey!,
+      trip_id: lead.tripId || lead.uniqueKey!,
+      date_time: parseSheetTimestamp(lead.dateAndTime)?.toISOString() || syncedAt,
+      traveller_name: lead.travellerName || '',
+      sync_snapshot: snapshot,
+      last_synced_at: syncedAt,
+    }));
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+      const { error } = await supabase.from('leads').insert(rows.slice(i, i + INSERT_BATCH));
+      if (error) throw new Error(error.message);
+    }
+  }
+
+  async updateRecord(leadKey: string, updates: Partial<SheetLead>, snapshot: SyncSnapshot, syncedAt: string): Promise<void> {
+    const { error } = await supabase
+      .from('leads')
+      .update({
+        ...leadToRow(updates),
+        // Remarks, reminders and audit rows follow a new trip_id via ON UPDATE CASCADE
+        ...(updates.tripId ? { trip_id: updates.tripId } : {}),
+        sync_snapshot: snapshot,
+        last_synced_at: syncedAt,
+      })
+      .eq('lead_key', leadKey);
+    if (error) throw new Error(error.message);
+  }
+
+  async listConflicts(includeResolved = false): Promise<SyncConflict[]> {
+    let query = supabase.from('sync_conflicts').select('*').order('detected_at', { ascending: false });
+    if (!includeResolved) query = query.is('resolved_at', null);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return (data || []).map(conflictFromRow);
+  }
+
+  async addConflicts(conflicts: NewSyncConflict[]): Promise<void> {
+    const { error } = await supabase.from('sync_conflicts').insert(
+      conflicts.map((c) => ({
+        lead_key: c.leadKey,
+        traveller_name: c.travellerName,
+        field: c.field,
+        base_value: c.baseValue,
+        sheet_value: c.sheetValue,
+        db_value: c.dbValue,
+      }))
+    );
+    if (error) throw new Error(error.message);
+  }
+
+  async markConflictResolved(id: string, resolution: 'sheet' | 'database', resolvedAt: string): Promise<void> {
+    const { error } = await supabase
+      .from('sync_conflicts')
+      .update({ resolution, resolved_at: resolvedAt })
+      .eq('id', id);
+    if (error) throw new Error(error.message);
+  }
+}
+
+/** Sync engine wired to the configured Google Sheet and the Supabase leads table */
+export async function createSupabaseSyncEngine(): Promise<SyncEngine> {
+  if (!SUPABASE_BACKEND_ENABLED) throw new Error('Supabase is switched off until it has its own sign-in.');
+  const credentials = await secureStorage.getCredentials();
+  if (!credentials) throw new Error('Google Sheets not configured. Please setup in Settings.');
+  if (!credentials.googleServiceAccountJson) throw new Error('Service Account JSON is required to sync.');
+  return new SyncEngine({ sheets: createSheetsService(credentials), store: new SupabaseSyncStore() });
+}
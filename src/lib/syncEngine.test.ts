@@ -0,0 +1,280 @@
+import { describe, expect, it } from 'vitest';
+import type { SheetLead } from './googleSheets';
+import {
+  NewSyncConflict,
+  SyncConflict,
+  SyncEngine,
+  SyncRecord,
+  SyncSheetSource,
+  SyncSnapshot,
+  SyncStore,
+  snapshotOf,
+} from './syncEngine';
+
+const NOW = new Date('2025-10-24T10:00:00Z');
+
+function lead(uniqueKey: string, fields: Partial<SheetLead> = {}): SheetLead {
+  return {
+    tripId: `T-${uniqueKey}`,
+    dateAndTime: '10/01/2025 09:00:00',
+    consultant: 'Asha',
+    status: 'Unfollowed',
+    travellerName: `Traveller ${uniqueKey}`,
+    travelDate: '',
+    travelState: 'Goa',
+    remarks: '',
+    nights: '3',
+    pax: '2',
+    hotelCategory: '',
+    mealPlan: '',
+    phone: '',
+    email: '',
+    priority: '',
+    uniqueKey,
+    ...fields,
+  };
+}
+
+/** MASTER DATA in memory; appended rows get the next T-<n> Trip ID like the real sheet */
+class StubSheet implements SyncSheetSource {
+  leads: SheetLead[];
+  updates: { leadId: string; updates: Partial<SheetLead> }[] = [];
+  private nextTripId = 100;
+
+  constructor(leads: SheetLead[]) {
+    this.leads = leads;
+  }
+
+  async fetchLeads(): Promise<SheetLead[]> {
+    return this.leads.map((l) => ({ ...l }));
+  }
+
+  async appendLead(newLead: Partial<SheetLead>): Promise<string> {
+    const tripId = newLead.tripId || `T-${this.nextTripId++}`;
+    this.leads.push({ ...lead(newLead.uniqueKey!), ...newLead, tripId });
+    return newLead.uniqueKey!;
+  }
+
+  async updateLead(leadId: string, updates: Partial<SheetLead>): Promise<void> {
+    this.updates.push({ leadId, updates });
+    this.leads = this.leads.map((l) => (l.uniqueKey === leadId ? { ...l, ...updates } : l));
+  }
+
+  async backfillLeadIds(): Promise<number> {
+    return 0;
+  }
+}
+
+class StubStore implements SyncStore {
+  records: SyncRecord[];
+  conflicts: SyncConflict[] = [];
+
+  constructor(records: SyncRecord[]) {
+    this.records = records;
+  }
+
+  async listRecords(): Promise<SyncRecord[]> {
+    return this.records.map((r) => ({ ...r, lead: { ...r.lead } }));
+  }
+
+  async insertRecords(records: { lead: SheetLead; snapshot: SyncSnapshot }[], syncedAt: string): Promise<void> {
+    // Like the unique index on leads.lead_key
+    const taken = records.find(({ lead }) => this.records.some((r) => r.lead.uniqueKey === lead.uniqueKey));
+    if (taken) throw new Error(`duplicate key ${taken.lead.uniqueKey}`);
+    this.records.push(...records.map(({ lead, snapshot }) => ({ lead, snapshot, syncToSheet: true, lastSyncedAt: syncedAt })));
+  }
+
+  async updateRecord(leadKey: string, updates: Partial<SheetLead>, snapshot: SyncSnapshot, syncedAt: string): Promise<void> {
+    this.records = this.records.map((r) =>
+      r.lead.uniqueKey === leadKey ? { ...r, lead: { ...r.lead, ...updates }, snapshot, lastSyncedAt: syncedAt } : r
+    );
+  }
+
+  async listConflicts(includeResolved = false): Promise<SyncConflict[]> {
+    return this.conflicts.filter((c) => includeResolved || !c.resolvedAt);
+  }
+
+  async addConflicts(conflicts: NewSyncConflict[]): Promise<void> {
+    this.conflicts.push(...conflicts.map((c, i) => ({ ...c, id: `c${this.conflicts.length + i}`, detectedAt: NOW.toISOString() })));
+  }
+
+  async markConflictResolved(id: string, resolution: 'sheet' | 'database', resolvedAt: string): Promise<void> {
+    this.conflicts = this.conflicts.map((c) => (c.id === id ? { ...c, resolution, resolvedAt } : c));
+  }
+
+  get(leadKey: string): SyncRecord {
+    return this.records.find((r) => r.lead.uniqueKey === leadKey)!;
+  }
+}
+
+/** A database record last synced when the sheet held `base` */
+function synced(base: SheetLead, dbFields: Partial<SheetLead> = {}, syncToSheet = true): SyncRecord {
+  return { lead: { ...base, ...dbFields }, snapshot: snapshotOf(base), syncToSheet, lastSyncedAt: '2025-10-01T00:00:00Z' };
+}
+
+function engine(sheet: StubSheet, store: StubStore) {
+  return new SyncEngine({ sheets: sheet, store, now: () => NOW });
+}
+
+describe('SyncEngine.run', () => {
+  it('inserts new sheet rows into the database with a snapshot', async () => {
+    const sheet = new StubSheet([lead('a')]);
+    const store = new StubStore([]);
+
+    const report = await engine(sheet, store).run();
+
+    expect(report.insertedIntoDb).toBe(1);
+    expect(store.get('a').snapshot).toEqual(snapshotOf(lead('a')));
+  });
+
+  it('appends database-only rows to the sheet and writes the assigned Trip ID back', async () => {
+    const sheet = new StubSheet([]);
+    const store = new StubStore([{ lead: lead('b', { tripId: '' }), snapshot: null, syncToSheet: true, lastSyncedAt: null }]);
+
+    const report = await engine(sheet, store).run();
+
+    expect(report.appendedToSheet).toBe(1);
+    expect(sheet.leads.map((l) => l.uniqueKey)).toEqual(['b']);
+    expect(store.get('b').lead.tripId).toBe('T-100');
+    expect(store.get('b').snapshot).not.toBeNull();
+  });
+
+  it('does not append rows that opted out of sheet sync', async () => {
+    const sheet = new StubSheet([]);
+    const store = new StubStore([{ lead: lead('b'), snapshot: null, syncToSheet: false, lastSyncedAt: null }]);
+
+    const report = await engine(sheet, store).run();
+
+    expect(report.appendedToSheet).toBe(0);
+    expect(sheet.leads).toHaveLength(0);
+  });
+
+  it('pulls fields that changed only in the sheet', async () => {
+    const base = lead('a');
+    const sheet = new StubSheet([{ ...base, status: 'Hot Leads' }]);
+    const store = new StubStore([synced(base)]);
+
+    const report = await engine(sheet, store).run();
+
+    expect(report.pulledFromSheet).toBe(1);
+    expect(report.pushedToSheet).toBe(0);
+    expect(store.get('a').lead.status).toBe('Hot Leads');
+    expect(store.get('a').snapshot?.status).toBe('Hot Leads');
+  });
+
+  it('pushes fields that changed only in the database', async () => {
+    const base = lead('a');
+    const sheet = new StubSheet([base]);
+    const store = new StubStore([synced(base, { remarks: 'Called back' })]);
+
+    const report = await engine(sheet, store).run();
+
+    expect(report.pushedToSheet).toBe(1);
+    expect(sheet.updates).toEqual([{ leadId: 'a', updates: { remarks: 'Called back' } }]);
+    expect(store.get('a').snapshot?.remarks).toBe('Called back');
+  });
+
+  it('merges different fields changed on each side', async () => {
+    const base = lead('a');
+    const sheet = new StubSheet([{ ...base, status: 'Negotiations' }]);
+    const store = new StubStore([synced(base, { remarks: 'Wants a sea view' })]);
+
+    await engine(sheet, store).run();
+
+    expect(sheet.leads[0]).toMatchObject({ status: 'Negotiations', remarks: 'Wants a sea view' });
+    expect(store.get('a').lead).toMatchObject({ status: 'Negotiations', remarks: 'Wants a sea view' });
+    expect(store.conflicts).toHaveLength(0);
+  });
+
+  it('keeps database edits out of the sheet when sync_to_sheet is off', async () => {
+    const base = lead('a');
+    const sheet = new StubSheet([base]);
+    const store = new StubStore([synced(base, { remarks: 'Private note' }, false)]);
+
+    const report = await engine(sheet, store).run();
+
+    expect(report.pushedToSheet).toBe(0);
+    expect(sheet.updates).toHaveLength(0);
+    expect(store.conflicts).toHaveLength(0);
+  });
+
+  it('accepts the same edit made on both sides without a conflict', async () => {
+    const base = lead('a');
+    const sheet = new StubSheet([{ ...base, consultant: 'Ravi' }]);
+    const store = new StubStore([synced(base, { consultant: 'Ravi' })]);
+
+    const report = await engine(sheet, store).run();
+
+    expect(report.conflicts).toBe(0);
+    expect(sheet.updates).toHaveLength(0);
+    expect(store.get('a').snapshot?.consultant).toBe('Ravi');
+  });
+
+  it('leaves leads archived in the database alone while they are still in the sheet', async () => {
+    const base = lead('a');
+    const sheet = new StubSheet([{ ...base, status: 'Hot Leads' }]);
+    const store = new StubStore([{ ...synced(base, { remarks: 'Archived copy' }), archived: true }]);
+
+    const report = await engine(sheet, store).run();
+
+    expect(report).toMatchObject({ insertedIntoDb: 0, appendedToSheet: 0, pulledFromSheet: 0, pushedToSheet: 0, conflicts: 0 });
+    expect(store.records).toHaveLength(1);
+    expect(sheet.updates).toHaveLength(0);
+    expect(store.get('a').lead.status).toBe('Unfollowed');
+  });
+
+  it('logs a conflict once and leaves both sides alone when a field changed differently on each side', async () => {
+    const base = lead('a');
+    const sheet = new StubSheet([{ ...base, status: 'Booked With Us' }]);
+    const store = new StubStore([synced(base, { status: 'Cancellations' })]);
+
+    const report = await engine(sheet, store).run();
+
+    expect(report.conflicts).toBe(1);
+    expect(store.conflicts[0]).toMatchObject({
+      leadKey: 'a',
+      field: 'status',
+      baseValue: 'Unfollowed',
+      sheetValue: 'Booked With Us',
+      dbValue: 'Cancellations',
+    });
+    expect(sheet.updates).toHaveLength(0);
+    expect(store.get('a').lead.status).toBe('Cancellations');
+    expect(store.get('a').snapshot?.status).toBe('Unfollowed');
+
+    // Still open on the next run, but not logged again
+    expect((await engine(sheet, store).run()).conflicts).toBe(1);
+    expect(store.conflicts).toHaveLength(1);
+  });
+});
+
+describe('SyncEngine.resolveConflict', () => {
+  async function withConflict() {
+    const base = lead('a');
+    const sheet = new StubSheet([{ ...base, status: 'Booked With Us' }]);
+    const store = new StubStore([synced(base, { status: 'Cancellations' })]);
+    await engine(sheet, store).run();
+    return { sheet, store, conflict: store.conflicts[0] };
+  }
+
+  it('writes the database value to the sheet', async () => {
+    const { sheet, store, conflict } = await withConflict();
+
+    await engine(sheet, store).resolveConflict(conflict, 'database');
+
+    expect(sheet.leads[0].status).toBe('Cancellations');
+    expect(store.get('a').snapshot?.status).toBe('Cancellations');
+    expect(store.conflicts[0]).toMatchObject({ resolution: 'database', resolvedAt: NOW.toISOString() });
+  });
+
+  it('writes the sheet value to the database', async () => {
+    const { sheet, store, conflict } = await withConflict();
+
+    await engine(sheet, store).resolveConflict(conflict, 'sheet');
+
+    expect(sheet.updates).toHaveLength(0);
+    expect(store.get('a').lead.status).toBe('Booked With Us');
+    expect(store.get('a').snapshot?.status).toBe('Booked With Us');
+    expect((await engine(sheet, store).run()).conflicts).toBe(0);
+  });
+});
@@ -0,0 +1,246 @@
+// Sheets <-> Supabase sync: mirrors MASTER DATA into the leads table and pushes database edits back
+import { SheetLead } from './googleSheets';
+import { comparableLeadValue } from './leadFields';
+
+/** Fields kept in step between the sheet and the database */
+export const SYNC_FIELDS = [
+  'consultant', 'status', 'travellerName', 'travelDate', 'travelState', 'remarks',
+  'nights', 'pax', 'hotelCategory', 'mealPlan', 'phone', 'email', 'priority',
+] as const satisfies readonly (keyof SheetLead)[];
+
+export type SyncField = typeof SYNC_FIELDS[number];
+
+/** Field values both sides agreed on at the last sync */
+export type SyncSnapshot = Partial<Record<SyncField, string>>;
+
+/** A database lead plus its sync bookkeeping */
+export interface SyncRecord {
+  lead: SheetLead;
+  syncToSheet: boolean;
+  snapshot: SyncSnapshot | null;
+  lastSyncedAt: string | null;
+  /** Archived in the database: left out of the sync, but its key is not new */
+  archived?: boolean;
+}
+
+export interface SyncConflict {
+  id: string;
+  leadKey: string;
+  travellerName: string;
+  field: SyncField;
+  baseValue: string;
+  sheetValue: string;
+  dbValue: string;
+  detectedAt: string;
+  resolvedAt?: string | null;
+  resolution?: 'sheet' | 'database' | null;
+}
+
+export type NewSyncConflict = Omit<SyncConflict, 'id' | 'detectedAt' | 'resolvedAt' | 'resolution'>;
+
+/** Sheet side of the sync. GoogleSheetsService satisfies this; tests can pass a stub. */
+export interface SyncSheetSource {
+  fetchLeads(forceRefresh?: boolean): Promise<SheetLead[]>;
+  appendLead(lead: Partial<SheetLead>): Promise<string>;
+  updateLead(leadId: string, updates: Partial<SheetLead>): Promise<void>;
+  backfillLeadIds(): Promise<number>;
+}
+
+/** Database side of the sync (see supabaseSyncStore.ts) */
+export interface SyncStore {
+  listRecords(): Promise<SyncRecord[]>;
+  insertRecords(records: { lead: SheetLead; snapshot: SyncSnapshot }[], syncedAt: string): Promise<void>;
+  /** `updates.tripId` also sets the row's Trip ID */
+  updateRecord(leadKey: string, updates: Partial<SheetLead>, snapshot: SyncSnapshot, syncedAt: string): Promise<void>;
+  listConflicts(includeResolved?: boolean): Promise<SyncConflict[]>;
+  addConflicts(conflicts: NewSyncConflict[]): Promise<void>;
+  markConflictResolved(id: string, resolution: 'sheet' | 'database', resolvedAt: string): Promise<void>;
+}
+
+export interface SyncReport {
+  insertedIntoDb: number;
+  appendedToSheet: number;
+  pulledFromSheet: number;
+  pushedToSheet: number;
+  conflicts: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export function snapshotOf(lead: Partial<SheetLead>): SyncSnapshot {
+  const snapshot: SyncSnapshot = {};
+  for (const field of SYNC_FIELDS) {
+    snapshot[field] = comparableLeadValue(field, lead[field]);
+  }
+  return snapshot;
+}
+
+interface SyncEngineDeps {
+  sheets: SyncSheetSource;
+  store: SyncStore;
+  now?: () => Date;
+}
+
+/**
+ * Three-way sync between MASTER DATA and the leads table, per field, using the
+ * snapshot stored at the last sync as the common base:
+ * - only the sheet changed -> pull into the database
+ * - only the database changed -> push to the sheet (when sync_to_sheet is on)
+ * - both changed to different values -> log a conflict, leave both sides alone
+ */
+export class SyncEngine {
+  private sheets: SyncSheetSource;
+  private store: SyncStore;
+  private now: () => Date;
+
+  constructor({ sheets, store, now = () => new Date() }: SyncEngineDeps) {
+    this.sheets = sheets;
+    this.store = store;
+    this.now = now;
+  }
+
+  async run(): Promise<SyncReport> {
+    const startedAt = this.now().toISOString();
+    const report: SyncReport = {
+      insertedIntoDb: 0,
+      appendedToSheet: 0,
+      pulledFromSheet: 0,
+      pushedToSheet: 0,
+      conflicts: 0,
+      startedAt,
+      finishedAt: startedAt,
+    };
+
+    let sheetLeads = await this.sheets.fetchLeads(true);
+    // Rows are matched by Unique Key, so every sheet row needs one first
+    if (sheetLeads.some((lead) => !lead.uniqueKey)) {
+      await this.sheets.backfillLeadIds();
+      sheetLeads = await this.sheets.fetchLeads(true);
+    }
+
+    const records = await this.store.listRecords();
+    const recordsByKey = new Map(records.map((r) => [r.lead.uniqueKey, r]));
+    const sheetKeys = new Set(sheetLeads.map((l) => l.uniqueKey));
+
+    const openConflicts = await this.store.listConflicts(false);
+    const alreadyLogged = new Set(openConflicts.map((c) => `${c.leadKey}:${c.field}`));
+    const newConflicts: NewSyncConflict[] = [];
+
+    // New sheet rows -> database
+    const inserts = sheetLeads
+      .filter((lead) => lead.uniqueKey && !recordsByKey.has(lead.uniqueKey))
+      .map((lead) => ({ lead, snapshot: snapshotOf(lead) }));
+    if (inserts.length > 0) {
+      await this.store.insertRecords(inserts, startedAt);
+      report.insertedIntoDb = inserts.length;
+    }
+
+    // New database rows -> sheet
+    const needTripId: string[] = [];
+    for (const record of records) {
+      if (record.archived || !record.syncToSheet || record.snapshot || sheetKeys.has(record.lead.uniqueKey)) continue;
+      await this.sheets.appendLead(record.lead);
+      await this.store.updateRecord(record.lead.uniqueKey!, {}, snapshotOf(record.lead), startedAt);
+      report.appendedToSheet++;
+      if (!record.lead.tripId) needTripId.push(record.lead.uniqueKey!);
+    }
+
+    // Rows appended without a Trip ID got one from the sheet; the database row takes it over
+    if (needTripId.length > 0) {
+      const appended = new Map((await this.sheets.fetchLeads(true)).map((l) => [l.uniqueKey, l.tripId]));
+      for (const leadKey of needTripId) {
+        const tripId = appended.get(leadKey);
+        if (tripId) await this.store.updateRecord(leadKey, { tripId }, snapshotOf(recordsByKey.get(leadKey)!.lead), startedAt);
+      }
+    }
+
+    // Rows on both sides -> field-by-field three-way merge
+    for (const sheetLead of sheetLeads) {
+      const record = sheetLead.uniqueKey ? recordsByKey.get(sheetLead.uniqueKey) : undefined;
+      if (!record || record.archived) continue;
+
+      const base = record.snapshot || {};
+      const nextSnapshot: SyncSnapshot = { ...base };
+      const pull: Partial<SheetLead> = {};
+      const push: Partial<SheetLead> = {};
+
+      for (const field of SYNC_FIELDS) {
+        const sheetValue = comparableLeadValue(field, sheetLead[field]);
+        const dbValue = comparableLeadValue(field, record.lead[field]);
+        const baseValue = base[field];
+
+        if (sheetValue === dbValue) {
+          nextSnapshot[field] = sheetValue;
+        } else if (baseValue === undefined || dbValue === baseValue) {
+          // Never synced before (sheet is the source of truth) or only the sheet changed
+          pull[field] = sheetLead[field];
+          nextSnapshot[field] = sheetValue;
+        } else if (sheetValue === baseValue && record.syncToSheet) {
+          push[field] = record.lead[field];
+          nextSnapshot[field] = dbValue;
+        } else if (sheetValue !== baseValue) {
+          if (!alreadyLogged.has(`${sheetLead.uniqueKey}:${field}`)) {
+            newConflicts.push({
+              leadKey: sheetLead.uniqueKey!,
+              travellerName: sheetLead.travellerName,
+              field,
+              baseValue,
+              sheetValue,
+              dbValue,
+            });
+          }
+        }
+      }
+
+      const hasPull = Object.keys(pull).length > 0;
+      const hasPush = Object.keys(push).length > 0;
+      const snapshotChanged = SYNC_FIELDS.some((f) => nextSnapshot[f] !== base[f]);
+
+      if (hasPush) {
+        await this.sheets.updateLead(sheetLead.uniqueKey!, push);
+        report.pushedToSheet++;
+      }
+      if (hasPull || hasPush || snapshotChanged) {
+        await this.store.updateRecord(sheetLead.uniqueKey!, pull, nextSnapshot, startedAt);
+      }
+      if (hasPull) report.pulledFromSheet++;
+    }
+
+    if (newConflicts.length > 0) {
+      console.warn(`⚠️ Sync found ${newConflicts.length} conflicting field(s)`);
+      await this.store.addConflicts(newConflicts);
+    }
+    report.conflicts = openConflicts.length + newConflicts.length;
+    report.finishedAt = this.now().toISOString();
+
+    console.log('🔄 Sync finished:', report);
+    return report;
+  }
+
+  /** Apply the admin's choice to both sides and close the conflict */
+  async resolveConflict(conflict: SyncConflict, resolution: 'sheet' | 'database'): Promise<void> {
+    const records = await this.store.listRecords();
+    const record = records.find((r) => r.lead.uniqueKey === conflict.leadKey);
+    if (!record) throw new Error(`Lead ${conflict.leadKey} no longer exists in the database`);
+
+    const sheetLeads = await this.sheets.fetchLeads(true);
+    const sheetLead = sheetLeads.find((l) => l.uniqueKey === conflict.leadKey);
+    if (!sheetLead) throw new Error(`Lead ${conflict.leadKey} no longer exists in the sheet`);
+
+    const field = conflict.field;
+    const value = resolution === 'sheet' ? sheetLead[field] : record.lead[field];
+    const snapshot = { ...(record.snapshot || {}), [field]: comparableLeadValue(field, value) };
+    const resolvedAt = this.now().toISOString();
+
+    if (resolution === 'database') {
+      await this.sheets.updateLead(conflict.leadKey, { [field]: value });
+    }
+    await this.store.updateRecord(
+      conflict.leadKey,
+      resolution === 'sheet' ? { [field]: value } : {},
+      snapshot,
+      resolvedAt
+    );
+    await this.store.markConflictResolved(conflict.id, resolution, resolvedAt);
+  }
+}
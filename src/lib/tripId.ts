@@ -0,0 +1,88 @@
+// Trip ID generation: <prefix>-<date segment>-<zero-padded sequence>, e.g. TTT-2510-0042
+
+export type TripIdDateSegment = 'YYMM' | 'YYYYMM' | 'YYMMDD' | 'none';
+
+export interface TripIdFormat {
+  prefix: string;
+  /** Period the sequence restarts in; 'none' numbers all leads in one sequence */
+  dateSegment: TripIdDateSegment;
+  /** Minimum sequence width, zero-padded */
+  digits: number;
+}
+
+export const DEFAULT_TRIP_ID_FORMAT: TripIdFormat = { prefix: 'TTT', dateSegment: 'YYMM', digits: 4 };
+
+export const TRIP_ID_DATE_SEGMENTS: { value: TripIdDateSegment; label: string }[] = [
+  { value: 'YYMM', label: 'Year + month (2510)' },
+  { value: 'YYYYMM', label: 'Full year + month (202510)' },
+  { value: 'YYMMDD', label: 'Year + month + day (251019)' },
+  { value: 'none', label: 'No date (one running sequence)' },
+];
+
+export function normalizeTripIdFormat(format?: Partial<TripIdFormat> | null): TripIdFormat {
+  const digits = Math.round(Number(format?.digits));
+  return {
+    prefix: String(format?.prefix ?? DEFAULT_TRIP_ID_FORMAT.prefix).trim().replace(/\s+/g, '-'),
+    dateSegment: TRIP_ID_DATE_SEGMENTS.some((s) => s.value === format?.dateSegment)
+      ? format!.dateSegment!
+      : DEFAULT_TRIP_ID_FORMAT.dateSegment,
+    digits: digits >= 1 && digits <= 8 ? digits : DEFAULT_TRIP_ID_FORMAT.digits,
+  };
+}
+
+function dateSegment(segment: TripIdDateSegment, date: Date): string {
+  const yyyy = String(date.getFullYear());
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  switch (segment) {
+    case 'YYYYMM': return `${yyyy}${mm}`;
+    case 'YYMMDD': return `${yyyy.slice(-2)}${mm}${dd}`;
+    case 'none': return '';
+    default: return `${yyyy.slice(-2)}${mm}`;
+  }
+}
+
+/** Everything before the sequence number, shared by all IDs of one period, e.g. "TTT-2510-" */
+export function tripIdStem(format: TripIdFormat, date: Date): string {
+  return [format.prefix, dateSegment(format.dateSegment, date)].filter(Boolean).map((part) => `${part}-`).join('');
+}
+
+export function formatTripId(format: TripIdFormat, date: Date, sequence: number): string {
+  return `${tripIdStem(format, date)}${String(sequence).padStart(format.digits, '0')}`;
+}
+
+/** Sequence number of `tripId` if it was generated with `stem`, otherwise null */
+export function tripIdSequence(stem: string, tripId: string | undefined): number | null {
+  const id = String(tripId ?? '').trim();
+  if (!id.startsWith(stem)) return null;
+  const rest = id.slice(stem.length);
+  return /^\d+$/.test(rest) ? Number(rest) : null;
+}
+
+/**
+ * IDs for leads created on `dates`, in the same order, each one above the
+ * highest sequence already in use for its period. Hand-typed IDs that don't
+ * follow the format are ignored.
+ */
+export function allocateTripIds(format: TripIdFormat, existing: Iterable<string | undefined>, dates: Date[]): string[] {
+  const ids = [...existing];
+  const highest = new Map<string, number>();
+  const highestFor = (stem: string) => {
+    if (!highest.has(stem)) {
+      highest.set(stem, ids.reduce((max, id) => Math.max(max, tripIdSequence(stem, id) ?? 0), 0));
+    }
+    return highest.get(stem)!;
+  };
+
+  return dates.map((date) => {
+    const stem = tripIdStem(format, date);
+    const sequence = highestFor(stem) + 1;
+    highest.set(stem, sequence);
+    return formatTripId(format, date, sequence);
+  });
+}
+
+/** Next free Trip ID for a lead created at `date` */
+export function nextTripId(format: TripIdFormat, existing: Iterable<string | undefined>, date = new Date()): string {
+  return allocateTripIds(format, existing, [date])[0];
+}
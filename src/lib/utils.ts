@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/** Message of a caught error, whatever was thrown */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
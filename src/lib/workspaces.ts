@@ -0,0 +1,95 @@
+// Named workspaces: one Google Sheet (with its own worksheets, mappings and payment links) each
+import { DEFAULT_WORKSPACE_ID, SecureCredentials, secureStorage } from './secureStorage';
+import { stateManager } from './stateManager';
+import { setSheetLocale } from './dates';
+
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+type Listener = (active: Workspace) => void;
+
+const WORKSPACES_KEY = 'crm_workspaces_v1';
+
+class WorkspaceService {
+  private workspaces: Workspace[] = [{ id: DEFAULT_WORKSPACE_ID, name: 'Main' }];
+  private activeId = DEFAULT_WORKSPACE_ID;
+  private listeners = new Set<Listener>();
+
+  async initialize(): Promise<void> {
+    try {
+      const stored = await secureStorage.get(WORKSPACES_KEY);
+      if (stored) this.workspaces = JSON.parse(stored);
+    } catch (error) {
+      console.error('Failed to load workspaces:', error);
+    }
+    const activeId = await secureStorage.getActiveWorkspaceId();
+    this.activeId = this.workspaces.some((w) => w.id === activeId) ? activeId : this.workspaces[0].id;
+    stateManager.setWorkspace(this.activeId);
+  }
+
+  list(): Workspace[] {
+    return this.workspaces;
+  }
+
+  getActive(): Workspace {
+    return this.workspaces.find((w) => w.id === this.activeId) || this.workspaces[0];
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Make another workspace current: credentials, date locale and the lead cache follow it */
+  async switchTo(id: string): Promise<void> {
+    if (id === this.activeId || !this.workspaces.some((w) => w.id === id)) return;
+    this.activeId = id;
+    await secureStorage.setActiveWorkspaceId(id);
+    stateManager.setWorkspace(id);
+    const credentials = await secureStorage.getCredentials(id);
+    setSheetLocale(credentials?.sheetLocale);
+    console.log(`🗂️ Switched to workspace "${this.getActive().name}"`);
+    this.emit();
+  }
+
+  /**
+   * Add a workspace. `credentials` (usually a copy of the current ones, so the
+   * service account carries over) are stored as its starting configuration.
+   */
+  async add(name: string, credentials?: SecureCredentials | null): Promise<Workspace> {
+    const workspace = { id: `ws-${Date.now().toString(36)}`, name: name.trim() || 'Workspace' };
+    if (credentials) await secureStorage.saveCredentials(credentials, workspace.id);
+    this.workspaces = [...this.workspaces, workspace];
+    await this.persist();
+    return workspace;
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    this.workspaces = this.workspaces.map((w) => (w.id === id ? { ...w, name: name.trim() || w.name } : w));
+    await this.persist();
+    if (id === this.activeId) this.emit();
+  }
+
+  /** Remove a workspace and its stored credentials; the active and last workspace can't be removed */
+  async remove(id: string): Promise<void> {
+    if (id === this.activeId) throw new Error('Switch to another workspace before removing this one');
+    if (this.workspaces.length <= 1) throw new Error('At least one workspace is required');
+    this.workspaces = this.workspaces.filter((w) => w.id !== id);
+    await secureStorage.clearCredentials(id);
+    stateManager.forgetWorkspace(id);
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    await secureStorage.set(WORKSPACES_KEY, JSON.stringify(this.workspaces));
+  }
+
+  private emit(): void {
+    const active = this.getActive();
+    this.listeners.forEach((listener) => listener(active));
+  }
+}
+
+export const workspaceService = new WorkspaceService();
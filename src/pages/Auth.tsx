@@ -6,12 +6,16 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
-import { authService } from "@/lib/authService";
+import { authService, InitialAdmin } from "@/lib/authService";
+import { appLockService } from "@/lib/appLock";
+import SetupWizard from "@/components/SetupWizard";
+import { errorMessage } from "@/lib/utils";
 
 const Auth = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
+  const [wizard, setWizard] = useState<'first-run' | 'existing' | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -19,9 +23,32 @@ const Auth = () => {
     // Redirect if already logged in
     if (authService.isAuthenticated()) {
       navigate("/dashboard");
+      return;
     }
+    authService.getSetupState().then((state) => {
+      if (state === 'first-run') setWizard('first-run');
+    });
   }, [navigate]);
 
+  // A mandatory app lock asks for a PIN before the dashboard opens
+  const enterDashboard = async () => {
+    await appLockService.syncSettings();
+    await appLockService.refresh();
+    navigate("/dashboard");
+  };
+
+  const handleSetupComplete = async (admin?: InitialAdmin) => {
+    if (admin) {
+      const { error } = await authService.login(admin.email, admin.password);
+      if (error) {
+        toast({ variant: "destructive", title: "Login Failed", description: error.message });
+        setWizard(null);
+        return;
+      }
+    }
+    await enterDashboard();
+  };
+
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -37,18 +64,35 @@ const Auth = () => {
         title: "Welcome back!",
         description: `Logged in as ${session.user.role}`
       });
-      navigate("/dashboard");
-    } catch (error: any) {
+      // Installs from before the setup wizard are asked to complete it by the next admin who signs in
+      if (session.user.role === 'admin' && (await authService.getSetupState()) !== 'complete') {
+        setWizard('existing');
+        return;
+      }
+      await enterDashboard();
+    } catch (error: unknown) {
       toast({
         variant: "destructive",
         title: "Login Failed",
-        description: error.message || "Invalid credentials. Please check your email and password.",
+        description: errorMessage(error) || "Invalid credentials. Please check your email and password.",
       });
     } finally {
       setLoading(false);
     }
   };
 
+  if (wizard) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-subtle p-4 pt-20">
+        <SetupWizard
+          mode={wizard}
+          onComplete={handleSetupComplete}
+          onSkip={wizard === 'existing' ? enterDashboard : undefined}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-subtle p-4 pt-20">
       <Card className="w-full max-w-md shadow-soft">
@@ -91,13 +135,7 @@ const Auth = () => {
           </form>
           <div className="mt-4 text-center text-sm text-muted-foreground space-y-2">
             <p>Login credentials from Google Sheets BACKEND SHEET</p>
-            <p className="text-xs">Configure Google Sheets in Settings after first login</p>
-            <div className="mt-4 p-3 border border-primary/20 rounded-lg bg-primary/5">
-              <p className="font-semibold text-primary">🔑 Default Admin Account</p>
-              <p className="text-xs mt-1">Email: ticketstotrip.com@gmail.com</p>
-              <p className="text-xs">Password: 123456</p>
-              <p className="text-xs mt-2 text-muted-foreground">Use this to login and setup Google Sheets credentials</p>
-            </div>
+            <p className="text-xs">Ask your admin for an account if you don't have one</p>
           </div>
         </CardContent>
       </Card>
@@ -1,16 +1,22 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { LogOut, Settings } from "lucide-react";
+import { Lock, LogOut, Settings } from "lucide-react";
 import AdminDashboard from "@/components/dashboard/AdminDashboard";
 import ConsultantDashboard from "@/components/dashboard/ConsultantDashboard";
+import PendingChangesBadge from "@/components/PendingChangesBadge";
+import WorkspaceSwitcher from "@/components/WorkspaceSwitcher";
+import AppLockDialog from "@/components/AppLockDialog";
 import { authService } from "@/lib/authService";
 import { themeService } from "@/lib/themeService";
+import { workspaceService } from "@/lib/workspaces";
 import { Moon, Sun } from "lucide-react";
 
 const Dashboard = () => {
   const [session, setSession] = useState(authService.getSession());
   const [theme, setTheme] = useState(themeService.getTheme());
+  const [workspace, setWorkspace] = useState(workspaceService.getActive());
+  const [showAppLock, setShowAppLock] = useState(false);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -19,6 +25,8 @@ const Dashboard = () => {
     }
   }, [navigate]);
 
+  useEffect(() => workspaceService.subscribe(setWorkspace), []);
+
   const handleLogout = async () => {
     await authService.logout();
     navigate('/auth');
@@ -47,6 +55,8 @@ const Dashboard = () => {
               </p>
             </div>
             <div className="flex gap-1 sm:gap-2 w-full sm:w-auto justify-end">
+              <WorkspaceSwitcher />
+              <PendingChangesBadge />
               <Button
                 variant="outline"
                 size="icon"
@@ -55,6 +65,15 @@ const Dashboard = () => {
               >
                 {theme === 'dark' ? <Sun className="h-3 w-3 sm:h-4 sm:w-4" /> : <Moon className="h-3 w-3 sm:h-4 sm:w-4" />}
               </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setShowAppLock(true)}
+                className="h-8 w-8 sm:h-10 sm:w-10 shrink-0"
+                title="App lock"
+              >
+                <Lock className="h-3 w-3 sm:h-4 sm:w-4" />
+              </Button>
               {session.user.role === 'admin' && (
                 <Button
                   variant="outline"
@@ -79,9 +98,12 @@ const Dashboard = () => {
       </div>
 
       <main className="w-full px-2 sm:px-4 py-3 sm:py-6">
-        {session.user.role === 'admin' ? <AdminDashboard /> : <ConsultantDashboard />}
+        {/* Keyed by workspace so switching remounts the dashboard and loads that workspace's leads */}
+        {session.user.role === 'admin' ? <AdminDashboard key={workspace.id} /> : <ConsultantDashboard key={workspace.id} />}
       </main>
 
+      <AppLockDialog open={showAppLock} onClose={() => setShowAppLock(false)} />
+
       {/* BottomNavigation is rendered globally in App.tsx */}
     </div>
   );
@@ -5,34 +5,68 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Save, Upload, Plus, Trash2 } from "lucide-react";
+import { Save, Upload, Plus, Trash2, KeyRound, Database, RefreshCw, AlertTriangle, Ticket, Layers, Check, Lock, Timer } from "lucide-react";
 import { useNavigate } from "react-router-dom";
-import { authService } from "@/lib/authService";
+import { authService, IDLE_TIMEOUT_OPTIONS } from "@/lib/authService";
+import { AppLockSettings, BACKGROUND_LOCK_OPTIONS, MAX_PIN_ATTEMPTS, appLockService } from "@/lib/appLock";
+import { Switch } from "@/components/ui/switch";
 import { secureStorage, SecureCredentials } from "@/lib/secureStorage";
+import { createSheetsService } from "@/lib/sheetsLeadRepository";
+import { LEAD_BACKENDS, LeadBackend, SUPABASE_BACKEND_ENABLED, getLeadBackend, getLeadRepository, setLeadBackend } from "@/lib/leadRepository";
+import { SyncReport } from "@/lib/syncEngine";
+import { createSupabaseSyncEngine } from "@/lib/supabaseSyncStore";
+import SyncConflictsDialog from "@/components/dashboard/SyncConflictsDialog";
+import ColumnMappingEditor from "@/components/ColumnMappingEditor";
+import { normalizeColumnMappings, validateColumnMappings } from "@/lib/columnMapping";
+import { DEFAULT_SHEET_LOCALE, SHEET_LOCALES, SheetLocale, setSheetLocale } from "@/lib/dates";
+import { DEFAULT_AUDIT_WORKSHEET } from "@/lib/auditLog";
+import { DEFAULT_TRIP_ID_FORMAT, TRIP_ID_DATE_SEGMENTS, TripIdDateSegment, TripIdFormat, formatTripId, normalizeTripIdFormat } from "@/lib/tripId";
+import { stateManager } from "@/lib/stateManager";
+import { outboxService } from "@/lib/outboxService";
+import { Workspace, workspaceService } from "@/lib/workspaces";
+import { errorMessage } from "@/lib/utils";
 import { getLocalUsers, addLocalUser, deleteLocalUser, updateLocalUserRole, updateLocalUser, LocalUser } from "@/config/login";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
+/** "2h 05m", "12m", "under a minute" */
+const formatTimeLeft = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'under a minute';
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+  return `${Math.floor(hours / 24)} days`;
+};
+
+const formatIdleOption = (minutes: number) => (minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`);
+
 const Settings = () => {
   const [googleApiKey, setGoogleApiKey] = useState("");
   const [googleServiceAccountJson, setGoogleServiceAccountJson] = useState("");
   const [sheetUrl, setSheetUrl] = useState("");
   const [worksheetNames, setWorksheetNames] = useState<string[]>(["MASTER DATA", "BACKEND SHEET"]);
   const [columnMappings, setColumnMappings] = useState<Record<string, string>>({
-    date: "B",
+    tripId: "A",
+    dateAndTime: "B",
     consultant: "C",
     status: "D",
-    traveller_name: "E",
-    travel_date: "G",
-    travel_state: "H",
+    travellerName: "E",
+    travelDate: "G",
+    travelState: "H",
     remarks: "K",
     nights: "L",
     pax: "M",
-    hotel_category: "N",
-    meal_plan: "O",
+    hotelCategory: "N",
+    mealPlan: "O",
     phone: "P",
     email: "Q",
+    uniqueKey: "Z",
+    timeStamp: "AA",
     priority: "AL"
   });
+  const [sheetLocale, setSheetLocaleState] = useState<SheetLocale>(DEFAULT_SHEET_LOCALE);
+  const [auditWorksheet, setAuditWorksheet] = useState(DEFAULT_AUDIT_WORKSHEET);
+  const [tripIdFormat, setTripIdFormat] = useState<TripIdFormat>(DEFAULT_TRIP_ID_FORMAT);
   const [paymentLinks, setPaymentLinks] = useState<{ name: string; url: string; qrImage?: string }[]>([
     { name: "Primary Payment", url: "", qrImage: "" }
   ]);
@@ -40,8 +74,23 @@ const Settings = () => {
   const navigate = useNavigate();
   const [localUsers, setLocalUsers] = useState<LocalUser[]>([]);
   const [newUser, setNewUser] = useState<{ name: string; email: string; phone: string; role: 'admin' | 'consultant'; password: string }>({
-    name: '', email: '', phone: '', role: 'consultant', password: '123456'
+    name: '', email: '', phone: '', role: 'consultant', password: ''
   });
+  const [passwordDrafts, setPasswordDrafts] = useState<Record<string, string>>({});
+  const [backfilling, setBackfilling] = useState(false);
+  const [hashingPasswords, setHashingPasswords] = useState(false);
+  const [generatingTripIds, setGeneratingTripIds] = useState(false);
+  const [leadBackend, setLeadBackendState] = useState<LeadBackend>('sheets');
+  const [syncing, setSyncing] = useState(false);
+  const [syncReport, setSyncReport] = useState<SyncReport | null>(null);
+  const [showSyncConflicts, setShowSyncConflicts] = useState(false);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => workspaceService.list());
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState(() => workspaceService.getActive().id);
+  const [newWorkspaceName, setNewWorkspaceName] = useState("");
+  const [idleTimeout, setIdleTimeout] = useState(() => authService.getIdleTimeoutMinutes());
+  const [sessionExpiry, setSessionExpiry] = useState(() => authService.getSessionExpiry());
+  const [now, setNow] = useState(Date.now());
+  const [appLock, setAppLock] = useState<AppLockSettings>(() => appLockService.getSettings());
 
   useEffect(() => {
     const session = authService.getSession();
@@ -52,8 +101,39 @@ const Settings = () => {
 
     loadCredentials();
     loadLocalUsers();
+    getLeadBackend().then(setLeadBackendState);
+    // Edit the policy as the sheet has it, not as this device last saw it
+    appLockService.syncSettings().then(() => setAppLock(appLockService.getSettings()));
   }, [navigate]);
 
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      setNow(Date.now());
+      setSessionExpiry(authService.getSessionExpiry());
+    }, 30 * 1000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const handleAppLockChange = async (changes: Partial<AppLockSettings>) => {
+    const next = { ...appLock, ...changes };
+    try {
+      await appLockService.saveSettings(next);
+    } catch (error: unknown) {
+      toast({ variant: 'destructive', title: 'App lock not saved', description: errorMessage(error) });
+      return;
+    }
+    setAppLock(next);
+    // Enforce a newly mandatory lock on this device right away
+    if (changes.mandatory) await appLockService.refresh();
+  };
+
+  const handleIdleTimeoutChange = async (minutes: number) => {
+    await authService.setIdleTimeoutMinutes(minutes);
+    setIdleTimeout(minutes);
+    setSessionExpiry(authService.getSessionExpiry());
+    toast({ title: 'Idle timeout updated', description: `Inactive users are signed out after ${formatIdleOption(minutes)}` });
+  };
+
   const loadCredentials = async () => {
     const credentials = await secureStorage.getCredentials();
     if (credentials) {
@@ -61,7 +141,10 @@ const Settings = () => {
       setGoogleServiceAccountJson(credentials.googleServiceAccountJson || "");
       setSheetUrl(credentials.googleSheetUrl || "");
       setWorksheetNames(credentials.worksheetNames || ["MASTER DATA", "BACKEND SHEET"]);
-      setColumnMappings(credentials.columnMappings || columnMappings);
+      setColumnMappings(credentials.columnMappings ? normalizeColumnMappings(credentials.columnMappings) : columnMappings);
+      setSheetLocaleState(credentials.sheetLocale || DEFAULT_SHEET_LOCALE);
+      setAuditWorksheet(credentials.auditWorksheet || DEFAULT_AUDIT_WORKSHEET);
+      setTripIdFormat(normalizeTripIdFormat(credentials.tripIdFormat));
       setPaymentLinks(credentials.paymentLinks || paymentLinks);
     }
   };
@@ -100,16 +183,30 @@ const Settings = () => {
       return;
     }
 
+    const { mappings, errors } = validateColumnMappings(columnMappings);
+    if (errors.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Invalid column mappings",
+        description: errors[0],
+      });
+      return;
+    }
+
     const credentials: SecureCredentials = {
       googleApiKey: googleApiKey || undefined,
       googleServiceAccountJson: googleServiceAccountJson || undefined,
       googleSheetUrl: sheetUrl,
       worksheetNames,
-      columnMappings,
+      columnMappings: mappings,
+      sheetLocale,
+      auditWorksheet: auditWorksheet.trim() || DEFAULT_AUDIT_WORKSHEET,
+      tripIdFormat: normalizeTripIdFormat(tripIdFormat),
       paymentLinks: paymentLinks.filter(p => p.url)
     };
 
     await secureStorage.saveCredentials(credentials);
+    setSheetLocale(sheetLocale);
 
     toast({
       title: "Settings saved",
@@ -117,6 +214,141 @@ const Settings = () => {
     });
   };
 
+  const handleBackfillLeadIds = async () => {
+    setBackfilling(true);
+    try {
+      const credentials = await secureStorage.getCredentials();
+      if (!credentials) throw new Error('Google Sheets not configured');
+      if (!credentials.googleServiceAccountJson) throw new Error('Service Account JSON is required to write lead IDs.');
+
+      const sheetsService = createSheetsService(credentials);
+      const count = await sheetsService.backfillLeadIds();
+      stateManager.invalidateCache();
+      toast({
+        title: 'Lead IDs backfilled',
+        description: count > 0 ? `${count} lead(s) received a new ID` : 'Every lead already has an ID',
+      });
+    } catch (error: unknown) {
+      toast({ variant: 'destructive', title: 'Backfill failed', description: errorMessage(error) });
+    } finally {
+      setBackfilling(false);
+    }
+  };
+
+  const handleHashSheetPasswords = async () => {
+    setHashingPasswords(true);
+    try {
+      const credentials = await secureStorage.getCredentials();
+      if (!credentials) throw new Error('Google Sheets not configured');
+      if (!credentials.googleServiceAccountJson) throw new Error('Service Account JSON is required to write passwords.');
+
+      const count = await authService.hashSheetPasswords(createSheetsService(credentials));
+      toast({
+        title: 'Passwords hashed',
+        description: count > 0 ? `${count} plaintext password(s) replaced with hashes` : 'Every password is already hashed',
+      });
+    } catch (error: unknown) {
+      toast({ variant: 'destructive', title: 'Hashing failed', description: errorMessage(error) });
+    } finally {
+      setHashingPasswords(false);
+    }
+  };
+
+  const handleGenerateTripIds = async () => {
+    setGeneratingTripIds(true);
+    try {
+      const repository = await getLeadRepository();
+      const count = await repository.backfillTripIds();
+      stateManager.invalidateCache();
+      toast({
+        title: 'Trip IDs generated',
+        description: count > 0 ? `${count} lead(s) received a Trip ID` : 'Every lead already has a Trip ID',
+      });
+    } catch (error: unknown) {
+      toast({ variant: 'destructive', title: 'Trip ID generation failed', description: errorMessage(error) });
+    } finally {
+      setGeneratingTripIds(false);
+    }
+  };
+
+  const handleLeadBackendChange = async (backend: LeadBackend) => {
+    await setLeadBackend(backend);
+    setLeadBackendState(backend);
+    // Cached leads came from the previous backend
+    stateManager.invalidateCache();
+    toast({
+      title: "Lead storage updated",
+      description: `Leads are now read from and written to ${LEAD_BACKENDS.find(b => b.value === backend)?.label}`,
+    });
+  };
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      const engine = await createSupabaseSyncEngine();
+      const report = await engine.run();
+      setSyncReport(report);
+      stateManager.invalidateCache();
+      toast({
+        title: "Sync complete",
+        description: `${report.insertedIntoDb + report.pulledFromSheet} from sheet, ${report.appendedToSheet + report.pushedToSheet} to sheet, ${report.conflicts} conflict(s)`,
+      });
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Sync failed", description: errorMessage(error) });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const refreshWorkspaces = () => {
+    setWorkspaces(workspaceService.list());
+    setActiveWorkspaceId(workspaceService.getActive().id);
+  };
+
+  const handleSwitchWorkspace = async (id: string) => {
+    await workspaceService.switchTo(id);
+    refreshWorkspaces();
+    await loadCredentials();
+    toast({ title: "Workspace switched", description: `Now editing ${workspaceService.getActive().name}` });
+  };
+
+  const handleAddWorkspace = async () => {
+    if (!newWorkspaceName.trim()) {
+      toast({ variant: "destructive", title: "Missing name", description: "Give the workspace a name" });
+      return;
+    }
+    // Start from the current settings so the service account and mappings carry over
+    const workspace = await workspaceService.add(newWorkspaceName, await secureStorage.getCredentials());
+    setNewWorkspaceName("");
+    await workspaceService.switchTo(workspace.id);
+    refreshWorkspaces();
+    await loadCredentials();
+    toast({ title: "Workspace added", description: "Enter its Google Sheet URL below and save" });
+  };
+
+  const handleRenameWorkspace = async (id: string, name: string) => {
+    setWorkspaces((prev) => prev.map((w) => (w.id === id ? { ...w, name } : w)));
+    if (name.trim()) await workspaceService.rename(id, name);
+  };
+
+  const handleRemoveWorkspace = async (workspace: Workspace) => {
+    if (outboxService.getItems().some((item) => item.workspaceId === workspace.id)) {
+      toast({
+        variant: "destructive",
+        title: "Workspace has pending changes",
+        description: "Wait for its queued changes to sync (or discard them) before removing it",
+      });
+      return;
+    }
+    try {
+      await workspaceService.remove(workspace.id);
+      refreshWorkspaces();
+      toast({ title: "Workspace removed", description: workspace.name });
+    } catch (error: unknown) {
+      toast({ variant: "destructive", title: "Can't remove workspace", description: errorMessage(error) });
+    }
+  };
+
   const handleFileUpload = (index: number, event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -131,13 +363,13 @@ const Settings = () => {
   };
 
   const handleAddLocalUser = async () => {
-    if (!newUser.name || !newUser.email) {
-      toast({ variant: 'destructive', title: 'Missing details', description: 'Name and email are required' });
+    if (!newUser.name || !newUser.email || !newUser.password) {
+      toast({ variant: 'destructive', title: 'Missing details', description: 'Name, email and password are required' });
       return;
     }
     const created = await addLocalUser(newUser);
     setLocalUsers(prev => [...prev, created]);
-    setNewUser({ name: '', email: '', phone: '', role: 'consultant', password: '123456' });
+    setNewUser({ name: '', email: '', phone: '', role: 'consultant', password: '' });
     toast({ title: 'User added', description: created.name });
   };
 
@@ -153,10 +385,20 @@ const Settings = () => {
     toast({ title: 'Role updated' });
   };
 
-  const handleInlineUpdate = async (user: LocalUser, field: keyof LocalUser, value: string) => {
-    const updated = { ...user, [field]: value } as LocalUser;
-    await updateLocalUser({ id: user.id, [field]: value } as any);
-    setLocalUsers(prev => prev.map(u => u.id === user.id ? updated : u));
+  const handleInlineUpdate = async (user: LocalUser, field: 'name' | 'email' | 'phone', value: string) => {
+    const changes: Partial<LocalUser> = { [field]: value };
+    await updateLocalUser({ ...changes, id: user.id });
+    setLocalUsers(prev => prev.map(u => u.id === user.id ? { ...u, ...changes } : u));
+  };
+
+  /** Store a typed new password (hashed) once the field loses focus */
+  const handlePasswordCommit = async (user: LocalUser) => {
+    const password = passwordDrafts[user.id];
+    if (!password) return;
+    await updateLocalUser({ id: user.id, password });
+    setPasswordDrafts(prev => ({ ...prev, [user.id]: '' }));
+    await loadLocalUsers();
+    toast({ title: 'Password changed', description: user.name });
   };
 
   return (
@@ -171,6 +413,53 @@ const Settings = () => {
           </p>
         </div>
 
+        <Card className="shadow-soft">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5" /> Workspaces
+            </CardTitle>
+            <CardDescription>
+              One Google Sheet per desk or branch. The settings below belong to the active workspace.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              {workspaces.map((workspace) => (
+                <div key={workspace.id} className="flex gap-2 items-center">
+                  <Input
+                    value={workspace.name}
+                    onChange={(e) => handleRenameWorkspace(workspace.id, e.target.value)}
+                  />
+                  {workspace.id === activeWorkspaceId ? (
+                    <Button variant="secondary" className="gap-1 shrink-0" disabled>
+                      <Check className="h-4 w-4" /> Active
+                    </Button>
+                  ) : (
+                    <>
+                      <Button variant="outline" className="shrink-0" onClick={() => handleSwitchWorkspace(workspace.id)}>
+                        Switch
+                      </Button>
+                      <Button variant="destructive" size="icon" className="shrink-0" onClick={() => handleRemoveWorkspace(workspace)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2 border-t pt-4">
+              <Input
+                placeholder="New workspace name, e.g. Outbound Desk"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+              />
+              <Button className="gap-2 shrink-0" onClick={handleAddWorkspace}>
+                <Plus className="h-4 w-4" /> Add
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         <Card className="shadow-soft">
           <CardHeader>
             <CardTitle>Google Sheets Integration</CardTitle>
@@ -225,6 +514,141 @@ const Settings = () => {
           </CardContent>
         </Card>
 
+        <Card className="shadow-soft">
+          <CardHeader>
+            <CardTitle>Lead Storage</CardTitle>
+            <CardDescription>
+              Where dashboards read and write leads. Google Sheets remains the default.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-2">
+              <Label>Backend</Label>
+              <Select value={leadBackend} onValueChange={(v) => handleLeadBackendChange(v as LeadBackend)}>
+                <SelectTrigger className="w-full sm:w-64">
+                  <Database className="h-4 w-4 mr-2" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAD_BACKENDS.map((b) => (
+                    <SelectItem key={b.value} value={b.value} disabled={b.value === 'supabase' && !SUPABASE_BACKEND_ENABLED}>
+                      {b.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {!SUPABASE_BACKEND_ENABLED && (
+              <p className="text-xs text-muted-foreground">
+                Supabase is switched off: it can't check who is signed in yet, so it would expose every lead to anyone
+                with the app.
+              </p>
+            )}
+            {leadBackend === 'supabase' && (
+              <p className="text-xs text-muted-foreground">
+                Uses the <code>leads</code> table of the connected Supabase project. Login and users still come
+                from the Google Sheet.
+              </p>
+            )}
+
+            <div className="border-t pt-3 space-y-2">
+              <Label>Sheets ⇄ Database Sync</Label>
+              <p className="text-xs text-muted-foreground">
+                Copies new and edited MASTER DATA rows into the database and writes database edits back to the sheet.
+                Fields edited on both sides are held for review.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" className="gap-2" onClick={handleSyncNow} disabled={syncing || !SUPABASE_BACKEND_ENABLED}>
+                  <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+                  {syncing ? 'Syncing...' : 'Sync Now'}
+                </Button>
+                <Button variant="outline" className="gap-2" onClick={() => setShowSyncConflicts(true)} disabled={!SUPABASE_BACKEND_ENABLED}>
+                  <AlertTriangle className="h-4 w-4" />
+                  Review Conflicts{syncReport && syncReport.conflicts > 0 ? ` (${syncReport.conflicts})` : ''}
+                </Button>
+              </div>
+              {syncReport && (
+                <p className="text-xs text-muted-foreground">
+                  Last sync {new Date(syncReport.finishedAt).toLocaleString()}: {syncReport.insertedIntoDb} new and{' '}
+                  {syncReport.pulledFromSheet} updated from the sheet, {syncReport.appendedToSheet} new and{' '}
+                  {syncReport.pushedToSheet} updated in the sheet.
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <SyncConflictsDialog
+          open={showSyncConflicts}
+          onClose={() => setShowSyncConflicts(false)}
+          onResolved={() => setSyncReport((r) => (r ? { ...r, conflicts: Math.max(0, r.conflicts - 1) } : r))}
+        />
+
+        <Card className="shadow-soft">
+          <CardHeader>
+            <CardTitle>Session &amp; App Lock</CardTitle>
+            <CardDescription>
+              Sessions last at most 7 days and end early after a period of inactivity
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {sessionExpiry && (
+              <p className="text-sm flex items-center gap-2">
+                <Timer className="h-4 w-4 text-muted-foreground" />
+                Your session expires in {formatTimeLeft(sessionExpiry - now)} without activity
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label>Idle timeout</Label>
+              <Select value={String(idleTimeout)} onValueChange={(v) => handleIdleTimeoutChange(Number(v))}>
+                <SelectTrigger className="w-full sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IDLE_TIMEOUT_OPTIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>{formatIdleOption(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Applies to everyone who signs in on this device.</p>
+            </div>
+            <div className="border-t pt-4 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="app-lock-mandatory">Require an app PIN</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Everyone must set a PIN (lock icon in the dashboard header). {MAX_PIN_ATTEMPTS} wrong PINs in a row sign the user out and clear cached leads.
+                    Saved to the sheet's SETTINGS worksheet, so it applies on every device from its next start or login.
+                  </p>
+                </div>
+                <Switch
+                  id="app-lock-mandatory"
+                  checked={appLock.mandatory}
+                  onCheckedChange={(mandatory) => handleAppLockChange({ mandatory })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Lock after time in background</Label>
+                <Select
+                  value={String(appLock.backgroundMinutes)}
+                  onValueChange={(v) => handleAppLockChange({ backgroundMinutes: Number(v) })}
+                >
+                  <SelectTrigger className="w-full sm:w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BACKGROUND_LOCK_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes === 0 ? 'Immediately' : `${minutes} minute${minutes === 1 ? '' : 's'}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         <Card className="shadow-soft">
           <CardHeader>
             <CardTitle>Local Users (Admin Only)</CardTitle>
@@ -283,7 +707,13 @@ const Settings = () => {
                       <SelectItem value="consultant">Consultant</SelectItem>
                     </SelectContent>
                   </Select>
-                  <Input type="password" value={u.password} onChange={(e) => handleInlineUpdate(u, 'password', e.target.value)} />
+                  <Input
+                    type="password"
+                    placeholder="New password"
+                    value={passwordDrafts[u.id] || ''}
+                    onChange={(e) => setPasswordDrafts(prev => ({ ...prev, [u.id]: e.target.value }))}
+                    onBlur={() => handlePasswordCommit(u)}
+                  />
                   <Button variant="destructive" className="gap-1" onClick={() => handleDeleteLocalUser(u.id)}>
                     <Trash2 className="h-4 w-4" /> Delete
                   </Button>
@@ -319,26 +749,149 @@ const Settings = () => {
               </div>
             ))}
 
+            <div className="space-y-2">
+              <Label htmlFor="audit-worksheet">Audit Worksheet Name</Label>
+              <Input
+                id="audit-worksheet"
+                value={auditWorksheet}
+                onChange={(e) => setAuditWorksheet(e.target.value)}
+                placeholder={DEFAULT_AUDIT_WORKSHEET}
+              />
+              <p className="text-xs text-muted-foreground">
+                Every lead change is logged here (who, what, old and new value). Created automatically if missing.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sheet Date Format</Label>
+              <Select value={sheetLocale} onValueChange={(value) => setSheetLocaleState(value as SheetLocale)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHEET_LOCALES.map((locale) => (
+                    <SelectItem key={locale.value} value={locale.value}>
+                      {locale.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                How numeric dates like 03/04/2025 are read from and written to the sheet
+              </p>
+            </div>
+
             <div className="border-t pt-4 mt-4">
-              <h3 className="text-sm font-semibold mb-4">Column Mappings (MASTER DATA sheet - Column A is Trip ID)</h3>
-              <div className="grid grid-cols-2 gap-4">
-                {Object.entries(columnMappings).map(([key, value]) => (
-                  <div key={key} className="space-y-2">
-                    <Label htmlFor={`col-${key}`} className="text-xs">
-                      {key.replace(/_/g, ' ').toUpperCase()}
-                    </Label>
-                    <Input
-                      id={`col-${key}`}
-                      value={value}
-                      onChange={(e) => setColumnMappings({ ...columnMappings, [key]: e.target.value.toUpperCase() })}
-                      placeholder="B"
-                      className="text-center"
-                      maxLength={2}
-                    />
-                  </div>
-                ))}
+              <ColumnMappingEditor
+                credentials={{
+                  googleApiKey: googleApiKey || undefined,
+                  googleServiceAccountJson: googleServiceAccountJson || undefined,
+                  googleSheetUrl: sheetUrl,
+                  worksheetNames,
+                  columnMappings,
+                  sheetLocale,
+                }}
+                mappings={columnMappings}
+                onChange={setColumnMappings}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-soft">
+          <CardHeader>
+            <CardTitle>Lead IDs</CardTitle>
+            <CardDescription>
+              Every lead is addressed by the ID in its Unique Key column (default Z)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Rows created before IDs were introduced, or rows copied from another lead, need a fresh ID
+              before they can be edited reliably. Backfill writes a new ID into every such row.
+            </p>
+            <Button variant="outline" className="gap-2" onClick={handleBackfillLeadIds} disabled={backfilling}>
+              <KeyRound className="h-4 w-4" />
+              {backfilling ? 'Backfilling...' : 'Backfill Missing Lead IDs'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-soft">
+          <CardHeader>
+            <CardTitle>User Passwords</CardTitle>
+            <CardDescription>
+              Passwords are stored as salted PBKDF2 hashes, never in plaintext
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Plaintext passwords typed into the BACKEND SHEET password column still work and are hashed
+              the next time that sheet is used for a login. Hash them all now to clear them from the sheet.
+            </p>
+            <Button variant="outline" className="gap-2" onClick={handleHashSheetPasswords} disabled={hashingPasswords}>
+              <Lock className="h-4 w-4" />
+              {hashingPasswords ? 'Hashing...' : 'Hash Sheet Passwords'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-soft">
+          <CardHeader>
+            <CardTitle>Trip IDs</CardTitle>
+            <CardDescription>
+              New leads get the next free Trip ID, e.g. {formatTripId(normalizeTripIdFormat(tripIdFormat), new Date(), 42)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="trip-id-prefix">Prefix</Label>
+                <Input
+                  id="trip-id-prefix"
+                  value={tripIdFormat.prefix}
+                  onChange={(e) => setTripIdFormat({ ...tripIdFormat, prefix: e.target.value })}
+                  placeholder={DEFAULT_TRIP_ID_FORMAT.prefix}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Date Segment</Label>
+                <Select
+                  value={tripIdFormat.dateSegment}
+                  onValueChange={(value) => setTripIdFormat({ ...tripIdFormat, dateSegment: value as TripIdDateSegment })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRIP_ID_DATE_SEGMENTS.map((segment) => (
+                      <SelectItem key={segment.value} value={segment.value}>
+                        {segment.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="trip-id-digits">Sequence Digits</Label>
+                <Input
+                  id="trip-id-digits"
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={tripIdFormat.digits}
+                  onChange={(e) => setTripIdFormat({ ...tripIdFormat, digits: Number(e.target.value) })}
+                />
               </div>
             </div>
+            <p className="text-xs text-muted-foreground">
+              The sequence restarts with every date period. Save settings before generating IDs for
+              existing leads: blank Trip IDs are filled in using each lead's creation date.
+            </p>
+            <Button variant="outline" className="gap-2" onClick={handleGenerateTripIds} disabled={generatingTripIds}>
+              <Ticket className="h-4 w-4" />
+              {generatingTripIds ? 'Generating...' : 'Generate Missing Trip IDs'}
+            </Button>
           </CardContent>
         </Card>
 
@@ -409,7 +962,8 @@ const Settings = () => {
             <li>Service Account JSON required for adding/updating leads; API Key only allows read access</li>
             <li>Sheet must have: MASTER DATA (leads) and BACKEND SHEET (users)</li>
             <li>BACKEND SHEET columns: C=Name, D=Email, E=Phone, M=Role, N=Password</li>
-            <li>MASTER DATA: Column A=Trip ID (auto), then mapped columns as above</li>
+            <li>MASTER DATA: row 1 holds the headers - use "Detect from headers" to map columns by name</li>
+            <li>MASTER DATA: Column Z=Unique Key holds the app's lead ID - do not edit or copy it between rows</li>
             <li>Share sheet: "Anyone with link can view" (for API key) or share with service account email</li>
             <li>All credentials stored securely on device - not in code or cloud</li>
           </ul>
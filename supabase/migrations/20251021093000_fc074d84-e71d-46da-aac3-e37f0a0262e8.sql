@@ -0,0 +1,21 @@
+-- Align leads table with the Google Sheets lead model so it can be used as a lead backend
+
+-- Stable lead ID (matches the sheet's Unique Key column)
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS lead_key text;
+UPDATE public.leads SET lead_key = trip_id WHERE lead_key IS NULL;
+ALTER TABLE public.leads ALTER COLUMN lead_key SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leads_lead_key ON public.leads(lead_key);
+
+-- Consultants are identified by name in the sheet, not by profile id
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS consultant_name text;
+
+-- Soft archive instead of deleting rows
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS archived_at timestamp with time zone;
+CREATE INDEX IF NOT EXISTS idx_leads_archived_at ON public.leads(archived_at);
+
+-- Sheet values are free text ("Follow-up Calls", "3 Star", "MAP"), store them as-is
+ALTER TABLE public.leads ALTER COLUMN lead_status DROP DEFAULT;
+ALTER TABLE public.leads ALTER COLUMN lead_status TYPE text USING lead_status::text;
+ALTER TABLE public.leads ALTER COLUMN lead_status SET DEFAULT 'Unfollowed';
+ALTER TABLE public.leads ALTER COLUMN hotel_category TYPE text USING hotel_category::text;
+ALTER TABLE public.leads ALTER COLUMN meal_plan TYPE text USING meal_plan::text;
@@ -0,0 +1,31 @@
+-- Sheets <-> database sync bookkeeping
+
+-- Re-add the write-back flag (dropped in 20251020054225) so rows can opt out of pushing to the sheet
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS sync_to_sheet boolean DEFAULT true;
+
+-- Field values both sides agreed on at the last sync; the common base for three-way comparison
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS sync_snapshot jsonb;
+
+-- Fields edited in both the sheet and the database since the last sync, awaiting admin review
+CREATE TABLE IF NOT EXISTS public.sync_conflicts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_key text NOT NULL,
+  traveller_name text,
+  field text NOT NULL,
+  base_value text,
+  sheet_value text,
+  db_value text,
+  detected_at timestamp with time zone DEFAULT now(),
+  resolved_at timestamp with time zone,
+  resolution text CHECK (resolution IN ('sheet', 'database'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_open ON public.sync_conflicts(lead_key, field) WHERE resolved_at IS NULL;
+
+ALTER TABLE public.sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage sync conflicts"
+  ON public.sync_conflicts FOR ALL
+  USING (
+    public.has_role(auth.uid(), 'admin') AND public.is_user_approved(auth.uid())
+  );
@@ -0,0 +1,12 @@
+-- Trip IDs are generated after some leads were created with their lead key as trip_id,
+-- so rows referencing leads.trip_id must follow when the Trip ID is assigned
+
+ALTER TABLE public.activity_logs DROP CONSTRAINT IF EXISTS activity_logs_lead_id_fkey;
+ALTER TABLE public.activity_logs
+  ADD CONSTRAINT activity_logs_lead_id_fkey
+  FOREIGN KEY (lead_id) REFERENCES public.leads(trip_id) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE public.reminders DROP CONSTRAINT IF EXISTS reminders_lead_id_fkey;
+ALTER TABLE public.reminders
+  ADD CONSTRAINT reminders_lead_id_fkey
+  FOREIGN KEY (lead_id) REFERENCES public.leads(trip_id) ON DELETE CASCADE ON UPDATE CASCADE;
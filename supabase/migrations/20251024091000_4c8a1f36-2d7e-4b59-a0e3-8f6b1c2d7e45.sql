@@ -0,0 +1,4 @@
+-- Lead fields without a column of their own: the extended MASTER DATA fields
+-- (lead source, destination, mentor review, automation columns...) and the cell notes,
+-- keyed by their SheetLead field name
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS details jsonb NOT NULL DEFAULT '{}'::jsonb;